@@ -0,0 +1,279 @@
+// In-process stand-in for a CalDAV server (Nextcloud, Radicale), for trying
+// the CalDAV provider without installing one, and for its tests.
+//
+//   node scripts/fake-caldav-server.mjs [port] [username] [password]
+//
+// Connect it on /settings with the server URL http://localhost:5232/ and the
+// same credentials (default: user / secret). Events are kept in memory and
+// can be changed while the app is running, to exercise delta syncs:
+//
+//   curl -u user:secret -X PUT --data-binary @event.ics \
+//     http://localhost:5232/calendars/user/personal/event.ics
+//   curl -u user:secret -X DELETE \
+//     http://localhost:5232/calendars/user/personal/event.ics
+//
+// Recurring events are returned unexpanded and time-range filters are
+// ignored; use Radicale to try those.
+
+import { createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+
+const WELL_KNOWN_PATH = "/.well-known/caldav";
+const NAMESPACES =
+  'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:a="http://apple.com/ns/ical/"';
+
+function toIcsTime(date) {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// A single-event calendar starting the given number of hours from now
+export function createFakeEvent(uid, summary, startOffsetHours, durationHours) {
+  const start = new Date(Date.now() + startOffsetHours * 60 * 60 * 1000);
+  start.setUTCMinutes(0, 0, 0);
+  const end = new Date(start.getTime() + durationHours * 60 * 60 * 1000);
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Fake CalDAV//EN",
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${toIcsTime(new Date())}`,
+    `DTSTART:${toIcsTime(start)}`,
+    `DTEND:${toIcsTime(end)}`,
+    `SUMMARY:${summary}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+    "",
+  ].join("\r\n");
+}
+
+function escapeXml(value) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+}
+
+function multistatus(responses, extra = "") {
+  return `<?xml version="1.0" encoding="utf-8"?><d:multistatus ${NAMESPACES}>${responses.join(
+    ""
+  )}${extra}</d:multistatus>`;
+}
+
+function propResponse(href, props) {
+  return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+}
+
+function notFoundResponse(href) {
+  return `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+}
+
+// One user's server: a principal, a calendar home holding an event calendar,
+// a task list and a plain collection, and the events of the calendar
+export function createFakeCaldavServer({
+  username = "user",
+  password = "secret",
+  log = false,
+} = {}) {
+  const principal = `/principals/${username}/`;
+  const home = `/calendars/${username}/`;
+  const calendarHref = `${home}personal/`;
+  const tasksHref = `${home}tasks/`;
+  const inboxHref = `${home}inbox/`;
+
+  // Resources by href, and every change with the version it was made at
+  const resources = new Map();
+  const changes = [];
+  let version = 0;
+  // Tokens from before this version are no longer accepted
+  let oldestVersion = 0;
+  let expiredTokenStatus = 403;
+
+  function putResource(href, data) {
+    resources.set(href, { data, etag: `"${++version}"` });
+    changes.push({ version, href });
+  }
+
+  function deleteResource(href) {
+    resources.delete(href);
+    changes.push({ version: ++version, href, deleted: true });
+  }
+
+  // Forget the change history, as servers do after a while, so every
+  // current token expires. Servers answer with 403 or 409.
+  function expireSyncTokens(status = 403) {
+    oldestVersion = version;
+    expiredTokenStatus = status;
+  }
+
+  function getSyncToken() {
+    return `http://fake-caldav/sync/${version}`;
+  }
+
+  function eventResponse(href) {
+    const resource = resources.get(href);
+    if (!resource) return notFoundResponse(href);
+    return propResponse(
+      href,
+      `<d:getetag>${resource.etag}</d:getetag><c:calendar-data>${escapeXml(
+        resource.data
+      )}</c:calendar-data>`
+    );
+  }
+
+  function handlePropfind(path, depth) {
+    if (path === "/" || path === WELL_KNOWN_PATH || path === principal) {
+      return multistatus([
+        propResponse(
+          path,
+          `<d:current-user-principal><d:href>${principal}</d:href></d:current-user-principal><c:calendar-home-set><d:href>${home}</d:href></c:calendar-home-set>`
+        ),
+      ]);
+    }
+    const calendar = propResponse(
+      calendarHref,
+      `<d:resourcetype><d:collection/><c:calendar/></d:resourcetype><d:displayname>Personal</d:displayname><a:calendar-color>#0082c9ff</a:calendar-color><c:supported-calendar-component-set><c:comp name="VEVENT"/></c:supported-calendar-component-set><d:sync-token>${getSyncToken()}</d:sync-token>`
+    );
+    if (path === home) {
+      const members = [
+        propResponse(home, "<d:resourcetype><d:collection/></d:resourcetype>"),
+        calendar,
+        propResponse(
+          tasksHref,
+          `<d:resourcetype><d:collection/><c:calendar/></d:resourcetype><d:displayname>Tasks</d:displayname><c:supported-calendar-component-set><c:comp name="VTODO"/></c:supported-calendar-component-set>`
+        ),
+        propResponse(
+          inboxHref,
+          "<d:resourcetype><d:collection/></d:resourcetype><d:displayname>Inbox</d:displayname>"
+        ),
+      ];
+      return multistatus(depth === "0" ? members.slice(0, 1) : members);
+    }
+    if (path === calendarHref) return multistatus([calendar]);
+    return null;
+  }
+
+  function handleReport(body) {
+    if (body.includes("sync-collection")) {
+      const token = /<[^>]*sync-token>([^<]*)</.exec(body)?.[1] || "";
+      const since = Number(/\/sync\/(\d+)$/.exec(token)?.[1]);
+      if (Number.isNaN(since) || since > version || since < oldestVersion) {
+        return null;
+      }
+
+      const hrefs = new Set(
+        changes
+          .filter((change) => change.version > since)
+          .map(({ href }) => href)
+      );
+      return multistatus(
+        [...hrefs].map((href) =>
+          resources.has(href)
+            ? propResponse(
+                href,
+                `<d:getetag>${resources.get(href).etag}</d:getetag>`
+              )
+            : notFoundResponse(href)
+        ),
+        `<d:sync-token>${getSyncToken()}</d:sync-token>`
+      );
+    }
+    if (body.includes("calendar-multiget")) {
+      const hrefs = [...body.matchAll(/<[^>]*href>([^<]*)</g)].map(
+        ([, href]) => decodeURI(href)
+      );
+      return multistatus(hrefs.map(eventResponse));
+    }
+    return multistatus([...resources.keys()].map(eventResponse));
+  }
+
+  const server = createServer((req, res) => {
+    const expected = `Basic ${Buffer.from(`${username}:${password}`).toString(
+      "base64"
+    )}`;
+    if (req.headers.authorization !== expected) {
+      res.writeHead(401, { "WWW-Authenticate": 'Basic realm="fake-caldav"' });
+      res.end();
+      return;
+    }
+
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const path = decodeURI(new URL(req.url, "http://localhost").pathname);
+      const send = (
+        status,
+        text = "",
+        type = "application/xml; charset=utf-8"
+      ) => {
+        res.writeHead(status, { "Content-Type": type });
+        res.end(text);
+      };
+      if (log) console.log(`${req.method} ${path}`);
+
+      if (req.method === "PROPFIND") {
+        const result = handlePropfind(path, req.headers.depth);
+        return result ? send(207, result) : send(404);
+      }
+      if (req.method === "REPORT" && path === calendarHref) {
+        const result = handleReport(body);
+        return result
+          ? send(207, result)
+          : send(
+              expiredTokenStatus,
+              `<d:error ${NAMESPACES}><d:valid-sync-token/></d:error>`
+            );
+      }
+      if (path.startsWith(calendarHref) && path.endsWith(".ics")) {
+        if (req.method === "GET") {
+          const resource = resources.get(path);
+          return resource
+            ? send(200, resource.data, "text/calendar; charset=utf-8")
+            : send(404);
+        }
+        if (req.method === "PUT") {
+          putResource(path, body);
+          return send(201);
+        }
+        if (req.method === "DELETE") {
+          if (!resources.has(path)) return send(404);
+          deleteResource(path);
+          return send(204);
+        }
+      }
+      send(405);
+    });
+  });
+
+  return {
+    server,
+    principal,
+    calendarHref,
+    putResource,
+    deleteResource,
+    expireSyncTokens,
+  };
+}
+
+// Run from the command line
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.argv[2] || 5232);
+  const fake = createFakeCaldavServer({
+    username: process.argv[3] || "user",
+    password: process.argv[4] || "secret",
+    log: true,
+  });
+
+  fake.putResource(
+    `${fake.calendarHref}standup.ics`,
+    createFakeEvent("standup@fake-caldav", "Standup", 2, 1)
+  );
+  fake.putResource(
+    `${fake.calendarHref}review.ics`,
+    createFakeEvent("review@fake-caldav", "Design review", 26, 2)
+  );
+
+  fake.server.listen(port, () => {
+    console.log(`Fake CalDAV server on http://localhost:${port}/`);
+  });
+}
@@ -0,0 +1,50 @@
+// Local stand-in for Google Calendar push notifications.
+//
+// Start the app with GOOGLE_WATCH_MODE=local, open it in a browser so a watch
+// channel gets registered, then run:
+//
+//   node scripts/fake-google-push.mjs [baseUrl] [resourceState]
+//
+// Every local channel receives a notification shaped like Google's.
+
+const baseUrl = process.argv[2] || "http://localhost:3000";
+const resourceState = process.argv[3] || "exists";
+const webhookUrl = `${baseUrl}/api/webhooks/google`;
+
+async function main() {
+  const response = await fetch(webhookUrl);
+  if (!response.ok) {
+    throw new Error(
+      `Could not list local channels (${response.status}). Is GOOGLE_WATCH_MODE=local set?`
+    );
+  }
+
+  const { data: channels } = await response.json();
+  if (channels.length === 0) {
+    console.log("No local watch channels registered yet.");
+    return;
+  }
+
+  let messageNumber = 1;
+  for (const channel of channels) {
+    const result = await fetch(webhookUrl, {
+      method: "POST",
+      headers: {
+        "X-Goog-Channel-ID": channel.id,
+        "X-Goog-Channel-Token": channel.token,
+        "X-Goog-Message-Number": String(messageNumber++),
+        "X-Goog-Resource-ID": `fake-${channel.calendarId}`,
+        "X-Goog-Resource-State": resourceState,
+        "X-Goog-Resource-URI": `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(
+          channel.calendarId
+        )}/events`,
+      },
+    });
+    console.log(`${channel.id} (${channel.calendarId}): ${result.status}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+// Minimal stand-in for a cron scheduler: triggers the background sync on a
+// fixed interval while it runs.
+//
+//   CRON_SECRET=... node scripts/sync-scheduler.mjs [baseUrl] [minutes]
+//
+// Use the same CRON_SECRET the app was started with. In production, point a
+// real scheduler (Vercel Cron, crontab, ...) at /api/sync/cron instead.
+
+const baseUrl = process.argv[2] || "http://localhost:3000";
+const minutes = Number(process.argv[3] || 5);
+const secret = process.env.CRON_SECRET;
+const cronUrl = `${baseUrl}/api/sync/cron`;
+
+async function trigger() {
+  try {
+    const response = await fetch(cronUrl, {
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const body = await response.json();
+    console.log(
+      `${new Date().toISOString()} ${response.status} ${
+        body.message || body.error
+      }`
+    );
+  } catch (error) {
+    console.error(`${new Date().toISOString()} ${error.message}`);
+  }
+}
+
+if (!secret) {
+  console.error("Set CRON_SECRET to the value the app was started with.");
+  process.exit(1);
+}
+
+console.log(`Triggering ${cronUrl} every ${minutes} minutes`);
+trigger();
+setInterval(trigger, minutes * 60 * 1000);
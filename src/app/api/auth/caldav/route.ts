@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import {
+  classifyGoogleError,
+  createApiErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import {
+  CaldavAccount,
+  CaldavAccountInput,
+  connectCaldavAccount,
+  disconnectCaldavAccount,
+  getCaldavAccount,
+  validateCaldavInput,
+} from "../../caldavClient";
+import { getSession } from "../../session";
+
+// Helper functions
+// The password never leaves the server
+function toAccountResponse(account: CaldavAccount | null) {
+  return {
+    connected: !!account,
+    account: account
+      ? { serverUrl: account.serverUrl, username: account.username }
+      : null,
+  };
+}
+
+// Main handlers
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const account = await getCaldavAccount(session.userId);
+    return createSuccessResponse(toAccountResponse(account));
+  } catch (error) {
+    console.error("CalDAV status error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to load the CalDAV connection"
+    );
+  }
+}
+
+// Connect a CalDAV server, replacing the account connected before. The
+// server is asked for the user's calendars first, so bad credentials or a
+// wrong URL are reported here rather than on the next sync.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const input = await req.json().catch(() => ({}));
+    const validationError = validateCaldavInput(input);
+    if (validationError) {
+      return createApiErrorResponse("bad_request", validationError);
+    }
+
+    try {
+      const account = await connectCaldavAccount(
+        session.userId,
+        input as CaldavAccountInput
+      );
+      return createSuccessResponse(
+        toAccountResponse(account),
+        "CalDAV connected",
+        201
+      );
+    } catch (error) {
+      console.warn("CalDAV discovery failed:", error);
+      return createApiErrorResponse(
+        "bad_request",
+        classifyGoogleError(error) === "forbidden"
+          ? "The server rejected the username or password"
+          : "No CalDAV calendars were found at that URL"
+      );
+    }
+  } catch (error) {
+    console.error("CalDAV connect error:", error);
+    return createApiErrorResponse("internal_error", "Failed to connect CalDAV");
+  }
+}
+
+// Forget the account; its calendars disappear from the list
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    await disconnectCaldavAccount(session.userId);
+    return createSuccessResponse(null, "CalDAV disconnected");
+  } catch (error) {
+    console.error("CalDAV disconnect error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to disconnect CalDAV"
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Auth } from "googleapis";
 import { getOAuth2Client, createErrorResponse } from "../../utils";
+import { beginLogin, setOAuthStateCookie } from "../../oauthState";
 
 // Constants
 const ACCESS_TYPE = "offline";
@@ -12,12 +14,28 @@ const CALENDAR_SCOPES = [
   "https://www.googleapis.com/auth/userinfo.email",
 ];
 
+// Requested on top of the read scopes the first time the user edits an event
+const CALENDAR_WRITE_SCOPES = [
+  "https://www.googleapis.com/auth/calendar.events",
+];
+
 // Helper functions
-function generateAuthUrl(oAuth2Client: any): string {
+function generateAuthUrl(
+  oAuth2Client: Auth.OAuth2Client,
+  includeWrite: boolean,
+  state: string,
+  codeChallenge: string
+): string {
   return oAuth2Client.generateAuthUrl({
     access_type: ACCESS_TYPE,
-    scope: CALENDAR_SCOPES,
+    scope: includeWrite
+      ? [...CALENDAR_SCOPES, ...CALENDAR_WRITE_SCOPES]
+      : CALENDAR_SCOPES,
     prompt: PROMPT_TYPE,
+    include_granted_scopes: true,
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: Auth.CodeChallengeMethod.S256,
   });
 }
 
@@ -27,11 +45,25 @@ export async function GET(req: NextRequest) {
     // Setup OAuth2 client
     const oAuth2Client = getOAuth2Client();
 
-    // Generate authentication URL
-    const authUrl = generateAuthUrl(oAuth2Client);
+    // Bind the attempt to this browser with a state nonce and PKCE pair
+    const { searchParams } = new URL(req.url);
+    const { state, codeChallenge } = await beginLogin(
+      searchParams.get("returnTo") || "/"
+    );
+
+    // Generate authentication URL, upgrading to write access on request
+    const includeWrite = searchParams.get("scope") === "write";
+    const authUrl = generateAuthUrl(
+      oAuth2Client,
+      includeWrite,
+      state,
+      codeChallenge
+    );
 
     // Redirect to Google OAuth
-    return NextResponse.redirect(authUrl);
+    const response = NextResponse.redirect(authUrl);
+    setOAuthStateCookie(response, state);
+    return response;
   } catch (error: any) {
     console.error("Auth URL generation error:", error);
     return createErrorResponse(
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectMicrosoftAccount } from "../../../microsoftAuth";
+import { clearOAuthStateCookie, completeLogin } from "../../../oauthState";
+import { getSession } from "../../../session";
+
+// Constants
+const DEFAULT_RETURN_TO = "/settings";
+
+// Helper functions
+// Back to the app, with the outcome in the query string for the settings page
+function redirectBack(
+  req: NextRequest,
+  returnTo: string,
+  outcome: "connected" | "failed"
+): NextResponse {
+  const url = new URL(returnTo, req.url);
+  url.searchParams.set("outlook", outcome);
+
+  const response = NextResponse.redirect(url);
+  clearOAuthStateCookie(response);
+  return response;
+}
+
+// Main handler
+// Microsoft redirects here after the consent screen
+export async function GET(req: NextRequest) {
+  const session = await getSession(req);
+  // The browser arrives here by redirect, so send it home to sign in
+  if (!session) {
+    return NextResponse.redirect(new URL("/", req.url));
+  }
+
+  const { searchParams } = new URL(req.url);
+  let returnTo = DEFAULT_RETURN_TO;
+
+  try {
+    // Verify the response belongs to a login this browser started
+    const login = await completeLogin(
+      req,
+      searchParams.get("state") || undefined
+    );
+    returnTo = login.returnTo;
+
+    // Microsoft reports a declined consent screen as an error parameter
+    const code = searchParams.get("code");
+    if (!code) {
+      console.warn(
+        "Outlook consent not granted:",
+        searchParams.get("error_description") || searchParams.get("error")
+      );
+      return redirectBack(req, returnTo, "failed");
+    }
+
+    await connectMicrosoftAccount(session.userId, code, login.codeVerifier);
+    return redirectBack(req, returnTo, "connected");
+  } catch (error) {
+    console.error("Outlook connect error:", error);
+    return redirectBack(req, returnTo, "failed");
+  }
+}
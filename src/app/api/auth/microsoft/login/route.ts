@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createApiErrorResponse,
+  createUnauthenticatedResponse,
+} from "../../../utils";
+import {
+  getMicrosoftAuthUrl,
+  isMicrosoftConfigured,
+} from "../../../microsoftAuth";
+import { beginLogin, setOAuthStateCookie } from "../../../oauthState";
+import { getSession } from "../../../session";
+
+// Main handler
+// Send the signed-in user to Microsoft to connect their Outlook calendars
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+    if (!isMicrosoftConfigured()) {
+      return createApiErrorResponse(
+        "bad_request",
+        "Outlook is not configured on this server"
+      );
+    }
+
+    // Bind the attempt to this browser with a state nonce and PKCE pair
+    const { searchParams } = new URL(req.url);
+    const { state, codeChallenge } = await beginLogin(
+      searchParams.get("returnTo") || "/settings"
+    );
+
+    const response = NextResponse.redirect(
+      getMicrosoftAuthUrl(state, codeChallenge)
+    );
+    setOAuthStateCookie(response, state);
+    return response;
+  } catch (error) {
+    console.error("Outlook auth URL error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to start connecting Outlook"
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import {
+  disconnectMicrosoftAccount,
+  getMicrosoftCredentials,
+  isMicrosoftConfigured,
+} from "../../microsoftAuth";
+import { getSession } from "../../session";
+
+// Main handlers
+// Whether Outlook can be connected, and the account when it is
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const credentials = await getMicrosoftCredentials(session.userId);
+    return createSuccessResponse({
+      configured: isMicrosoftConfigured(),
+      connected: !!credentials,
+      account: credentials?.account ?? null,
+    });
+  } catch (error) {
+    console.error("Outlook status error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to load the Outlook connection"
+    );
+  }
+}
+
+// Forget the Outlook tokens; its calendars disappear from the list
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    await disconnectMicrosoftAccount(session.userId);
+    return createSuccessResponse(null, "Outlook disconnected");
+  } catch (error) {
+    console.error("Outlook disconnect error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to disconnect Outlook"
+    );
+  }
+}
@@ -5,6 +5,18 @@ import {
   createSuccessResponse,
   validateEnvironmentVariables,
 } from "../utils";
+import {
+  createSession,
+  fetchUserProfile,
+  saveCredentials,
+  setSessionCookie,
+} from "../session";
+import {
+  clearOAuthStateCookie,
+  completeLogin,
+  isOAuthStateError,
+} from "../oauthState";
+import { createTokenExpiry } from "@/lib/tokens";
 
 export async function POST(req: NextRequest) {
   try {
@@ -12,22 +24,43 @@ export async function POST(req: NextRequest) {
     validateEnvironmentVariables();
 
     // Parse request body
-    const { code } = await req.json();
+    const { code, state } = await req.json();
 
     if (!code) {
       return createErrorResponse("Authorization code is required", 400);
     }
 
+    // Verify the response belongs to a login this browser started
+    const login = await completeLogin(req, state);
+
     // Exchange authorization code for tokens
-    const tokens = await exchangeCodeForTokens(code);
+    const tokens = await exchangeCodeForTokens(code, login.codeVerifier);
+
+    // Identify the Google account the tokens belong to
+    if (!tokens.access_token) {
+      throw new Error("Google did not return an access token");
+    }
+    const profile = await fetchUserProfile(tokens.access_token);
+
+    // Keep the tokens server-side and hand the browser an opaque session
+    const credentials = await saveCredentials(profile.id, tokens);
+    const session = await createSession(profile);
 
-    // Return the access token
-    return createSuccessResponse({
-      access_token: tokens.access_token,
-      refresh_token: tokens.refresh_token,
-      expires_in: tokens.expiry_date,
+    const response = createSuccessResponse({
+      user: session.user,
+      returnTo: login.returnTo,
+      ...createTokenExpiry(credentials.expiryDate),
     });
+    setSessionCookie(response, session.id);
+    clearOAuthStateCookie(response);
+    return response;
   } catch (error: any) {
+    if (isOAuthStateError(error)) {
+      const response = createErrorResponse(error.code, 400, error.message);
+      clearOAuthStateCookie(response);
+      return response;
+    }
+
     console.error("Auth error:", error);
     return createErrorResponse(error.message || "Authentication failed", 500);
   }
@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { createErrorResponse, createSuccessResponse } from "../../utils";
+import {
+  clearSessionCookie,
+  destroySession,
+  getFreshCredentials,
+  getSession,
+} from "../../session";
+import { createTokenExpiry } from "@/lib/tokens";
+
+// Reports who is signed in; never exposes Google tokens to the browser
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createSuccessResponse({ authenticated: false });
+    }
+
+    // Refresh ahead of expiry here too, so the reported expiry is usable
+    const credentials = await getFreshCredentials(session.userId).catch(
+      (error) => {
+        console.error("Token refresh failed:", error);
+        return null;
+      }
+    );
+    if (!credentials?.accessToken) {
+      return createSuccessResponse({ authenticated: false });
+    }
+
+    return createSuccessResponse({
+      authenticated: true,
+      user: session.user,
+      scopes: credentials.scope?.split(" ") ?? [],
+      ...createTokenExpiry(credentials.expiryDate),
+    });
+  } catch (error) {
+    console.error("Session lookup error:", error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : "Failed to read session",
+      500
+    );
+  }
+}
+
+// Signs out by deleting the server-side session and its cookie
+export async function DELETE(req: NextRequest) {
+  try {
+    await destroySession(req);
+
+    const response = createSuccessResponse({ authenticated: false });
+    clearSessionCookie(response);
+    return response;
+  } catch (error) {
+    console.error("Sign out error:", error);
+    return createErrorResponse(
+      error instanceof Error ? error.message : "Failed to sign out",
+      500
+    );
+  }
+}
@@ -0,0 +1,263 @@
+import { calendar_v3 } from "googleapis";
+import { getTimeZoneOffset, isValidTimeZone } from "@/lib/timeZones";
+
+// Free/busy lookups and the slot finder built on them. Each attendee's
+// working hours are read on their own wall clock, so a 9:00-17:00 window
+// means different instants for someone in Berlin and someone in New York.
+
+// Constants
+export const MAX_ATTENDEES = 20;
+export const MAX_WINDOW_DAYS = 31;
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 8 * 60;
+const SLOT_STEP_MINUTES = 30;
+const DEFAULT_SLOT_LIMIT = 10;
+const MINUTE_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+// Sunday and Saturday, as returned by Date.getUTCDay
+const WEEKEND_DAYS = [0, 6];
+
+// Types
+export interface AttendeeInput {
+  email: string;
+  timeZone: string;
+}
+
+// "HH:mm" on each attendee's own clock
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+export interface AvailabilityRequest {
+  attendees: AttendeeInput[];
+  durationMinutes: number;
+  workingHours: WorkingHours;
+  includeWeekends?: boolean;
+}
+
+export interface BusyInterval {
+  start: number;
+  end: number;
+}
+
+export interface AttendeeAvailability extends AttendeeInput {
+  busy: BusyInterval[];
+  // Set when Google could not share this attendee's calendar; their
+  // availability is then unknown rather than free
+  error?: string;
+}
+
+export interface CandidateSlot {
+  start: number;
+  end: number;
+  // Emails of attendees who are free and within their working hours
+  available: string[];
+  busy: string[];
+  outsideHours: string[];
+}
+
+export interface SlotSearch {
+  attendees: AttendeeAvailability[];
+  windowStart: number;
+  windowEnd: number;
+  durationMinutes: number;
+  workingHours: WorkingHours;
+  includeWeekends?: boolean;
+  limit?: number;
+}
+
+// Helper functions
+function parseTime(value: string): number {
+  const match = TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+}
+
+// Validate a slot search request; returns an error message when invalid
+export function validateAvailabilityRequest(input: unknown): string | null {
+  if (!input || typeof input !== "object") return "A request body is required";
+
+  const { attendees, durationMinutes, workingHours, includeWeekends } =
+    input as AvailabilityRequest;
+  if (!Array.isArray(attendees) || attendees.length === 0) {
+    return "Add at least one attendee";
+  }
+  if (attendees.length > MAX_ATTENDEES) {
+    return `At most ${MAX_ATTENDEES} attendees can be compared at once`;
+  }
+  const emails = new Set<string>();
+  for (const attendee of attendees) {
+    if (typeof attendee?.email !== "string" || !attendee.email.includes("@")) {
+      return "Attendees need a valid email address";
+    }
+    if (emails.has(attendee.email)) {
+      return `${attendee.email} is listed more than once`;
+    }
+    emails.add(attendee.email);
+    if (
+      typeof attendee.timeZone !== "string" ||
+      !isValidTimeZone(attendee.timeZone)
+    ) {
+      return `Invalid timeZone for ${attendee.email}`;
+    }
+  }
+  if (
+    !Number.isInteger(durationMinutes) ||
+    durationMinutes < MIN_DURATION_MINUTES ||
+    durationMinutes > MAX_DURATION_MINUTES
+  ) {
+    return `Duration must be between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES} minutes`;
+  }
+  const start = parseTime(workingHours?.start);
+  const end = parseTime(workingHours?.end);
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return "Working hours must be formatted as HH:mm";
+  }
+  if (end - start < durationMinutes) {
+    return "Working hours are shorter than the meeting";
+  }
+  if (includeWeekends !== undefined && typeof includeWeekends !== "boolean") {
+    return "includeWeekends must be a boolean";
+  }
+  return null;
+}
+
+// Whether [start, end) falls inside the attendee's working hours on a single
+// day of their own calendar
+function isWithinWorkingHours(
+  start: number,
+  end: number,
+  timeZone: string,
+  workingHours: WorkingHours,
+  includeWeekends: boolean
+): boolean {
+  const localStart = new Date(start + getTimeZoneOffset(start, timeZone));
+  const localEnd = new Date(end + getTimeZoneOffset(end, timeZone));
+  if (localStart.getUTCDate() !== localEnd.getUTCDate()) return false;
+  if (!includeWeekends && WEEKEND_DAYS.includes(localStart.getUTCDay())) {
+    return false;
+  }
+
+  const startMinutes =
+    localStart.getUTCHours() * 60 + localStart.getUTCMinutes();
+  const endMinutes = localEnd.getUTCHours() * 60 + localEnd.getUTCMinutes();
+  return (
+    startMinutes >= parseTime(workingHours.start) &&
+    endMinutes <= parseTime(workingHours.end)
+  );
+}
+
+function isBusy(busy: BusyInterval[], start: number, end: number): boolean {
+  return busy.some((interval) => interval.start < end && interval.end > start);
+}
+
+// Rank every slot in the window by how many attendees can make it, earliest
+// first among equals, and keep the best ones that don't overlap each other.
+// Attendees whose availability is unknown don't count either way.
+export function findCandidateSlots({
+  attendees,
+  windowStart,
+  windowEnd,
+  durationMinutes,
+  workingHours,
+  includeWeekends = false,
+  limit = DEFAULT_SLOT_LIMIT,
+}: SlotSearch): CandidateSlot[] {
+  const step = SLOT_STEP_MINUTES * MINUTE_MS;
+  const duration = durationMinutes * MINUTE_MS;
+  const known = attendees.filter((attendee) => !attendee.error);
+  const candidates: CandidateSlot[] = [];
+
+  for (
+    let start = Math.ceil(windowStart / step) * step;
+    start + duration <= windowEnd;
+    start += step
+  ) {
+    const end = start + duration;
+    const slot: CandidateSlot = {
+      start,
+      end,
+      available: [],
+      busy: [],
+      outsideHours: [],
+    };
+
+    for (const attendee of known) {
+      if (isBusy(attendee.busy, start, end)) {
+        slot.busy.push(attendee.email);
+      } else if (
+        !isWithinWorkingHours(
+          start,
+          end,
+          attendee.timeZone,
+          workingHours,
+          includeWeekends
+        )
+      ) {
+        slot.outsideHours.push(attendee.email);
+      } else {
+        slot.available.push(attendee.email);
+      }
+    }
+
+    if (slot.available.length > 0) candidates.push(slot);
+  }
+
+  candidates.sort(
+    (a, b) => b.available.length - a.available.length || a.start - b.start
+  );
+
+  const slots: CandidateSlot[] = [];
+  for (const candidate of candidates) {
+    if (slots.length >= limit) break;
+    if (
+      slots.some(
+        (slot) => slot.start < candidate.end && slot.end > candidate.start
+      )
+    ) {
+      continue;
+    }
+    slots.push(candidate);
+  }
+  return slots;
+}
+
+// Busy intervals for each attendee over [timeMin, timeMax)
+export async function queryFreeBusy(
+  calendar: calendar_v3.Calendar,
+  attendees: AttendeeInput[],
+  timeMin: number,
+  timeMax: number
+): Promise<AttendeeAvailability[]> {
+  const response = await calendar.freebusy.query({
+    requestBody: {
+      timeMin: new Date(timeMin).toISOString(),
+      timeMax: new Date(timeMax).toISOString(),
+      items: attendees.map((attendee) => ({ id: attendee.email })),
+    },
+  });
+  const calendars = response.data.calendars || {};
+
+  return attendees.map((attendee) => {
+    const result = calendars[attendee.email];
+    const reason = result?.errors?.[0]?.reason;
+    if (!result || reason) {
+      return {
+        ...attendee,
+        busy: [],
+        error:
+          reason === "notFound"
+            ? "Calendar not found or not shared"
+            : "Availability unavailable",
+      };
+    }
+
+    return {
+      ...attendee,
+      busy: (result.busy || []).map((interval) => ({
+        start: new Date(interval.start!).getTime(),
+        end: new Date(interval.end!).getTime(),
+      })),
+    };
+  });
+}
@@ -0,0 +1,484 @@
+import { getJson, getStore, setJson } from "./store";
+import { HttpError, createHttpError } from "./utils";
+import {
+  XmlElement,
+  escapeXml,
+  findElement,
+  findElements,
+  getElementText,
+  parseXml,
+} from "@/lib/xml";
+
+// A CalDAV account (Nextcloud, Radicale, ...) connected to a signed-in user,
+// and the WebDAV requests the CalDAV provider needs. Servers are reached with
+// basic auth; app passwords are stored in the encrypted store.
+
+// Constants
+const ACCOUNT_PREFIX = "caldav-account:";
+const WELL_KNOWN_PATH = "/.well-known/caldav";
+const MAX_FIELD_LENGTH = 500;
+const MULTIGET_BATCH_SIZE = 100;
+const HTTP_MULTI_STATUS = 207;
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_FORBIDDEN = 403;
+const HTTP_NOT_FOUND = 404;
+const HTTP_CONFLICT = 409;
+const HTTP_GONE = 410;
+
+const DAV_NAMESPACES =
+  'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:a="http://apple.com/ns/ical/"';
+
+// Types
+export interface CaldavAccount {
+  serverUrl: string;
+  username: string;
+  password: string;
+  // Collection holding the user's calendars, found during discovery
+  calendarHomeUrl: string;
+  connectedAt: number;
+}
+
+export interface CaldavAccountInput {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+export interface CaldavCalendar {
+  // Server path of the collection, ending in "/"
+  href: string;
+  name: string;
+  description?: string;
+  color?: string;
+}
+
+// One resource of a calendar-query or multiget: an .ics file's path and data
+export interface CaldavResource {
+  href: string;
+  calendarData: string;
+}
+
+export interface CaldavChanges {
+  syncToken?: string;
+  changed: string[];
+  removed: string[];
+}
+
+interface DavResponse {
+  href: string;
+  status: number;
+  // Properties the server returned with a 200 status
+  props: XmlElement[];
+}
+
+interface DavRequestOptions {
+  depth?: "0" | "1";
+  body?: string;
+}
+
+// Helper functions
+function getAccountKey(userId: string): string {
+  return `${ACCOUNT_PREFIX}${userId}`;
+}
+
+function parseStatus(value: string | undefined): number {
+  const match = /HTTP\/[\d.]+\s+(\d{3})/i.exec(value || "");
+  return match ? Number(match[1]) : 0;
+}
+
+function decodeHref(href: string): string {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
+// Format a time for CalDAV time-range filters: 20250714T090000Z
+export function toCaldavTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// Validate a connect form; returns an error message when invalid
+export function validateCaldavInput(input: unknown): string | null {
+  const { serverUrl, username, password } = (input || {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (typeof serverUrl !== "string" || !serverUrl.trim()) {
+    return "Server URL is required";
+  }
+  try {
+    const url = new URL(serverUrl);
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "Server URL must start with https:// or http://";
+    }
+  } catch {
+    return "Server URL is not a valid URL";
+  }
+  if (typeof username !== "string" || !username.trim()) {
+    return "Username is required";
+  }
+  if (typeof password !== "string" || !password) {
+    return "Password is required";
+  }
+  if (
+    serverUrl.length > MAX_FIELD_LENGTH ||
+    username.length > MAX_FIELD_LENGTH ||
+    password.length > MAX_FIELD_LENGTH
+  ) {
+    return `Fields must be at most ${MAX_FIELD_LENGTH} characters`;
+  }
+  return null;
+}
+
+// WebDAV requests
+
+async function davRequest(
+  account: Pick<CaldavAccount, "serverUrl" | "username" | "password">,
+  method: string,
+  url: string,
+  options: DavRequestOptions = {}
+): Promise<Response> {
+  const credentials = Buffer.from(
+    `${account.username}:${account.password}`
+  ).toString("base64");
+
+  const response = await fetch(new URL(url, account.serverUrl), {
+    method,
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      ...(options.depth ? { Depth: options.depth } : {}),
+      ...(options.body
+        ? { "Content-Type": "application/xml; charset=utf-8" }
+        : {}),
+    },
+    body: options.body,
+  });
+
+  // A rejected password only affects this account, not the user's session
+  if (response.status === HTTP_UNAUTHORIZED) {
+    throw createHttpError(
+      HTTP_FORBIDDEN,
+      "The CalDAV server rejected the username or password"
+    );
+  }
+  return response;
+}
+
+// Run a PROPFIND or REPORT and read its multistatus body
+async function davMultistatus(
+  account: Pick<CaldavAccount, "serverUrl" | "username" | "password">,
+  method: string,
+  url: string,
+  options: DavRequestOptions
+): Promise<{ document: XmlElement | null; responses: DavResponse[] }> {
+  const response = await davRequest(account, method, url, options);
+  const text = await response.text();
+
+  if (response.status !== HTTP_MULTI_STATUS) {
+    throw createHttpError(
+      response.status,
+      `CalDAV ${method} failed with HTTP ${response.status}`,
+      response.headers,
+      text
+    );
+  }
+
+  const document = parseXml(text);
+  const responses = findElements(document, "response").map((element) => ({
+    href: decodeHref(getElementText(element, "href") || ""),
+    status: parseStatus(
+      element.children.find(({ name }) => name === "status")?.text
+    ),
+    props: findElements(element, "propstat")
+      .filter(
+        (propstat) => parseStatus(getElementText(propstat, "status")) < 300
+      )
+      .flatMap((propstat) => findElements(propstat, "prop")),
+  }));
+  return { document, responses };
+}
+
+function getProp(response: DavResponse, name: string): XmlElement | null {
+  for (const prop of response.props) {
+    const element = findElement(prop, name);
+    if (element) return element;
+  }
+  return null;
+}
+
+// Discovery
+
+async function findPrincipal(
+  input: CaldavAccountInput
+): Promise<string | undefined> {
+  for (const url of [input.serverUrl, WELL_KNOWN_PATH]) {
+    try {
+      const {
+        responses: [response],
+      } = await davMultistatus(input, "PROPFIND", url, {
+        depth: "0",
+        body: `<d:propfind ${DAV_NAMESPACES}><d:prop><d:current-user-principal/></d:prop></d:propfind>`,
+      });
+      const href = response && getProp(response, "current-user-principal");
+      const principal = getElementText(href, "href");
+      if (principal) return principal;
+    } catch (error) {
+      // Wrong credentials won't get better at the well-known address
+      if ((error as HttpError).code === HTTP_FORBIDDEN) throw error;
+    }
+  }
+  return undefined;
+}
+
+// Follow the server URL to the user's principal and from there to the
+// collection that holds their calendars
+async function discoverCalendarHome(input: CaldavAccountInput) {
+  const principal = await findPrincipal(input);
+  // Servers without principals are pointed straight at the calendar home
+  if (!principal) return input.serverUrl;
+
+  const {
+    responses: [response],
+  } = await davMultistatus(input, "PROPFIND", principal, {
+    depth: "0",
+    body: `<d:propfind ${DAV_NAMESPACES}><d:prop><c:calendar-home-set/></d:prop></d:propfind>`,
+  });
+  const homeSet = response && getProp(response, "calendar-home-set");
+  return getElementText(homeSet, "href") || principal;
+}
+
+// Accounts
+
+export async function getCaldavAccount(
+  userId: string
+): Promise<CaldavAccount | null> {
+  return getJson<CaldavAccount>(getAccountKey(userId));
+}
+
+export async function isCaldavConnected(userId: string): Promise<boolean> {
+  return !!(await getCaldavAccount(userId));
+}
+
+// Check the credentials by discovering the calendar home, then keep them
+export async function connectCaldavAccount(
+  userId: string,
+  input: CaldavAccountInput
+): Promise<CaldavAccount> {
+  const serverUrl = input.serverUrl.trim();
+  const credentials = { ...input, serverUrl, username: input.username.trim() };
+  const calendarHomeUrl = await discoverCalendarHome(credentials);
+
+  const account: CaldavAccount = {
+    ...credentials,
+    calendarHomeUrl: new URL(calendarHomeUrl, serverUrl).toString(),
+    connectedAt: Date.now(),
+  };
+  await setJson(getAccountKey(userId), account);
+  return account;
+}
+
+export async function disconnectCaldavAccount(userId: string): Promise<void> {
+  await getStore().delete(getAccountKey(userId));
+}
+
+// Calendars and events
+
+// Calendar collections in the account's home that can hold events
+export async function listCaldavCalendars(
+  account: CaldavAccount
+): Promise<CaldavCalendar[]> {
+  const { responses } = await davMultistatus(
+    account,
+    "PROPFIND",
+    account.calendarHomeUrl,
+    {
+      depth: "1",
+      body: `<d:propfind ${DAV_NAMESPACES}><d:prop><d:resourcetype/><d:displayname/><c:calendar-description/><c:supported-calendar-component-set/><a:calendar-color/></d:prop></d:propfind>`,
+    }
+  );
+
+  return responses.flatMap((response) => {
+    const isCalendar = !!findElement(
+      getProp(response, "resourcetype"),
+      "calendar"
+    );
+    // Task lists and journals are calendar collections too
+    const components = findElements(
+      getProp(response, "supported-calendar-component-set"),
+      "comp"
+    );
+    const hasEvents =
+      components.length === 0 ||
+      components.some(({ attributes }) => attributes.name === "VEVENT");
+    if (!isCalendar || !hasEvents) return [];
+
+    const color = getProp(response, "calendar-color")?.text.trim();
+    return [
+      {
+        href: response.href,
+        name:
+          getProp(response, "displayname")?.text.trim() ||
+          response.href.split("/").filter(Boolean).pop() ||
+          response.href,
+        description:
+          getProp(response, "calendar-description")?.text.trim() || undefined,
+        // Some servers append an alpha channel: #RRGGBBAA
+        color: color ? color.slice(0, 7) : undefined,
+      },
+    ];
+  });
+}
+
+// The collection's current sync token, for the first delta after a full sync
+export async function getCaldavSyncToken(
+  account: CaldavAccount,
+  calendarHref: string
+): Promise<string | undefined> {
+  const {
+    responses: [response],
+  } = await davMultistatus(account, "PROPFIND", calendarHref, {
+    depth: "0",
+    body: `<d:propfind ${DAV_NAMESPACES}><d:prop><d:sync-token/></d:prop></d:propfind>`,
+  });
+  return response ? getProp(response, "sync-token")?.text.trim() : undefined;
+}
+
+// calendar-data that asks the server to expand recurring events into their
+// occurrences within the window
+function getCalendarDataRequest(start: Date, end: Date): string {
+  return `<d:prop><d:getetag/><c:calendar-data><c:expand start="${toCaldavTime(
+    start
+  )}" end="${toCaldavTime(end)}"/></c:calendar-data></d:prop>`;
+}
+
+function toResources(responses: DavResponse[]): CaldavResource[] {
+  return responses.flatMap((response) => {
+    const calendarData = getProp(response, "calendar-data")?.text;
+    return calendarData ? [{ href: response.href, calendarData }] : [];
+  });
+}
+
+// Every event resource overlapping the window
+export async function queryCaldavEvents(
+  account: CaldavAccount,
+  calendarHref: string,
+  start: Date,
+  end: Date
+): Promise<CaldavResource[]> {
+  const { responses } = await davMultistatus(account, "REPORT", calendarHref, {
+    depth: "1",
+    body: `<c:calendar-query ${DAV_NAMESPACES}>${getCalendarDataRequest(
+      start,
+      end
+    )}<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT"><c:time-range start="${toCaldavTime(
+      start
+    )}" end="${toCaldavTime(end)}"/></c:comp-filter></c:comp-filter></c:filter></c:calendar-query>`,
+  });
+  return toResources(responses);
+}
+
+// The given event resources, expanded over the window like a query
+export async function getCaldavEvents(
+  account: CaldavAccount,
+  calendarHref: string,
+  hrefs: string[],
+  start: Date,
+  end: Date
+): Promise<CaldavResource[]> {
+  const resources: CaldavResource[] = [];
+
+  for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH_SIZE) {
+    const batch = hrefs.slice(i, i + MULTIGET_BATCH_SIZE);
+    const { responses } = await davMultistatus(
+      account,
+      "REPORT",
+      calendarHref,
+      {
+        depth: "1",
+        body: `<c:calendar-multiget ${DAV_NAMESPACES}>${getCalendarDataRequest(
+          start,
+          end
+        )}${batch
+          .map((href) => `<d:href>${escapeXml(encodeURI(href))}</d:href>`)
+          .join("")}</c:calendar-multiget>`,
+      }
+    );
+    resources.push(...toResources(responses));
+  }
+
+  return resources;
+}
+
+// Resources changed or removed since the sync token. A token the server no
+// longer accepts fails with HTTP 410, like an expired Google sync token.
+export async function syncCaldavCollection(
+  account: CaldavAccount,
+  calendarHref: string,
+  syncToken: string
+): Promise<CaldavChanges> {
+  const body = `<d:sync-collection ${DAV_NAMESPACES}><d:sync-token>${escapeXml(
+    syncToken
+  )}</d:sync-token><d:sync-level>1</d:sync-level><d:prop><d:getetag/></d:prop></d:sync-collection>`;
+
+  let result: Awaited<ReturnType<typeof davMultistatus>>;
+  try {
+    result = await davMultistatus(account, "REPORT", calendarHref, {
+      depth: "1",
+      body,
+    });
+  } catch (error) {
+    const { code, response } = error as HttpError;
+    if (
+      (code === HTTP_FORBIDDEN || code === HTTP_CONFLICT) &&
+      String(response?.data).includes("valid-sync-token")
+    ) {
+      throw createHttpError(HTTP_GONE, "CalDAV sync token expired");
+    }
+    throw error;
+  }
+
+  // The new token sits next to the responses, outside of any of them
+  const changes: CaldavChanges = {
+    syncToken: result.document?.children
+      .find(({ name }) => name === "sync-token")
+      ?.text.trim(),
+    changed: [],
+    removed: [],
+  };
+  for (const response of result.responses) {
+    // The collection itself may be listed alongside its members
+    if (response.href === calendarHref) continue;
+    if (response.status === HTTP_NOT_FOUND) {
+      changes.removed.push(response.href);
+    } else {
+      changes.changed.push(response.href);
+    }
+  }
+
+  return changes;
+}
+
+// An event resource as stored on the server, unexpanded; null once deleted
+export async function getCaldavResource(
+  account: CaldavAccount,
+  href: string
+): Promise<string | null> {
+  const response = await davRequest(account, "GET", href);
+  if (response.status === HTTP_NOT_FOUND || response.status === HTTP_GONE) {
+    return null;
+  }
+  if (!response.ok) {
+    throw createHttpError(
+      response.status,
+      `CalDAV GET failed with HTTP ${response.status}`,
+      response.headers
+    );
+  }
+  return response.text();
+}
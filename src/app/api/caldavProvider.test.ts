@@ -0,0 +1,290 @@
+import { AddressInfo } from "net";
+import { calendar_v3 } from "googleapis";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  createFakeCaldavServer,
+  createFakeEvent,
+} from "../../../scripts/fake-caldav-server.mjs";
+import {
+  CaldavAccount,
+  connectCaldavAccount,
+  getCaldavSyncToken,
+  listCaldavCalendars,
+  syncCaldavCollection,
+} from "./caldavClient";
+import { createCaldavProvider, toStoredEvents } from "./caldavProvider";
+import { syncCalendar } from "./calendar";
+import { getSyncState, listStoredEvents } from "./eventStore";
+import { CALDAV_CALENDAR_PREFIX, stampSyncToken } from "./providers";
+
+const USERNAME = "user";
+const PASSWORD = "secret";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fake = createFakeCaldavServer({ username: USERNAME, password: PASSWORD });
+const CALENDAR_ID = `${CALDAV_CALENDAR_PREFIX}${fake.calendarHref}`;
+let serverUrl: string;
+
+function toKey(name: string): string {
+  return Buffer.from(name).toString("hex");
+}
+
+async function connect(userId: string, url = serverUrl) {
+  return connectCaldavAccount(userId, {
+    serverUrl: url,
+    username: USERNAME,
+    password: PASSWORD,
+  });
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => fake.server.listen(0, resolve));
+  const { port } = fake.server.address() as AddressInfo;
+  serverUrl = `http://127.0.0.1:${port}/`;
+});
+
+afterAll(async () => {
+  fake.server.closeAllConnections();
+  await new Promise((resolve) => fake.server.close(resolve));
+});
+
+describe("discovery", () => {
+  it("follows the principal to the calendar home", async () => {
+    const account = await connect("discovery-user");
+
+    expect(account.calendarHomeUrl).toBe(
+      new URL(`/calendars/${USERNAME}/`, serverUrl).toString()
+    );
+  });
+
+  it("falls back to the well-known address", async () => {
+    const account = await connect(
+      "well-known-user",
+      new URL("/remote.php/dav/", serverUrl).toString()
+    );
+
+    expect(account.calendarHomeUrl).toBe(
+      new URL(`/calendars/${USERNAME}/`, serverUrl).toString()
+    );
+  });
+
+  it("reports bad credentials as forbidden", async () => {
+    await expect(
+      connectCaldavAccount("bad-password-user", {
+        serverUrl,
+        username: USERNAME,
+        password: "wrong",
+      })
+    ).rejects.toMatchObject({ code: 403 });
+  });
+});
+
+describe("listCaldavCalendars", () => {
+  it("lists only collections that hold events", async () => {
+    const account = await connect("listing-user");
+
+    expect(await listCaldavCalendars(account)).toEqual([
+      {
+        href: fake.calendarHref,
+        name: "Personal",
+        description: undefined,
+        color: "#0082c9",
+      },
+    ]);
+  });
+});
+
+describe("syncCaldavCollection", () => {
+  let account: CaldavAccount;
+
+  beforeAll(async () => {
+    account = await connect("collection-user");
+  });
+
+  it("reports removed resources separately", async () => {
+    const href = `${fake.calendarHref}removed.ics`;
+    fake.putResource(href, createFakeEvent("removed@test", "Removed", 1, 1));
+    const syncToken = await getCaldavSyncToken(account, fake.calendarHref);
+    fake.deleteResource(href);
+
+    const changes = await syncCaldavCollection(
+      account,
+      fake.calendarHref,
+      syncToken!
+    );
+
+    expect(changes.removed).toEqual([href]);
+    expect(changes.changed).toEqual([]);
+  });
+
+  it.each([403, 409])(
+    "maps an expired token answered with %i to 410",
+    async (status) => {
+      const syncToken = await getCaldavSyncToken(account, fake.calendarHref);
+      fake.putResource(
+        `${fake.calendarHref}expiry-${status}.ics`,
+        createFakeEvent(`expiry-${status}@test`, "Expiry", 1, 1)
+      );
+      fake.expireSyncTokens(status);
+
+      await expect(
+        syncCaldavCollection(account, fake.calendarHref, syncToken!)
+      ).rejects.toMatchObject({ code: 410 });
+    }
+  );
+});
+
+describe("toStoredEvents", () => {
+  it("keys a single event by its file name", () => {
+    const [event] = toStoredEvents({
+      href: `${fake.calendarHref}lunch.ics`,
+      calendarData: createFakeEvent("lunch@test", "Lunch", 1, 1),
+    });
+
+    expect(event).toMatchObject({
+      id: toKey("lunch.ics"),
+      iCalUID: "lunch@test",
+      summary: "Lunch",
+    });
+  });
+
+  it("keys expanded occurrences by file name and original start", () => {
+    const calendarData = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "BEGIN:VEVENT",
+      "UID:weekly@test",
+      "RECURRENCE-ID:20250714T090000Z",
+      "DTSTART:20250714T090000Z",
+      "DTEND:20250714T093000Z",
+      "SUMMARY:Weekly",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:weekly@test",
+      "RECURRENCE-ID:20250721T090000Z",
+      "DTSTART:20250721T100000Z",
+      "DTEND:20250721T103000Z",
+      "SUMMARY:Weekly",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:holiday@test",
+      "RECURRENCE-ID;VALUE=DATE:20251225",
+      "DTSTART;VALUE=DATE:20251225",
+      "DTEND;VALUE=DATE:20251226",
+      "SUMMARY:Holiday",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ].join("\r\n");
+    const key = toKey("weekly.ics");
+
+    const events = toStoredEvents({
+      href: `${fake.calendarHref}weekly.ics`,
+      calendarData,
+    });
+
+    expect(events.map(({ id }) => id)).toEqual([
+      `${key}_20250714T090000Z`,
+      `${key}_20250721T090000Z`,
+      `${key}_20251225`,
+    ]);
+    expect(events[1]).toMatchObject({
+      iCalUID: "weekly@test",
+      recurringEventId: key,
+      start: { dateTime: "2025-07-21T10:00:00.000Z" },
+    });
+  });
+});
+
+describe("syncEvents", () => {
+  const calendar = {} as calendar_v3.Calendar;
+  const summaries = (userId: string) =>
+    listStoredEvents(userId, [CALENDAR_ID])
+      .map(({ summary }) => summary)
+      .sort();
+
+  beforeEach(() => {
+    fake.putResource(
+      `${fake.calendarHref}standup.ics`,
+      createFakeEvent("standup@test", "Standup", 2, 1)
+    );
+    fake.putResource(
+      `${fake.calendarHref}review.ics`,
+      createFakeEvent("review@test", "Design review", 26, 2)
+    );
+  });
+
+  it("loads every event on a full sync, then only changes", async () => {
+    const userId = "delta-user";
+    await connect(userId);
+
+    await syncCalendar(calendar, userId, CALENDAR_ID, { force: true });
+    expect(summaries(userId)).toContain("Standup");
+    expect(getSyncState(userId, CALENDAR_ID).syncToken).toBeTruthy();
+
+    fake.putResource(
+      `${fake.calendarHref}standup.ics`,
+      createFakeEvent("standup@test", "Standup (moved)", 3, 1)
+    );
+    fake.deleteResource(`${fake.calendarHref}review.ics`);
+    fake.putResource(
+      `${fake.calendarHref}retro.ics`,
+      createFakeEvent("retro@test", "Retro", 30, 1)
+    );
+    await syncCalendar(calendar, userId, CALENDAR_ID, { force: true });
+
+    const current = summaries(userId);
+    expect(current).toContain("Standup (moved)");
+    expect(current).toContain("Retro");
+    expect(current).not.toContain("Standup");
+    expect(current).not.toContain("Design review");
+  });
+
+  it("rebuilds the cache when the sync token expires", async () => {
+    const userId = "expired-token-user";
+    await connect(userId);
+    await syncCalendar(calendar, userId, CALENDAR_ID, { force: true });
+
+    fake.deleteResource(`${fake.calendarHref}review.ics`);
+    fake.expireSyncTokens();
+    await syncCalendar(calendar, userId, CALENDAR_ID, { force: true });
+
+    expect(summaries(userId)).toContain("Standup");
+    expect(summaries(userId)).not.toContain("Design review");
+  });
+
+  it("expires tokens whose window is over a day old", async () => {
+    const userId = "stale-window-user";
+    await connect(userId);
+    const provider = createCaldavProvider(userId);
+
+    await expect(
+      provider.syncEvents(
+        CALENDAR_ID,
+        stampSyncToken("http://fake-caldav/sync/0", Date.now() - 2 * DAY_MS)!
+      )
+    ).rejects.toMatchObject({ code: 410 });
+  });
+
+  it("reports a password the server stops accepting as forbidden", async () => {
+    const userId = "changed-password-user";
+    await connect(userId);
+    const handlers = fake.server.listeners("request");
+    fake.server.removeAllListeners("request");
+    fake.server.on("request", (_req, res) => {
+      res.writeHead(401);
+      res.end();
+    });
+
+    try {
+      await expect(
+        createCaldavProvider(userId).syncEvents(CALENDAR_ID)
+      ).rejects.toMatchObject({ code: 403 });
+    } finally {
+      fake.server.removeAllListeners("request");
+      for (const handler of handlers) {
+        fake.server.on("request", handler as () => void);
+      }
+    }
+  });
+});
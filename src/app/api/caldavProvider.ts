@@ -0,0 +1,225 @@
+import { CalendarSummary, EventTimeInput } from "./calendar";
+import {
+  CaldavAccount,
+  CaldavResource,
+  getCaldavAccount,
+  getCaldavEvents,
+  getCaldavResource,
+  getCaldavSyncToken,
+  listCaldavCalendars,
+  queryCaldavEvents,
+  syncCaldavCollection,
+} from "./caldavClient";
+import { StoredEvent, listStoredEvents } from "./eventStore";
+import { withRateLimit } from "./googleClient";
+import { parseCalendar } from "./ics";
+import {
+  CALDAV_CALENDAR_PREFIX,
+  CalendarProvider,
+  readSyncToken,
+  stampSyncToken,
+} from "./providers";
+import { createHttpError } from "./utils";
+import { DEFAULT_TIME_ZONE } from "@/lib/timeZones";
+
+// Self-hosted calendars (Nextcloud, Radicale, ...) over CalDAV, read-only.
+// Servers expand recurring events into occurrences, which are cached the way
+// Google's singleEvents are: a resource's events share an id prefix, so all
+// of them can be replaced when the resource changes.
+
+// Constants
+// Occurrences are expanded within a window around the last full sync
+const SYNC_DAYS_BACK = 365;
+const SYNC_DAYS_AHEAD = 730;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_COLOR = "#0082c9";
+const HTTP_FORBIDDEN = 403;
+
+// Helper functions
+function toCalendarHref(calendarId: string): string {
+  return calendarId.slice(CALDAV_CALENDAR_PREFIX.length);
+}
+
+function getSyncWindow(windowAt: number): { start: Date; end: Date } {
+  return {
+    start: new Date(windowAt - SYNC_DAYS_BACK * DAY_MS),
+    end: new Date(windowAt + SYNC_DAYS_AHEAD * DAY_MS),
+  };
+}
+
+// Event ids are derived from the resource's file name, hex-encoded so they
+// stay safe in URLs and free of the "_" that separates occurrence stamps
+function getResourceKey(href: string): string {
+  const name = href.split("/").filter(Boolean).pop() || href;
+  return Buffer.from(name).toString("hex");
+}
+
+function getResourceHref(calendarHref: string, key: string): string {
+  return `${calendarHref}${Buffer.from(key, "hex").toString()}`;
+}
+
+// Google-style occurrence suffix: 20250714T090000Z, or 20250714 for all-day
+function getOccurrenceStamp(time: EventTimeInput): string {
+  if (time.date) return time.date.replace(/-/g, "");
+  return new Date(time.dateTime!)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// The events of one resource: a single event, or the occurrences of a series
+// the server expanded. Servers that ignore the expansion hand back the series
+// itself, which then shows at its first occurrence only.
+export function toStoredEvents(resource: CaldavResource): StoredEvent[] {
+  const key = getResourceKey(resource.href);
+  const { events } = parseCalendar(resource.calendarData, {
+    timeZone: DEFAULT_TIME_ZONE,
+  });
+
+  return events.map((event) => {
+    const occurrence = event.recurrenceOf;
+    return {
+      id: occurrence
+        ? `${key}_${getOccurrenceStamp(occurrence.originalStart)}`
+        : key,
+      iCalUID: occurrence ? occurrence.iCalUID : event.iCalUID,
+      status: event.status,
+      summary: event.summary || undefined,
+      description: event.description,
+      location: event.location,
+      start: event.start,
+      end: event.end,
+      recurrence: event.recurrence,
+      recurringEventId: occurrence ? key : undefined,
+      originalStartTime: occurrence?.originalStart,
+    };
+  });
+}
+
+// Cancellations for the cached events of the given resources, so their
+// current events replace them wholesale
+function cancelCachedEvents(
+  userId: string,
+  calendarId: string,
+  shouldCancel: (id: string) => boolean
+): StoredEvent[] {
+  return listStoredEvents(userId, [calendarId]).flatMap(({ id }) =>
+    id && shouldCancel(id) ? [{ id, status: "cancelled" }] : []
+  );
+}
+
+function getKeyOfEventId(id: string): string {
+  return id.split("_")[0];
+}
+
+export function createCaldavProvider(userId: string): CalendarProvider {
+  // Accounts are read per call, so the provider can be created before
+  // knowing whether the account is still connected
+  const withAccount = <T>(
+    call: (account: CaldavAccount) => Promise<T>
+  ): Promise<T> =>
+    withRateLimit(`caldav:${userId}`, async () => {
+      const account = await getCaldavAccount(userId);
+      if (!account) {
+        throw createHttpError(HTTP_FORBIDDEN, "CalDAV is not connected");
+      }
+      return call(account);
+    });
+
+  return {
+    id: "caldav",
+
+    listCalendars: () =>
+      withAccount(async (account) => {
+        const calendars = await listCaldavCalendars(account);
+        return calendars.map((entry): CalendarSummary => ({
+          id: `${CALDAV_CALENDAR_PREFIX}${entry.href}`,
+          summary: entry.name,
+          description: entry.description,
+          backgroundColor: entry.color || DEFAULT_COLOR,
+          foregroundColor: "#ffffff",
+          primary: false,
+          selected: false,
+          accessRole: "reader",
+          provider: "caldav",
+        }));
+      }),
+
+    // A full sync queries the window; later syncs ask for the resources that
+    // changed since the collection's sync token and fetch only those. Series
+    // that did not change are not expanded again, so the token keeps the
+    // window and expires with it.
+    syncEvents: (calendarId, syncToken) =>
+      withAccount(async (account) => {
+        const calendarHref = toCalendarHref(calendarId);
+        const stamped = syncToken ? readSyncToken(syncToken) : null;
+        const windowAt = stamped?.windowAt ?? Date.now();
+        const { start, end } = getSyncWindow(windowAt);
+
+        if (!stamped) {
+          // Read the token first, so changes made during the query are
+          // picked up by the next delta
+          const nextSyncToken = await getCaldavSyncToken(account, calendarHref);
+          const events = (
+            await queryCaldavEvents(account, calendarHref, start, end)
+          ).flatMap(toStoredEvents);
+          const ids = new Set(events.map(({ id }) => id));
+
+          // Without sync tokens every sync is a full one, which must also
+          // drop what was deleted in between
+          return {
+            events: [
+              ...cancelCachedEvents(userId, calendarId, (id) => !ids.has(id)),
+              ...events,
+            ],
+            syncToken: stampSyncToken(nextSyncToken, windowAt),
+          };
+        }
+
+        const changes = await syncCaldavCollection(
+          account,
+          calendarHref,
+          stamped.syncToken
+        );
+        const keys = new Set(
+          [...changes.changed, ...changes.removed].map(getResourceKey)
+        );
+        const resources = changes.changed.length
+          ? await getCaldavEvents(
+              account,
+              calendarHref,
+              changes.changed,
+              start,
+              end
+            )
+          : [];
+
+        return {
+          events: [
+            ...cancelCachedEvents(userId, calendarId, (id) =>
+              keys.has(getKeyOfEventId(id))
+            ),
+            ...resources.flatMap(toStoredEvents),
+          ],
+          syncToken: stampSyncToken(changes.syncToken, windowAt),
+        };
+      }),
+
+    // Series are read unexpanded, for their recurrence rules
+    getSeries: (calendarId, seriesIds) =>
+      withAccount((account) =>
+        Promise.all(
+          seriesIds.map(async (key) => {
+            const href = getResourceHref(toCalendarHref(calendarId), key);
+            const calendarData = await getCaldavResource(account, href);
+            const series = calendarData
+              ? toStoredEvents({ href, calendarData }).find(
+                  (event) => event.id === key
+                )
+              : undefined;
+            return series ?? { id: key, status: "cancelled" };
+          })
+        )
+      ),
+  };
+}
@@ -0,0 +1,806 @@
+import { calendar_v3 } from "googleapis";
+import {
+  EventMatcher,
+  SourcedEvent,
+  applyLocalChange,
+  applySeries,
+  applySyncResult,
+  getMissingSeriesIds,
+  getSeriesIds,
+  getSyncState,
+  listStoredEvents,
+  markCalendarStale,
+  resetCalendar,
+  searchStoredEvents,
+} from "./eventStore";
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedDayStart,
+  isCalendarDay,
+  isValidTimeZone,
+} from "@/lib/timeZones";
+import {
+  RecurrenceScope,
+  getUntilBefore,
+  parseRecurrenceRule,
+  updateRecurrenceRule,
+} from "@/lib/recurrence";
+import { RsvpResponse, getSelfAttendee, needsResponse } from "@/lib/rsvp";
+import {
+  CalendarProvider,
+  ProviderId,
+  getCalendarProvider,
+  getConnectedProviders,
+  PROVIDER_NAMES,
+  getProviderId,
+} from "./providers";
+
+// Constants
+export const DEFAULT_CALENDAR_ID = "primary";
+const SYNC_PAGE_SIZE = 250;
+const MIN_SYNC_INTERVAL = 10 * 1000; // Skip delta syncs more frequent than this
+const HTTP_GONE = 410;
+export const MAX_CALENDARS = 25;
+const SERIES_BATCH_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Fields a series carries over when "this and following" splits it in two
+const SERIES_FIELDS = [
+  "summary",
+  "description",
+  "location",
+  "colorId",
+  "transparency",
+  "visibility",
+  "attendees",
+  "reminders",
+  "guestsCanInviteOthers",
+  "guestsCanModify",
+  "guestsCanSeeOtherGuests",
+] as const;
+
+// Types
+export type CalendarEvent = SourcedEvent;
+
+export interface CalendarSummary {
+  id: string;
+  summary: string;
+  description?: string;
+  backgroundColor?: string;
+  foregroundColor?: string;
+  primary: boolean;
+  selected: boolean;
+  accessRole?: string;
+  provider: ProviderId;
+}
+
+// Calendar days ("2025-07-14", both inclusive) interpreted in timeZone
+export interface DateFilter {
+  startDate?: string;
+  endDate?: string;
+  timeZone?: string;
+}
+
+export interface EventFilter extends DateFilter {
+  // Only invitations the signed-in user hasn't answered
+  needsResponse?: boolean;
+  // Keywords and field filters, see lib/search
+  q?: string;
+}
+
+export interface SyncOptions {
+  force?: boolean;
+  // Zone Google uses for times in the response; defaults to the calendar's
+  timeZone?: string;
+}
+
+export interface EventTimeInput {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+export interface EventInput {
+  summary: string;
+  description?: string;
+  location?: string;
+  start: EventTimeInput;
+  end: EventTimeInput;
+}
+
+// An event from another calendar system, keyed by its iCalendar UID
+export interface ImportEventInput extends EventInput {
+  iCalUID: string;
+  recurrence?: string[];
+  status?: string;
+}
+
+export interface PageOptions {
+  pageToken?: string;
+  limit: number;
+}
+
+export interface EventsPage {
+  items: CalendarEvent[];
+  nextPageToken?: string | null;
+}
+
+// Sync requests currently in flight, so concurrent callers share one sync
+const inFlightSyncs = new Map<string, Promise<void>>();
+
+// Parse a comma-separated calendarIds query parameter, defaulting to primary
+export function parseCalendarIds(value: string | null): string[] {
+  const ids = (value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const unique = [...new Set(ids)].slice(0, MAX_CALENDARS);
+  return unique.length > 0 ? unique : [DEFAULT_CALENDAR_ID];
+}
+
+// List the calendars of every connected provider. Google's come first, with
+// the primary calendar on top; a provider that fails is left out.
+export async function listCalendars(
+  calendar: calendar_v3.Calendar,
+  userId: string
+): Promise<CalendarSummary[]> {
+  const providers = await getConnectedProviders(calendar, userId);
+  const results = await Promise.allSettled(
+    providers.map((provider) => provider.listCalendars())
+  );
+
+  return results.flatMap((result, index) => {
+    if (result.status === "fulfilled") {
+      return result.value.sort(
+        (a, b) =>
+          Number(b.primary) - Number(a.primary) ||
+          a.summary.localeCompare(b.summary)
+      );
+    }
+    // Google's list is required; the others only add to it
+    if (providers[index].id === "google") throw result.reason;
+    console.warn(
+      `Unable to list ${providers[index].id} calendars:`,
+      result.reason
+    );
+    return [];
+  });
+}
+
+// Write routes only go to Google; returns an error message for calendars of
+// other providers
+export function validateWritableCalendar(calendarId: string): string | null {
+  const provider = getProviderId(calendarId);
+  return provider === "google"
+    ? null
+    : `${PROVIDER_NAMES[provider]} calendars are read-only in this app`;
+}
+
+// Sync several calendars in parallel
+export async function syncCalendars(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarIds: string[],
+  options: SyncOptions = {}
+): Promise<void> {
+  await Promise.all(
+    calendarIds.map((calendarId) =>
+      syncCalendar(calendar, userId, calendarId, options)
+    )
+  );
+}
+
+// Sync helpers
+async function runSync(
+  provider: CalendarProvider,
+  userId: string,
+  calendarId: string,
+  syncToken?: string,
+  timeZone?: string
+): Promise<void> {
+  const { events, syncToken: nextSyncToken } = await provider.syncEvents(
+    calendarId,
+    syncToken,
+    { timeZone }
+  );
+  applySyncResult(userId, calendarId, events, nextSyncToken);
+
+  // Occurrences that changed may belong to a series whose rules changed too
+  await syncSeries(provider, userId, calendarId, [
+    ...new Set([
+      ...getSeriesIds(events),
+      ...getMissingSeriesIds(userId, calendarId),
+    ]),
+  ]);
+}
+
+// Fetch the parent events of recurring series for their recurrence rules
+async function syncSeries(
+  provider: CalendarProvider,
+  userId: string,
+  calendarId: string,
+  seriesIds: string[]
+): Promise<void> {
+  if (!provider.getSeries) return;
+
+  for (let i = 0; i < seriesIds.length; i += SERIES_BATCH_SIZE) {
+    const parents = await provider.getSeries(
+      calendarId,
+      seriesIds.slice(i, i + SERIES_BATCH_SIZE)
+    );
+    applySeries(userId, calendarId, parents);
+  }
+}
+
+async function syncWithReset(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  timeZone?: string
+): Promise<void> {
+  const provider = getCalendarProvider(calendar, userId, calendarId);
+  const { syncToken } = getSyncState(userId, calendarId);
+
+  try {
+    await runSync(provider, userId, calendarId, syncToken, timeZone);
+  } catch (error) {
+    // An expired sync token means the cache must be rebuilt from scratch
+    if (syncToken && (error as { code?: number })?.code === HTTP_GONE) {
+      resetCalendar(userId, calendarId);
+      await runSync(provider, userId, calendarId, undefined, timeZone);
+      return;
+    }
+    throw error;
+  }
+}
+
+// Bring the cached events for a calendar up to date. The first call performs
+// a full sync, later calls only fetch the delta since the stored sync token.
+export async function syncCalendar(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  options: SyncOptions = {}
+): Promise<void> {
+  const { lastSyncedAt } = getSyncState(userId, calendarId);
+  if (!options.force && Date.now() - lastSyncedAt < MIN_SYNC_INTERVAL) {
+    return;
+  }
+
+  const key = `${userId}:${calendarId}`;
+  const pending = inFlightSyncs.get(key);
+  if (pending) return pending;
+
+  const sync = syncWithReset(
+    calendar,
+    userId,
+    calendarId,
+    options.timeZone
+  ).finally(() => {
+    inFlightSyncs.delete(key);
+  });
+  inFlightSyncs.set(key, sync);
+
+  return sync;
+}
+
+// Query helpers
+// Read startDate, endDate and timeZone from the query string
+export function parseDateFilter(searchParams: URLSearchParams): DateFilter {
+  const dateFilter: DateFilter = {};
+  const startDate = searchParams.get("startDate");
+  const endDate = searchParams.get("endDate");
+  const timeZone = searchParams.get("timeZone");
+
+  if (startDate) dateFilter.startDate = startDate;
+  if (endDate) dateFilter.endDate = endDate;
+  if (timeZone) dateFilter.timeZone = timeZone;
+  return dateFilter;
+}
+
+// The date filter plus the needsResponse flag and search query
+export function parseEventFilter(searchParams: URLSearchParams): EventFilter {
+  return {
+    ...parseDateFilter(searchParams),
+    needsResponse: searchParams.get("needsResponse") === "true",
+    q: searchParams.get("q")?.trim() || undefined,
+  };
+}
+
+// Validate a parsed date filter; returns an error message when invalid
+export function validateDateFilter(dateFilter: DateFilter): string | null {
+  const { startDate, endDate } = dateFilter;
+  if (
+    (startDate && !isCalendarDay(startDate)) ||
+    (endDate && !isCalendarDay(endDate))
+  ) {
+    return "Dates must be formatted as YYYY-MM-DD";
+  }
+  if (dateFilter.timeZone && !isValidTimeZone(dateFilter.timeZone)) {
+    return "Invalid timeZone";
+  }
+  return null;
+}
+
+// All-day events carry a bare date with no zone, so they start at midnight in
+// whichever zone the caller is viewing from
+function getEventTime(
+  time: calendar_v3.Schema$EventDateTime | undefined,
+  timeZone: string
+): number {
+  if (time?.dateTime) return new Date(time.dateTime).getTime();
+  if (time?.date) return getZonedDayStart(time.date, timeZone);
+  return 0;
+}
+
+function encodePageToken(offset: number): string {
+  return Buffer.from(String(offset)).toString("base64url");
+}
+
+function decodePageToken(pageToken?: string): number {
+  if (!pageToken) return 0;
+  const offset = parseInt(Buffer.from(pageToken, "base64url").toString(), 10);
+  return Number.isNaN(offset) || offset < 0 ? 0 : offset;
+}
+
+// Read one page of cached events overlapping the date filter, merged across
+// calendars in start order. A search narrows them through the local index.
+export function getCalendarEvents(
+  userId: string,
+  calendarIds: string[],
+  dateFilter: EventFilter,
+  page: PageOptions,
+  matches?: EventMatcher | null
+): EventsPage {
+  const timeZone = dateFilter.timeZone || DEFAULT_TIME_ZONE;
+
+  // The range runs from midnight on the start day up to midnight after the
+  // end day, both in the requested zone
+  const timeMin = dateFilter.startDate
+    ? getZonedDayStart(dateFilter.startDate, timeZone)
+    : -Infinity;
+  const timeMax = dateFilter.endDate
+    ? getZonedDayStart(dateFilter.endDate, timeZone, 1)
+    : Infinity;
+
+  const candidates = matches
+    ? searchStoredEvents(userId, calendarIds, matches)
+    : listStoredEvents(userId, calendarIds);
+  const events = candidates
+    .filter(
+      (event) =>
+        getEventTime(event.end, timeZone) > timeMin &&
+        getEventTime(event.start, timeZone) < timeMax &&
+        (!dateFilter.needsResponse || needsResponse(event))
+    )
+    .sort(
+      (a, b) =>
+        getEventTime(a.start, timeZone) - getEventTime(b.start, timeZone)
+    );
+
+  const offset = decodePageToken(page.pageToken);
+  const nextOffset = offset + page.limit;
+
+  return {
+    items: events.slice(offset, nextOffset),
+    nextPageToken:
+      nextOffset < events.length ? encodePageToken(nextOffset) : null,
+  };
+}
+
+// Write helpers
+
+function isValidEventTime(time: unknown): time is EventTimeInput {
+  if (!time || typeof time !== "object") return false;
+  const { dateTime, date } = time as EventTimeInput;
+  const value = dateTime ?? date;
+  return typeof value === "string" && !Number.isNaN(Date.parse(value));
+}
+
+// Validate a create or patch body; returns an error message when invalid
+export function validateEventInput(
+  input: unknown,
+  options: { partial?: boolean } = {}
+): string | null {
+  if (!input || typeof input !== "object") return "Event details are required";
+
+  const event = input as Partial<EventInput>;
+  const requireField = (field: keyof EventInput) =>
+    !options.partial || event[field] !== undefined;
+
+  if (requireField("summary") && !event.summary?.trim()) {
+    return "Event title is required";
+  }
+  if (requireField("start") && !isValidEventTime(event.start)) {
+    return "A valid event start is required";
+  }
+  if (requireField("end") && !isValidEventTime(event.end)) {
+    return "A valid event end is required";
+  }
+  if (
+    isValidEventTime(event.start) &&
+    isValidEventTime(event.end) &&
+    getEventTime(event.end, DEFAULT_TIME_ZONE) <
+      getEventTime(event.start, DEFAULT_TIME_ZONE)
+  ) {
+    return "Event end must not be before its start";
+  }
+
+  return null;
+}
+
+// Only forward the fields this app edits to Google
+function toRequestBody(input: Partial<EventInput>): calendar_v3.Schema$Event {
+  const body: calendar_v3.Schema$Event = {};
+  if (input.summary !== undefined) body.summary = input.summary.trim();
+  if (input.description !== undefined) body.description = input.description;
+  if (input.location !== undefined) body.location = input.location;
+  if (input.start) body.start = input.start;
+  if (input.end) body.end = input.end;
+  return body;
+}
+
+export async function createEvent(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  input: EventInput
+): Promise<CalendarEvent> {
+  const { data } = await calendar.events.insert({
+    calendarId,
+    requestBody: toRequestBody(input),
+  });
+
+  applyLocalChange(userId, calendarId, data);
+  return { ...data, calendarId };
+}
+
+// Copy an event in with its original iCalUID, so re-importing it updates the
+// same event instead of creating another
+export async function importEvent(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  input: ImportEventInput
+): Promise<CalendarEvent> {
+  const { data } = await calendar.events.import({
+    calendarId,
+    requestBody: {
+      ...toRequestBody(input),
+      iCalUID: input.iCalUID,
+      recurrence: input.recurrence,
+      status: input.status,
+    },
+  });
+
+  // The cache holds single occurrences, so let the next sync expand a series
+  if (input.recurrence?.length) {
+    markCalendarStale(userId, calendarId);
+  } else {
+    applyLocalChange(userId, calendarId, data);
+  }
+  return { ...data, calendarId };
+}
+
+// Series helpers
+interface SeriesContext {
+  occurrence: calendar_v3.Schema$Event;
+  parent: calendar_v3.Schema$Event;
+  // Whether the occurrence is the first of its series, so "this and
+  // following" covers the whole series
+  isFirst: boolean;
+}
+
+function isSameTime(
+  a?: calendar_v3.Schema$EventDateTime,
+  b?: calendar_v3.Schema$EventDateTime
+): boolean {
+  if (a?.dateTime && b?.dateTime) {
+    return Date.parse(a.dateTime) === Date.parse(b.dateTime);
+  }
+  return !!a?.date && a.date === b?.date;
+}
+
+function shiftDay(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function getDayDifference(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+// Look up the series an occurrence belongs to; null for one-off events
+async function getSeriesContext(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string
+): Promise<SeriesContext | null> {
+  const { data: occurrence } = await calendar.events.get({
+    calendarId,
+    eventId,
+  });
+  if (!occurrence.recurringEventId) return null;
+
+  const { data: parent } = await calendar.events.get({
+    calendarId,
+    eventId: occurrence.recurringEventId,
+  });
+  return {
+    occurrence,
+    parent,
+    isFirst: isSameTime(
+      occurrence.originalStartTime ?? occurrence.start,
+      parent.start
+    ),
+  };
+}
+
+// Move a whole series by as much as the edited occurrence moved. Switching
+// between all-day and timed has no such offset, so the series then restarts
+// at the edited occurrence.
+function shiftSeriesTimes(
+  { occurrence, parent }: SeriesContext,
+  input: Partial<EventInput>
+): calendar_v3.Schema$Event {
+  if (!input.start && !input.end) return {};
+
+  const start = input.start ?? occurrence.start!;
+  const end = input.end ?? occurrence.end!;
+  const from = occurrence.start;
+
+  if (
+    start.dateTime &&
+    end.dateTime &&
+    from?.dateTime &&
+    parent.start?.dateTime
+  ) {
+    const offset = Date.parse(start.dateTime) - Date.parse(from.dateTime);
+    const length = Date.parse(end.dateTime) - Date.parse(start.dateTime);
+    const parentStart = Date.parse(parent.start.dateTime) + offset;
+    // Resending unchanged times would move the series to the editor's zone
+    if (
+      offset === 0 &&
+      occurrence.end?.dateTime &&
+      length === Date.parse(occurrence.end.dateTime) - Date.parse(from.dateTime)
+    ) {
+      return {};
+    }
+    return {
+      start: {
+        dateTime: new Date(parentStart).toISOString(),
+        timeZone: start.timeZone ?? parent.start.timeZone,
+      },
+      end: {
+        dateTime: new Date(parentStart + length).toISOString(),
+        timeZone: end.timeZone ?? parent.end?.timeZone,
+      },
+    };
+  }
+
+  if (start.date && end.date && from?.date && parent.start?.date) {
+    const parentStart = shiftDay(
+      parent.start.date,
+      getDayDifference(from.date, start.date)
+    );
+    return {
+      start: { date: parentStart },
+      end: {
+        date: shiftDay(parentStart, getDayDifference(start.date, end.date)),
+      },
+    };
+  }
+
+  return { start, end };
+}
+
+// Occurrences of a series before the given one, to carry a COUNT over when
+// the series is split
+async function countEarlierOccurrences(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  seriesId: string,
+  before: calendar_v3.Schema$EventDateTime
+): Promise<number> {
+  const timeMax = before.dateTime ?? `${before.date}T00:00:00Z`;
+  let count = 0;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await calendar.events.instances({
+      calendarId,
+      eventId: seriesId,
+      timeMax,
+      showDeleted: true,
+      maxResults: SYNC_PAGE_SIZE,
+      pageToken,
+    });
+    count += response.data.items?.length ?? 0;
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return count;
+}
+
+// End a series just before the given occurrence
+async function endSeriesBefore(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  { occurrence, parent }: SeriesContext
+): Promise<void> {
+  await calendar.events.patch({
+    calendarId,
+    eventId: parent.id!,
+    requestBody: {
+      recurrence: updateRecurrenceRule(parent.recurrence ?? [], {
+        COUNT: null,
+        UNTIL: getUntilBefore(
+          occurrence.originalStartTime ?? occurrence.start!
+        ),
+      }),
+    },
+  });
+}
+
+// "This and following": end the series before the occurrence and start a new
+// one there with the changes applied
+async function splitSeries(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  context: SeriesContext,
+  input: Partial<EventInput>
+): Promise<calendar_v3.Schema$Event> {
+  const { occurrence, parent } = context;
+  const originalStart = occurrence.originalStartTime ?? occurrence.start!;
+
+  let recurrence = parent.recurrence ?? [];
+  const count = Number(parseRecurrenceRule(recurrence)?.COUNT);
+  if (count) {
+    const earlier = await countEarlierOccurrences(
+      calendar,
+      calendarId,
+      parent.id!,
+      originalStart
+    );
+    recurrence = updateRecurrenceRule(recurrence, {
+      COUNT: String(Math.max(count - earlier, 1)),
+    });
+  }
+
+  await endSeriesBefore(calendar, calendarId, context);
+
+  const requestBody: calendar_v3.Schema$Event = {
+    start: occurrence.start,
+    end: occurrence.end,
+    ...toRequestBody(input),
+    recurrence,
+  };
+  for (const field of SERIES_FIELDS) {
+    if (parent[field] !== undefined && requestBody[field] === undefined) {
+      (requestBody as Record<string, unknown>)[field] = parent[field];
+    }
+  }
+  // Google expands recurring timed events in a named zone
+  if (requestBody.start?.dateTime && !requestBody.start.timeZone) {
+    requestBody.start = {
+      ...requestBody.start,
+      timeZone: parent.start?.timeZone,
+    };
+  }
+  if (requestBody.end?.dateTime && !requestBody.end.timeZone) {
+    requestBody.end = { ...requestBody.end, timeZone: parent.end?.timeZone };
+  }
+
+  const { data } = await calendar.events.insert({ calendarId, requestBody });
+  return data;
+}
+
+export async function updateEvent(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  eventId: string,
+  input: Partial<EventInput>,
+  scope: RecurrenceScope = "this"
+): Promise<CalendarEvent> {
+  const series =
+    scope === "this"
+      ? null
+      : await getSeriesContext(calendar, calendarId, eventId);
+
+  if (series) {
+    let data: calendar_v3.Schema$Event;
+    if (scope === "all" || series.isFirst) {
+      // Times come from the series' own start, moved like the occurrence
+      ({ data } = await calendar.events.patch({
+        calendarId,
+        eventId: series.parent.id!,
+        requestBody: {
+          ...toRequestBody({ ...input, start: undefined, end: undefined }),
+          ...shiftSeriesTimes(series, input),
+        },
+      }));
+    } else {
+      data = await splitSeries(calendar, calendarId, series, input);
+    }
+
+    // Every occurrence may have changed, so let the next sync fetch them
+    markCalendarStale(userId, calendarId);
+    return { ...data, calendarId };
+  }
+
+  const { data } = await calendar.events.patch({
+    calendarId,
+    eventId,
+    requestBody: toRequestBody(input),
+  });
+
+  applyLocalChange(userId, calendarId, data);
+  return { ...data, calendarId };
+}
+
+// Answer an invitation as the signed-in user. Google only takes the whole
+// guest list, so the others are sent back as they were. Returns null when
+// the user isn't a guest of the event.
+export async function respondToEvent(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  eventId: string,
+  response: RsvpResponse,
+  comment?: string
+): Promise<CalendarEvent | null> {
+  const { data: event } = await calendar.events.get({ calendarId, eventId });
+  if (!getSelfAttendee(event)) return null;
+
+  const { data } = await calendar.events.patch({
+    calendarId,
+    eventId,
+    requestBody: {
+      attendees: event.attendees!.map((attendee) =>
+        attendee.self
+          ? {
+              ...attendee,
+              responseStatus: response,
+              // An empty comment clears the previous one
+              ...(comment !== undefined && { comment: comment.trim() }),
+            }
+          : attendee
+      ),
+    },
+  });
+
+  applyLocalChange(userId, calendarId, data);
+  return { ...data, calendarId };
+}
+
+export async function deleteEvent(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  eventId: string,
+  scope: RecurrenceScope = "this"
+): Promise<void> {
+  const series =
+    scope === "this"
+      ? null
+      : await getSeriesContext(calendar, calendarId, eventId);
+
+  if (series) {
+    if (scope === "all" || series.isFirst) {
+      await calendar.events.delete({
+        calendarId,
+        eventId: series.parent.id!,
+      });
+    } else {
+      await endSeriesBefore(calendar, calendarId, series);
+    }
+
+    markCalendarStale(userId, calendarId);
+    return;
+  }
+
+  await calendar.events.delete({ calendarId, eventId });
+  applyLocalChange(userId, calendarId, { id: eventId, status: "cancelled" });
+}
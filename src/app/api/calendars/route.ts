@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import {
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../utils";
+import { listCalendars } from "../calendar";
+import { getSessionContext } from "../session";
+
+// Lists the calendars of every provider the user has connected
+export async function GET(req: NextRequest) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const calendars = await listCalendars(calendar, userId);
+
+    return createSuccessResponse(calendars);
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to fetch calendars");
+  }
+}
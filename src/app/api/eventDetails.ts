@@ -0,0 +1,207 @@
+import { calendar_v3 } from "googleapis";
+import { CalendarEvent } from "./calendar";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
+
+// The event shape the API returns. Google's schema marks every field as
+// optional and nullable; this keeps the fields the app shows, with nulls
+// dropped and conference data reduced to what a join button needs.
+
+// Types
+export type ResponseStatus =
+  "needsAction" | "declined" | "tentative" | "accepted";
+
+export interface EventDateTime {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+export interface EventPerson {
+  email?: string;
+  displayName?: string;
+  // The signed-in user
+  self?: boolean;
+}
+
+export interface EventAttendee extends EventPerson {
+  responseStatus: ResponseStatus;
+  optional?: boolean;
+  organizer?: boolean;
+  // Rooms and other resources
+  resource?: boolean;
+  comment?: string;
+}
+
+export interface EventEntryPoint {
+  type: string;
+  uri: string;
+  label?: string;
+}
+
+export interface EventConference {
+  name?: string;
+  iconUri?: string;
+  // First video entry point, or the Hangouts link of older events
+  joinUrl?: string;
+  entryPoints: EventEntryPoint[];
+}
+
+export interface EventAttachment {
+  title: string;
+  fileUrl: string;
+  mimeType?: string;
+  iconLink?: string;
+}
+
+export interface EventReminders {
+  // The calendar's default reminders apply
+  useDefault: boolean;
+  overrides: { method: string; minutes: number }[];
+}
+
+export interface ApiEvent {
+  id: string;
+  calendarId: string;
+  status?: string;
+  summary?: string;
+  // As stored by Google, which may be HTML; for editing
+  description?: string;
+  // The description with only safe formatting and links left
+  descriptionHtml?: string;
+  location?: string;
+  start?: EventDateTime;
+  end?: EventDateTime;
+  recurringEventId?: string;
+  originalStartTime?: EventDateTime;
+  recurrence?: string[];
+  htmlLink?: string;
+  iCalUID?: string;
+  organizer?: EventPerson;
+  creator?: EventPerson;
+  attendees?: EventAttendee[];
+  conference?: EventConference;
+  attachments?: EventAttachment[];
+  reminders?: EventReminders;
+  colorId?: string;
+  transparency?: string;
+  visibility?: string;
+  created?: string;
+  updated?: string;
+}
+
+type PersonFields = Pick<
+  calendar_v3.Schema$EventAttendee,
+  "email" | "displayName" | "self"
+>;
+
+// Helper functions
+function optional<T>(value: T | null | undefined): T | undefined {
+  return value ?? undefined;
+}
+
+function toDateTime(
+  time: calendar_v3.Schema$EventDateTime | undefined
+): EventDateTime | undefined {
+  if (!time) return undefined;
+  return {
+    dateTime: optional(time.dateTime),
+    date: optional(time.date),
+    timeZone: optional(time.timeZone),
+  };
+}
+
+function toPerson(
+  person: PersonFields | null | undefined
+): EventPerson | undefined {
+  if (!person) return undefined;
+  return {
+    email: optional(person.email),
+    displayName: optional(person.displayName),
+    self: optional(person.self),
+  };
+}
+
+function toAttendee(attendee: calendar_v3.Schema$EventAttendee): EventAttendee {
+  return {
+    ...toPerson(attendee),
+    responseStatus: (attendee.responseStatus ||
+      "needsAction") as ResponseStatus,
+    optional: optional(attendee.optional),
+    organizer: optional(attendee.organizer),
+    resource: optional(attendee.resource),
+    comment: optional(attendee.comment),
+  };
+}
+
+function toConference(event: CalendarEvent): EventConference | undefined {
+  const { conferenceData, hangoutLink } = event;
+  const entryPoints: EventEntryPoint[] = (conferenceData?.entryPoints || [])
+    .filter((entryPoint) => entryPoint.uri && entryPoint.entryPointType)
+    .map((entryPoint) => ({
+      type: entryPoint.entryPointType!,
+      uri: entryPoint.uri!,
+      label: optional(entryPoint.label),
+    }));
+  const video = entryPoints.find((entryPoint) => entryPoint.type === "video");
+
+  if (!entryPoints.length && !hangoutLink) return undefined;
+  return {
+    name: optional(conferenceData?.conferenceSolution?.name),
+    iconUri: optional(conferenceData?.conferenceSolution?.iconUri),
+    joinUrl: video?.uri ?? optional(hangoutLink),
+    entryPoints,
+  };
+}
+
+function toReminders(
+  reminders: calendar_v3.Schema$Event["reminders"]
+): EventReminders | undefined {
+  if (!reminders) return undefined;
+  return {
+    useDefault: !!reminders.useDefault,
+    overrides: (reminders.overrides || []).map((reminder) => ({
+      method: reminder.method || "popup",
+      minutes: reminder.minutes ?? 0,
+    })),
+  };
+}
+
+// Map a cached Google event to the API's event shape
+export function toApiEvent(event: CalendarEvent): ApiEvent {
+  return {
+    id: event.id!,
+    calendarId: event.calendarId,
+    status: optional(event.status),
+    summary: optional(event.summary),
+    description: optional(event.description),
+    descriptionHtml: event.description
+      ? sanitizeHtml(event.description)
+      : undefined,
+    location: optional(event.location),
+    start: toDateTime(event.start),
+    end: toDateTime(event.end),
+    recurringEventId: optional(event.recurringEventId),
+    originalStartTime: toDateTime(event.originalStartTime),
+    recurrence: optional(event.recurrence),
+    htmlLink: optional(event.htmlLink),
+    iCalUID: optional(event.iCalUID),
+    organizer: toPerson(event.organizer),
+    creator: toPerson(event.creator),
+    attendees: event.attendees?.map(toAttendee),
+    conference: toConference(event),
+    attachments: event.attachments
+      ?.filter((attachment) => attachment.fileUrl)
+      .map((attachment) => ({
+        title: attachment.title || attachment.fileUrl!,
+        fileUrl: attachment.fileUrl!,
+        mimeType: optional(attachment.mimeType),
+        iconLink: optional(attachment.iconLink),
+      })),
+    reminders: toReminders(event.reminders),
+    colorId: optional(event.colorId),
+    transparency: optional(event.transparency),
+    visibility: optional(event.visibility),
+    created: optional(event.created),
+    updated: optional(event.updated),
+  };
+}
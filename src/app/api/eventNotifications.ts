@@ -0,0 +1,43 @@
+// Types
+export interface EventNotification {
+  calendarId: string;
+  resourceState: string;
+}
+
+type Listener = (notification: EventNotification) => void;
+
+// Keep listeners on globalThis so every route module shares the same registry
+const globalListeners = globalThis as unknown as {
+  calendarEventListeners?: Map<string, Set<Listener>>;
+};
+const listeners = (globalListeners.calendarEventListeners ??= new Map());
+
+// Register a listener for a user's calendar changes; returns an unsubscribe
+export function subscribe(userId: string, listener: Listener): () => void {
+  let userListeners = listeners.get(userId);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(userId, userListeners);
+  }
+  userListeners.add(listener);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) listeners.delete(userId);
+  };
+}
+
+export function subscriberCount(userId: string): number {
+  return listeners.get(userId)?.size ?? 0;
+}
+
+// Notify every connected browser of the user that a calendar changed
+export function publish(userId: string, notification: EventNotification) {
+  listeners.get(userId)?.forEach((listener: Listener) => {
+    try {
+      listener(notification);
+    } catch (error) {
+      console.error("Event notification listener error:", error);
+    }
+  });
+}
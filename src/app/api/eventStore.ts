@@ -0,0 +1,298 @@
+import { calendar_v3 } from "googleapis";
+import { SearchDocument, buildSearchDocument } from "@/lib/search";
+
+// Types
+export type StoredEvent = calendar_v3.Schema$Event;
+
+interface EventRecord {
+  event: StoredEvent;
+  addedAt: number; // Store version at which the event was first seen
+  version: number; // Store version of the latest change to the event
+  // Built on the first search; a change replaces the record and so drops it
+  searchDocument?: SearchDocument;
+}
+
+interface CalendarCache {
+  syncToken?: string;
+  lastSyncedAt: number;
+  events: Map<string, EventRecord>;
+  // Parent events of recurring series, keyed by id. Syncs list single
+  // occurrences, so these are only kept for their recurrence rules.
+  series: Map<string, StoredEvent>;
+}
+
+interface UserCache {
+  version: number;
+  calendars: Map<string, CalendarCache>;
+}
+
+// An event tagged with the calendar it was synced from
+export type SourcedEvent = StoredEvent & { calendarId: string };
+
+// Decides whether an event matches a search, given its search document
+export type EventMatcher = (
+  event: SourcedEvent,
+  document: SearchDocument
+) => boolean;
+
+export interface EventChanges {
+  added: SourcedEvent[];
+  updated: SourcedEvent[];
+  cancelled: string[];
+  cursor: string;
+}
+
+// Keep the store on globalThis so it survives module reloads in development
+const globalStore = globalThis as unknown as {
+  calendarEventStore?: Map<string, UserCache>;
+};
+const users = (globalStore.calendarEventStore ??= new Map());
+
+// Helper functions
+function getUserCache(userId: string): UserCache {
+  let cache = users.get(userId);
+  if (!cache) {
+    cache = { version: 0, calendars: new Map() };
+    users.set(userId, cache);
+  }
+  return cache;
+}
+
+function getCalendarCache(userId: string, calendarId: string): CalendarCache {
+  const userCache = getUserCache(userId);
+  let cache = userCache.calendars.get(calendarId);
+  if (!cache) {
+    cache = { lastSyncedAt: 0, events: new Map(), series: new Map() };
+    userCache.calendars.set(calendarId, cache);
+  }
+  return cache;
+}
+
+function isCancelled(event: StoredEvent): boolean {
+  return event.status === "cancelled";
+}
+
+// Tag an occurrence with its series' recurrence rules when they are known
+function withSeries(
+  cache: CalendarCache,
+  event: StoredEvent,
+  calendarId: string
+): SourcedEvent {
+  const series = event.recurringEventId
+    ? cache.series.get(event.recurringEventId)
+    : undefined;
+  return series?.recurrence
+    ? { ...event, recurrence: series.recurrence, calendarId }
+    : { ...event, calendarId };
+}
+
+function applyEvent(
+  userCache: UserCache,
+  cache: CalendarCache,
+  event: StoredEvent
+): void {
+  if (!event.id) return;
+
+  const existing = cache.events.get(event.id);
+  // Cancellations of events we have never seen carry no information
+  if (!existing && isCancelled(event)) return;
+
+  const version = ++userCache.version;
+  cache.events.set(event.id, {
+    event,
+    addedAt: existing ? existing.addedAt : version,
+    version,
+  });
+}
+
+// Store API
+export function getSyncState(userId: string, calendarId: string) {
+  const cache = getCalendarCache(userId, calendarId);
+  return { syncToken: cache.syncToken, lastSyncedAt: cache.lastSyncedAt };
+}
+
+// Apply a batch of events returned by a full or incremental sync
+export function applySyncResult(
+  userId: string,
+  calendarId: string,
+  events: StoredEvent[],
+  syncToken?: string | null
+): void {
+  const userCache = getUserCache(userId);
+  const cache = getCalendarCache(userId, calendarId);
+
+  for (const event of events) {
+    applyEvent(userCache, cache, event);
+  }
+
+  cache.syncToken = syncToken || undefined;
+  cache.lastSyncedAt = Date.now();
+}
+
+// Apply the result of a write made through this app, leaving the sync token
+// alone so the next delta sync still covers everything since the last sync
+export function applyLocalChange(
+  userId: string,
+  calendarId: string,
+  event: StoredEvent
+): void {
+  applyEvent(getUserCache(userId), getCalendarCache(userId, calendarId), event);
+}
+
+// Drop the sync token and tombstone every cached event so that a fresh full
+// sync reports anything that disappeared in the meantime as cancelled
+export function resetCalendar(userId: string, calendarId: string): void {
+  const userCache = getUserCache(userId);
+  const cache = getCalendarCache(userId, calendarId);
+
+  for (const [id, record] of cache.events) {
+    if (isCancelled(record.event)) continue;
+    cache.events.set(id, {
+      event: { id, status: "cancelled" },
+      addedAt: record.addedAt,
+      version: ++userCache.version,
+    });
+  }
+
+  cache.series.clear();
+  cache.syncToken = undefined;
+  cache.lastSyncedAt = 0;
+}
+
+// Series ids referenced by the given occurrences, for fetching their parents
+export function getSeriesIds(events: StoredEvent[]): string[] {
+  return [
+    ...new Set(
+      events.flatMap((event) =>
+        event.recurringEventId ? [event.recurringEventId] : []
+      )
+    ),
+  ];
+}
+
+// Series ids referenced by cached occurrences whose parent is not cached yet
+export function getMissingSeriesIds(
+  userId: string,
+  calendarId: string
+): string[] {
+  const cache = getCalendarCache(userId, calendarId);
+  return getSeriesIds(
+    [...cache.events.values()].map((record) => record.event)
+  ).filter((id) => !cache.series.has(id));
+}
+
+// Cache the parent events of recurring series; cancelled parents are dropped
+export function applySeries(
+  userId: string,
+  calendarId: string,
+  parents: StoredEvent[]
+): void {
+  const cache = getCalendarCache(userId, calendarId);
+  for (const parent of parents) {
+    if (!parent.id) continue;
+    if (isCancelled(parent)) {
+      cache.series.delete(parent.id);
+    } else {
+      cache.series.set(parent.id, parent);
+    }
+  }
+}
+
+// Force the next sync of a calendar, e.g. after a push notification
+export function markCalendarStale(userId: string, calendarId: string): void {
+  getCalendarCache(userId, calendarId).lastSyncedAt = 0;
+}
+
+// Calendars with events cached for a user, i.e. the ones they have viewed
+export function listCachedCalendarIds(userId: string): string[] {
+  return [...getUserCache(userId).calendars.keys()];
+}
+
+// List the live (non-cancelled) events cached for the given calendars
+export function listStoredEvents(
+  userId: string,
+  calendarIds: string[]
+): SourcedEvent[] {
+  const userCache = getUserCache(userId);
+  const events: SourcedEvent[] = [];
+
+  for (const calendarId of calendarIds) {
+    const cache = userCache.calendars.get(calendarId);
+    if (!cache) continue;
+
+    for (const record of cache.events.values()) {
+      if (!isCancelled(record.event)) {
+        events.push(withSeries(cache, record.event, calendarId));
+      }
+    }
+  }
+
+  return events;
+}
+
+// List the live events for which matches returns true, given each event's
+// search document. This is the local search index: documents are built once
+// per version of an event rather than on every search.
+export function searchStoredEvents(
+  userId: string,
+  calendarIds: string[],
+  matches: EventMatcher
+): SourcedEvent[] {
+  const userCache = getUserCache(userId);
+  const events: SourcedEvent[] = [];
+
+  for (const calendarId of calendarIds) {
+    const cache = userCache.calendars.get(calendarId);
+    if (!cache) continue;
+
+    for (const record of cache.events.values()) {
+      if (isCancelled(record.event)) continue;
+
+      record.searchDocument ??= buildSearchDocument(record.event);
+      const event = withSeries(cache, record.event, calendarId);
+      if (matches(event, record.searchDocument)) events.push(event);
+    }
+  }
+
+  return events;
+}
+
+// Collect everything that changed after the given cursor in the given
+// calendars. Without a cursor only the current cursor is returned, which the
+// client then polls from.
+export function getChangesSince(
+  userId: string,
+  calendarIds: string[],
+  cursor?: string | null
+): EventChanges {
+  const userCache = getUserCache(userId);
+  const since = cursor ? parseInt(cursor, 10) : NaN;
+  const changes: EventChanges = {
+    added: [],
+    updated: [],
+    cancelled: [],
+    cursor: String(userCache.version),
+  };
+
+  if (Number.isNaN(since)) return changes;
+
+  for (const calendarId of calendarIds) {
+    const cache = userCache.calendars.get(calendarId);
+    if (!cache) continue;
+
+    for (const record of cache.events.values()) {
+      if (record.version <= since) continue;
+
+      if (isCancelled(record.event)) {
+        // Events both added and removed since the cursor were never seen
+        if (record.addedAt <= since) changes.cancelled.push(record.event.id!);
+      } else if (record.addedAt > since) {
+        changes.added.push(withSeries(cache, record.event, calendarId));
+      } else {
+        changes.updated.push(withSeries(cache, record.event, calendarId));
+      }
+    }
+  }
+
+  return changes;
+}
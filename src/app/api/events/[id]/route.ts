@@ -0,0 +1,99 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import {
+  DEFAULT_CALENDAR_ID,
+  deleteEvent,
+  updateEvent,
+  validateEventInput,
+  validateWritableCalendar,
+} from "../../calendar";
+import { toApiEvent } from "../../eventDetails";
+import { getSessionContext } from "../../session";
+import { isRecurrenceScope } from "@/lib/recurrence";
+
+// Types
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Main handlers
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { id } = await params;
+
+    // Parse request body; malformed JSON fails validation below
+    const {
+      calendarId = DEFAULT_CALENDAR_ID,
+      event,
+      scope = "this",
+    } = (await req.json().catch(() => ({}))) ?? {};
+
+    const readOnlyError = validateWritableCalendar(calendarId);
+    if (readOnlyError) {
+      return createApiErrorResponse("forbidden", readOnlyError);
+    }
+    const validationError = validateEventInput(event, { partial: true });
+    if (validationError) {
+      return createApiErrorResponse("bad_request", validationError);
+    }
+    if (!isRecurrenceScope(scope)) {
+      return createApiErrorResponse("bad_request", "Invalid scope");
+    }
+
+    // For a recurring event, scope picks this occurrence, this and the
+    // following ones, or the whole series
+    const updated = await updateEvent(
+      calendar,
+      userId,
+      calendarId,
+      id,
+      event,
+      scope
+    );
+
+    return createSuccessResponse(toApiEvent(updated), "Event updated");
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to update event");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const calendarId = searchParams.get("calendarId") || DEFAULT_CALENDAR_ID;
+    const scope = searchParams.get("scope") || "this";
+    const readOnlyError = validateWritableCalendar(calendarId);
+    if (readOnlyError) {
+      return createApiErrorResponse("forbidden", readOnlyError);
+    }
+    if (!isRecurrenceScope(scope)) {
+      return createApiErrorResponse("bad_request", "Invalid scope");
+    }
+
+    await deleteEvent(calendar, userId, calendarId, id, scope);
+
+    return createSuccessResponse({ id, calendarId }, "Event deleted");
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to delete event");
+  }
+}
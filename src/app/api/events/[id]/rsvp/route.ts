@@ -0,0 +1,81 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../../utils";
+import {
+  DEFAULT_CALENDAR_ID,
+  respondToEvent,
+  validateWritableCalendar,
+} from "../../../calendar";
+import { toApiEvent } from "../../../eventDetails";
+import { getSessionContext } from "../../../session";
+import { MAX_RSVP_COMMENT_LENGTH, isRsvpResponse } from "@/lib/rsvp";
+
+// Types
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Main handler
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { id } = await params;
+
+    // Parse request body; malformed JSON fails validation below
+    const {
+      calendarId = DEFAULT_CALENDAR_ID,
+      response,
+      comment,
+    } = (await req.json().catch(() => ({}))) ?? {};
+
+    const readOnlyError = validateWritableCalendar(calendarId);
+    if (readOnlyError) {
+      return createApiErrorResponse("forbidden", readOnlyError);
+    }
+    if (!isRsvpResponse(response)) {
+      return createApiErrorResponse(
+        "bad_request",
+        "Response must be accepted, tentative or declined"
+      );
+    }
+    if (comment !== undefined && typeof comment !== "string") {
+      return createApiErrorResponse("bad_request", "Comment must be a string");
+    }
+    if (comment && comment.length > MAX_RSVP_COMMENT_LENGTH) {
+      return createApiErrorResponse(
+        "bad_request",
+        `Comment must be at most ${MAX_RSVP_COMMENT_LENGTH} characters`
+      );
+    }
+
+    // Only the signed-in user's own guest entry is changed
+    const updated = await respondToEvent(
+      calendar,
+      userId,
+      calendarId,
+      id,
+      response,
+      comment
+    );
+    if (!updated) {
+      return createApiErrorResponse(
+        "forbidden",
+        "You are not a guest of this event"
+      );
+    }
+
+    return createSuccessResponse(toApiEvent(updated), "Response sent");
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to respond to event");
+  }
+}
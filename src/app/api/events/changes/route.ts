@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import {
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import { parseCalendarIds, syncCalendars } from "../../calendar";
+import { toApiEvent } from "../../eventDetails";
+import { getChangesSince } from "../../eventStore";
+import { getSessionContext } from "../../session";
+
+// Returns events added, updated or cancelled since the client's cursor
+export async function GET(req: NextRequest) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { searchParams } = new URL(req.url);
+    const cursor = searchParams.get("cursor");
+    const calendarIds = parseCalendarIds(searchParams.get("calendarIds"));
+
+    // Pull the latest delta from Google into the cache
+    await syncCalendars(calendar, userId, calendarIds);
+
+    const changes = getChangesSince(userId, calendarIds, cursor);
+    return createSuccessResponse({
+      ...changes,
+      added: changes.added.map(toApiEvent),
+      updated: changes.updated.map(toApiEvent),
+    });
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to fetch event changes");
+  }
+}
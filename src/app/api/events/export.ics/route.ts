@@ -0,0 +1,92 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import {
+  getCalendarEvents,
+  parseCalendarIds,
+  parseEventFilter,
+  syncCalendars,
+  validateDateFilter,
+} from "../../calendar";
+import { serializeCalendar } from "../../ics";
+import { createEventSearch } from "../../search";
+import { getSessionContext } from "../../session";
+import { MAX_SEARCH_LENGTH } from "@/lib/search";
+
+// Constants
+const CALENDAR_NAME = "Calendar Sync export";
+
+// Helper functions
+function getFileName(startDate?: string, endDate?: string): string {
+  if (startDate && endDate && startDate !== endDate) {
+    return `calendar-${startDate}-to-${endDate}.ics`;
+  }
+  return startDate ? `calendar-${startDate}.ics` : "calendar.ics";
+}
+
+// Main handler
+// Export the events matching the same filters as GET /api/events as one
+// iCalendar file
+export async function GET(req: NextRequest) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    // Parse query parameters for calendars and date filtering
+    const { searchParams } = new URL(req.url);
+    const calendarIds = parseCalendarIds(searchParams.get("calendarIds"));
+    const dateFilter = parseEventFilter(searchParams);
+
+    const filterError = validateDateFilter(dateFilter);
+    if (filterError) {
+      return createApiErrorResponse("bad_request", filterError);
+    }
+    if (dateFilter.q && dateFilter.q.length > MAX_SEARCH_LENGTH) {
+      return createApiErrorResponse(
+        "bad_request",
+        `Search must be at most ${MAX_SEARCH_LENGTH} characters`
+      );
+    }
+
+    await syncCalendars(calendar, userId, calendarIds, {
+      timeZone: dateFilter.timeZone,
+    });
+
+    const search = dateFilter.q
+      ? await createEventSearch(
+          calendar,
+          userId,
+          calendarIds,
+          dateFilter.q,
+          dateFilter
+        )
+      : null;
+
+    // Export every matching event rather than a single page
+    const { items } = getCalendarEvents(
+      userId,
+      calendarIds,
+      dateFilter,
+      { limit: Infinity },
+      search
+    );
+
+    const fileName = getFileName(dateFilter.startDate, dateFilter.endDate);
+    return new Response(serializeCalendar(items, { name: CALENDAR_NAME }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to export calendar events");
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest } from "next/server";
+import {
+  ApiErrorCode,
+  classifyGoogleError,
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import {
+  DEFAULT_CALENDAR_ID,
+  getCalendarEvents,
+  importEvent,
+  syncCalendar,
+  validateWritableCalendar,
+} from "../../calendar";
+import { IcsEvent, findExistingEvents, parseCalendar } from "../../ics";
+import { getSessionContext } from "../../session";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timeZones";
+
+// Constants
+const MAX_FILE_LENGTH = 2 * 1024 * 1024;
+// Events handled per request, so a large file never holds one request open for
+// minutes; the client sends the file again from `nextStart` for the rest
+const IMPORT_BATCH_SIZE = 50;
+const IMPORT_CONCURRENCY = 5;
+// Errors that would fail every remaining event as well
+const FATAL_ERROR_CODES: ApiErrorCode[] = [
+  "unauthenticated",
+  "insufficient_scope",
+];
+
+// Types
+// A dry run reports "new" or "duplicate"; an import reports the outcome
+type ImportStatus = "new" | "duplicate" | "imported" | "failed";
+
+interface ImportResult {
+  event: IcsEvent;
+  status: ImportStatus;
+  code?: ApiErrorCode;
+  message?: string;
+}
+
+// Main handler
+// Parse an uploaded .ics file and import its events into one calendar, or
+// with dryRun only report what would be imported
+export async function POST(req: NextRequest) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    // Parse request body; malformed JSON fails validation below
+    const {
+      calendarId = DEFAULT_CALENDAR_ID,
+      ics,
+      timeZone = DEFAULT_TIME_ZONE,
+      dryRun = false,
+      start = 0,
+    } = (await req.json().catch(() => ({}))) ?? {};
+
+    const readOnlyError = validateWritableCalendar(calendarId);
+    if (readOnlyError) {
+      return createApiErrorResponse("forbidden", readOnlyError);
+    }
+    if (typeof ics !== "string" || !ics.trim()) {
+      return createApiErrorResponse("bad_request", "An .ics file is required");
+    }
+    if (ics.length > MAX_FILE_LENGTH) {
+      return createApiErrorResponse(
+        "bad_request",
+        "The .ics file is too large"
+      );
+    }
+    if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+      return createApiErrorResponse("bad_request", "Invalid timeZone");
+    }
+    if (!Number.isInteger(start) || start < 0) {
+      return createApiErrorResponse("bad_request", "Invalid start");
+    }
+
+    const { events, errors } = parseCalendar(ics, { timeZone });
+    if (!events.length) {
+      return createApiErrorResponse(
+        "bad_request",
+        "No events found in the file",
+        errors.join("; ") || undefined
+      );
+    }
+
+    // Compare against the calendar's current events by iCalUID
+    await syncCalendar(calendar, userId, calendarId);
+    const { items: existing } = getCalendarEvents(
+      userId,
+      [calendarId],
+      {},
+      {
+        limit: Infinity,
+      }
+    );
+    const duplicates = findExistingEvents(events, existing);
+
+    // A dry run covers the whole file; an import covers one batch of it
+    const batch = dryRun
+      ? events
+      : events.slice(start, start + IMPORT_BATCH_SIZE);
+    const nextStart =
+      !dryRun && start + batch.length < events.length
+        ? start + batch.length
+        : undefined;
+
+    // Import each event on its own so a failure only affects that event
+    const toResult = async (event: IcsEvent): Promise<ImportResult> => {
+      if (duplicates.has(event.iCalUID)) {
+        return { event, status: "duplicate" };
+      }
+      if (dryRun) {
+        return { event, status: "new" };
+      }
+
+      try {
+        await importEvent(calendar, userId, calendarId, event);
+        return { event, status: "imported" };
+      } catch (error) {
+        const code = classifyGoogleError(error);
+        if (FATAL_ERROR_CODES.includes(code)) throw error;
+
+        console.error(`Failed to import ${event.iCalUID} (${code}):`, error);
+        return {
+          event,
+          status: "failed",
+          code,
+          message: error instanceof Error ? error.message : undefined,
+        };
+      }
+    };
+
+    const results: ImportResult[] = [];
+    for (let i = 0; i < batch.length; i += IMPORT_CONCURRENCY) {
+      results.push(
+        ...(await Promise.all(
+          batch.slice(i, i + IMPORT_CONCURRENCY).map(toResult)
+        ))
+      );
+    }
+
+    const imported = results.filter(({ status }) => status === "imported");
+    return createSuccessResponse(
+      { results, errors, nextStart },
+      dryRun
+        ? undefined
+        : `Imported ${imported.length} of ${results.length} events`
+    );
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to import events");
+  }
+}
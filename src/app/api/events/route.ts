@@ -1,100 +1,133 @@
-import { NextRequest, NextResponse } from "next/server";
-import { google } from "googleapis";
+import { NextRequest } from "next/server";
 import {
-  getOAuth2Client,
-  tokenFromHeaders,
-  createErrorResponse,
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createPaginatedResponse,
   createSuccessResponse,
+  createUnauthenticatedResponse,
 } from "../utils";
+import {
+  DEFAULT_CALENDAR_ID,
+  EventInput,
+  createEvent,
+  getCalendarEvents,
+  parseCalendarIds,
+  parseEventFilter,
+  syncCalendars,
+  validateDateFilter,
+  validateEventInput,
+  validateWritableCalendar,
+} from "../calendar";
+import { toApiEvent } from "../eventDetails";
+import { createEventSearch } from "../search";
+import { getSessionContext } from "../session";
+import { MAX_SEARCH_LENGTH } from "@/lib/search";
 
 // Constants
-const CALENDAR_ID = "primary";
-const MAX_RESULTS = 50; // Increased for better filtering
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 250;
 
-// Types
-interface CalendarEvent {
-  id: string;
-  summary: string;
-  start: any;
-  end: any;
+// Helper functions
+function parseLimit(value: string | null): number {
+  const limit = value ? parseInt(value, 10) : DEFAULT_LIMIT;
+  if (Number.isNaN(limit) || limit < 1) return DEFAULT_LIMIT;
+  return Math.min(limit, MAX_LIMIT);
 }
 
-interface DateFilter {
-  startDate?: string;
-  endDate?: string;
-}
+// Main handlers
+export async function GET(req: NextRequest) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
 
-// Helper functions
-async function getCalendarEvents(
-  calendar: any,
-  dateFilter?: DateFilter
-): Promise<CalendarEvent[]> {
-  const params: any = {
-    calendarId: CALENDAR_ID,
-    maxResults: MAX_RESULTS,
-    singleEvents: true,
-    orderBy: "startTime",
-  };
+    // Parse query parameters for calendars, date filtering and pagination
+    const { searchParams } = new URL(req.url);
+    const calendarIds = parseCalendarIds(searchParams.get("calendarIds"));
+    const dateFilter = parseEventFilter(searchParams);
+    const pageToken = searchParams.get("pageToken") || undefined;
+    const limit = parseLimit(searchParams.get("limit"));
+
+    // Dates are calendar days in the caller's time zone
+    const filterError = validateDateFilter(dateFilter);
+    if (filterError) {
+      return createApiErrorResponse("bad_request", filterError);
+    }
+    if (dateFilter.q && dateFilter.q.length > MAX_SEARCH_LENGTH) {
+      return createApiErrorResponse(
+        "bad_request",
+        `Search must be at most ${MAX_SEARCH_LENGTH} characters`
+      );
+    }
 
-  // Add date filtering if provided
-  if (dateFilter?.startDate) {
-    params.timeMin = new Date(dateFilter.startDate).toISOString();
-  }
+    // Bring the server-side cache up to date (full sync once, then deltas)
+    await syncCalendars(calendar, userId, calendarIds, {
+      timeZone: dateFilter.timeZone,
+    });
+
+    // Keyword searches also ask Google, then narrow the cached events
+    const search = dateFilter.q
+      ? await createEventSearch(
+          calendar,
+          userId,
+          calendarIds,
+          dateFilter.q,
+          dateFilter
+        )
+      : null;
+
+    // Read one page of cached events merged across the selected calendars
+    const page = getCalendarEvents(
+      userId,
+      calendarIds,
+      dateFilter,
+      { pageToken, limit },
+      search
+    );
 
-  if (dateFilter?.endDate) {
-    // Set end date to end of day for inclusive filtering
-    const endDate = new Date(dateFilter.endDate);
-    endDate.setHours(23, 59, 59, 999);
-    params.timeMax = endDate.toISOString();
+    return createPaginatedResponse(
+      page.items.map(toApiEvent),
+      page.nextPageToken
+    );
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to fetch calendar events");
   }
-
-  const response = await calendar.events.list(params);
-  return response.data.items || [];
 }
 
-async function setupCalendarService(accessToken: string) {
-  const oAuth2Client = getOAuth2Client();
-
-  // Set the access token directly
-  oAuth2Client.setCredentials({
-    access_token: accessToken,
-  });
-
-  return google.calendar({ version: "v3", auth: oAuth2Client });
-}
-
-// Main handler
-export async function GET(req: NextRequest) {
+export async function POST(req: NextRequest) {
   try {
-    // Validate access token
-    const accessToken = tokenFromHeaders(req.headers);
-    if (!accessToken) {
-      return createErrorResponse(
-        "Access token not provided in headers as Authorization or x-access-token"
-      );
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
     }
+    const { calendar, userId } = context;
 
-    // Parse query parameters for date filtering
-    const { searchParams } = new URL(req.url);
-    const startDate = searchParams.get("startDate");
-    const endDate = searchParams.get("endDate");
-
-    const dateFilter: DateFilter = {};
-    if (startDate) dateFilter.startDate = startDate;
-    if (endDate) dateFilter.endDate = endDate;
-
-    // Setup calendar service
-    const calendar = await setupCalendarService(accessToken);
+    // Parse request body; malformed JSON fails validation below
+    const { calendarId = DEFAULT_CALENDAR_ID, event } =
+      (await req.json().catch(() => ({}))) ?? {};
 
-    // Get calendar events with date filter
-    const events = await getCalendarEvents(calendar, dateFilter);
+    const readOnlyError = validateWritableCalendar(calendarId);
+    if (readOnlyError) {
+      return createApiErrorResponse("forbidden", readOnlyError);
+    }
+    const validationError = validateEventInput(event);
+    if (validationError) {
+      return createApiErrorResponse("bad_request", validationError);
+    }
 
-    return createSuccessResponse(events);
-  } catch (error: any) {
-    console.error("Calendar events fetch error:", error);
-    return createErrorResponse(
-      error.message || "Failed to fetch calendar events",
-      500
+    const created = await createEvent(
+      calendar,
+      userId,
+      calendarId,
+      event as EventInput
     );
+
+    return createSuccessResponse(toApiEvent(created), "Event created", 201);
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to create event");
   }
 }
@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import {
+  createGoogleErrorResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import { parseCalendarIds } from "../../calendar";
+import { getSessionContext } from "../../session";
+import { subscribe, subscriberCount } from "../../eventNotifications";
+import {
+  cancelScheduledStop,
+  ensureWatchChannel,
+  scheduleStopUserChannels,
+} from "../../watchChannels";
+import { getProviderId } from "../../providers";
+
+export const dynamic = "force-dynamic";
+
+// Constants
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keeps proxies from closing the stream
+
+// Streams calendar change notifications to the browser as Server-Sent Events
+export async function GET(req: NextRequest) {
+  try {
+    // EventSource sends the session cookie along with the request
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { searchParams } = new URL(req.url);
+    const calendarIds = parseCalendarIds(searchParams.get("calendarIds"));
+    const channels = await Promise.all(
+      // Only Google pushes changes; other calendars are polled
+      calendarIds.map((calendarId) =>
+        getProviderId(calendarId) === "google"
+          ? ensureWatchChannel(calendar, userId, calendarId)
+          : null
+      )
+    );
+    const isPushActive = channels.every(Boolean);
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup();
+          }
+        };
+
+        const unsubscribe = subscribe(userId, (notification) => {
+          if (!calendarIds.includes(notification.calendarId)) return;
+          send(`event: change\ndata: ${JSON.stringify(notification)}\n\n`);
+        });
+        // A reconnect within the idle window keeps the channels it reuses
+        cancelScheduledStop(userId);
+        const heartbeat = setInterval(
+          () => send(": ping\n\n"),
+          HEARTBEAT_INTERVAL
+        );
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          if (subscriberCount(userId) === 0) {
+            scheduleStopUserChannels(calendar, userId);
+          }
+          cleanup = () => {};
+        };
+
+        req.signal.addEventListener("abort", () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        send(
+          `event: ready\ndata: ${JSON.stringify({ push: isPushActive })}\n\n`
+        );
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to open event stream");
+  }
+}
@@ -0,0 +1,174 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { MAX_CALENDARS } from "./calendar";
+import { getJson, getStore, setJson } from "./store";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timeZones";
+
+// Private iCalendar feeds: each user can publish their synced events at a
+// secret URL that calendar apps poll without a browser session
+
+// Constants
+const FEED_PREFIX = "feed:";
+const FEED_TOKEN_PREFIX = "feed-token:";
+export const DEFAULT_PAST_DAYS = 30;
+export const DEFAULT_FUTURE_DAYS = 180;
+export const MAX_PAST_DAYS = 365;
+export const MAX_FUTURE_DAYS = 730;
+const MAX_CALENDAR_ID_LENGTH = 1024;
+
+// Types
+export interface FeedSettings {
+  token: string;
+  // Calendars to publish; null follows the defaults (primary)
+  calendarIds: string[] | null;
+  pastDays: number;
+  futureDays: number;
+  // Zone the window's days are counted in
+  timeZone: string;
+  createdAt: number;
+}
+
+export type FeedSettingsInput = Partial<
+  Pick<FeedSettings, "calendarIds" | "pastDays" | "futureDays" | "timeZone">
+>;
+
+// Helper functions
+// Tokens are looked up by hash, so the index never holds a usable URL
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function isDayCount(value: unknown, max: number): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= max
+  );
+}
+
+// Validate a settings update; returns an error message when invalid
+export function validateFeedSettings(input: unknown): string | null {
+  if (!input || typeof input !== "object") return "Feed settings are required";
+
+  const { calendarIds, pastDays, futureDays, timeZone } =
+    input as FeedSettingsInput;
+  if (
+    calendarIds !== undefined &&
+    calendarIds !== null &&
+    !(
+      Array.isArray(calendarIds) &&
+      calendarIds.length > 0 &&
+      calendarIds.every((id) => typeof id === "string" && id)
+    )
+  ) {
+    return "Pick at least one calendar";
+  }
+  if (calendarIds && calendarIds.length > MAX_CALENDARS) {
+    return `Pick at most ${MAX_CALENDARS} calendars`;
+  }
+  if (calendarIds?.some((id) => id.length > MAX_CALENDAR_ID_LENGTH)) {
+    return "Invalid calendar ID";
+  }
+  if (pastDays !== undefined && !isDayCount(pastDays, MAX_PAST_DAYS)) {
+    return `Past days must be between 0 and ${MAX_PAST_DAYS}`;
+  }
+  if (futureDays !== undefined && !isDayCount(futureDays, MAX_FUTURE_DAYS)) {
+    return `Future days must be between 0 and ${MAX_FUTURE_DAYS}`;
+  }
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    return "Invalid timeZone";
+  }
+  return null;
+}
+
+// Copy only the editable fields out of a request body
+function pickSettings(input: FeedSettingsInput): FeedSettingsInput {
+  const settings: FeedSettingsInput = {};
+  if (input.calendarIds !== undefined) settings.calendarIds = input.calendarIds;
+  if (input.pastDays !== undefined) settings.pastDays = input.pastDays;
+  if (input.futureDays !== undefined) settings.futureDays = input.futureDays;
+  if (input.timeZone !== undefined) settings.timeZone = input.timeZone;
+  return settings;
+}
+
+// Feed settings
+export async function getFeedSettings(
+  userId: string
+): Promise<FeedSettings | null> {
+  return getJson<FeedSettings>(`${FEED_PREFIX}${userId}`);
+}
+
+// Issue a new secret URL, keeping the existing settings. The previous URL
+// stops working immediately.
+export async function rotateFeedToken(
+  userId: string,
+  input: FeedSettingsInput = {}
+): Promise<FeedSettings> {
+  const existing = await getFeedSettings(userId);
+  if (existing) {
+    await getStore().delete(`${FEED_TOKEN_PREFIX}${hashToken(existing.token)}`);
+  }
+
+  const settings: FeedSettings = {
+    calendarIds: null,
+    pastDays: DEFAULT_PAST_DAYS,
+    futureDays: DEFAULT_FUTURE_DAYS,
+    timeZone: DEFAULT_TIME_ZONE,
+    ...existing,
+    ...pickSettings(input),
+    token: randomBytes(24).toString("base64url"),
+    createdAt: Date.now(),
+  };
+
+  await setJson(`${FEED_PREFIX}${userId}`, settings);
+  await getStore().set(
+    `${FEED_TOKEN_PREFIX}${hashToken(settings.token)}`,
+    userId
+  );
+  return settings;
+}
+
+export async function updateFeedSettings(
+  userId: string,
+  input: FeedSettingsInput
+): Promise<FeedSettings | null> {
+  const existing = await getFeedSettings(userId);
+  if (!existing) return null;
+
+  const settings = { ...existing, ...pickSettings(input) };
+  await setJson(`${FEED_PREFIX}${userId}`, settings);
+  return settings;
+}
+
+export async function revokeFeed(userId: string): Promise<void> {
+  const existing = await getFeedSettings(userId);
+  if (!existing) return;
+
+  await getStore().delete(`${FEED_TOKEN_PREFIX}${hashToken(existing.token)}`);
+  await getStore().delete(`${FEED_PREFIX}${userId}`);
+}
+
+// Resolve a feed token to its owner and settings, or null when it is unknown
+// or has been rotated away
+export async function resolveFeedToken(
+  token: string
+): Promise<{ userId: string; settings: FeedSettings } | null> {
+  const userId = await getStore().get(
+    `${FEED_TOKEN_PREFIX}${hashToken(token)}`
+  );
+  if (!userId) return null;
+
+  const settings = await getFeedSettings(userId);
+  if (!settings || !safeEqual(settings.token, token)) return null;
+
+  return { userId, settings };
+}
+
+export function getFeedPath(token: string): string {
+  return `/api/feeds/${token}.ics`;
+}
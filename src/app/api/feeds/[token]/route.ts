@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { createApiErrorResponse, createGoogleErrorResponse } from "../../utils";
+import {
+  DEFAULT_CALENDAR_ID,
+  getCalendarEvents,
+  syncCalendars,
+} from "../../calendar";
+import { resolveFeedToken } from "../../feeds";
+import { serializeCalendar } from "../../ics";
+import { getUserContext } from "../../session";
+import { getZonedDay } from "@/lib/timeZones";
+
+// Constants
+const FEED_NAME = "Calendar Sync";
+const REFRESH_INTERVAL_MINUTES = 60;
+const CACHE_SECONDS = 5 * 60;
+
+// Types
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// Main handler
+// Serve a user's events to calendar apps. The secret token in the URL is the
+// only credential, so unknown and revoked tokens look the same.
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const feed = await resolveFeedToken(token.replace(/\.ics$/, ""));
+    if (!feed) {
+      return createApiErrorResponse("not_found", "Feed not found");
+    }
+    const { userId, settings } = feed;
+
+    // Use the owner's stored Google credentials; there is no browser session
+    const context = await getUserContext(userId);
+    if (!context) {
+      return createApiErrorResponse(
+        "unauthenticated",
+        "The feed owner needs to sign in again"
+      );
+    }
+
+    const calendarIds = settings.calendarIds ?? [DEFAULT_CALENDAR_ID];
+    await syncCalendars(context.calendar, userId, calendarIds, {
+      timeZone: settings.timeZone,
+    });
+
+    const now = Date.now();
+    const { items } = getCalendarEvents(
+      userId,
+      calendarIds,
+      {
+        startDate: getZonedDay(now, settings.timeZone, -settings.pastDays),
+        endDate: getZonedDay(now, settings.timeZone, settings.futureDays),
+        timeZone: settings.timeZone,
+      },
+      { limit: Infinity }
+    );
+
+    const body = serializeCalendar(items, {
+      name: FEED_NAME,
+      refreshIntervalMinutes: REFRESH_INTERVAL_MINUTES,
+    });
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": `private, max-age=${CACHE_SECONDS}`,
+      },
+    });
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to build calendar feed");
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../utils";
+import {
+  FeedSettings,
+  getFeedPath,
+  getFeedSettings,
+  revokeFeed,
+  rotateFeedToken,
+  updateFeedSettings,
+  validateFeedSettings,
+} from "../feeds";
+import { getSession } from "../session";
+
+// Helper functions
+// The secret only leaves the server as part of the full feed URL
+function toFeedResponse(req: NextRequest, settings: FeedSettings | null) {
+  if (!settings) return null;
+
+  const { token, ...rest } = settings;
+  return { ...rest, url: new URL(getFeedPath(token), req.url).toString() };
+}
+
+// Main handlers
+// Manage the signed-in user's private feed
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const settings = await getFeedSettings(session.userId);
+    return createSuccessResponse(toFeedResponse(req, settings));
+  } catch (error) {
+    console.error("Feed settings error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to load feed settings"
+    );
+  }
+}
+
+// Create the feed, or rotate its URL when it already exists
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const input = await req.json().catch(() => ({}));
+    const validationError = validateFeedSettings(input);
+    if (validationError) {
+      return createApiErrorResponse("bad_request", validationError);
+    }
+
+    const settings = await rotateFeedToken(session.userId, input);
+    return createSuccessResponse(
+      toFeedResponse(req, settings),
+      "Feed URL created",
+      201
+    );
+  } catch (error) {
+    console.error("Feed rotation error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to create feed URL"
+    );
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const input = await req.json().catch(() => ({}));
+    const validationError = validateFeedSettings(input);
+    if (validationError) {
+      return createApiErrorResponse("bad_request", validationError);
+    }
+
+    const settings = await updateFeedSettings(session.userId, input);
+    if (!settings) {
+      return createApiErrorResponse("not_found", "No feed has been created");
+    }
+    return createSuccessResponse(toFeedResponse(req, settings), "Feed updated");
+  } catch (error) {
+    console.error("Feed update error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to update feed settings"
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    await revokeFeed(session.userId);
+    return createSuccessResponse(null, "Feed revoked");
+  } catch (error) {
+    console.error("Feed revocation error:", error);
+    return createApiErrorResponse("internal_error", "Failed to revoke feed");
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../utils";
+import { DateFilter, validateDateFilter } from "../calendar";
+import {
+  AvailabilityRequest,
+  BusyInterval,
+  MAX_WINDOW_DAYS,
+  findCandidateSlots,
+  queryFreeBusy,
+  validateAvailabilityRequest,
+} from "../availability";
+import { getSessionContext } from "../session";
+import {
+  DEFAULT_TIME_ZONE,
+  getZonedDay,
+  getZonedDayStart,
+} from "@/lib/timeZones";
+
+// Constants
+// Searched when the date filter has no range
+const DEFAULT_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper functions
+function toIsoInterval({ start, end }: BusyInterval) {
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+  };
+}
+
+// Main handler
+// Find meeting times for a group of attendees within a range of days
+export async function POST(req: NextRequest) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar } = context;
+
+    // Parse request body; the window uses the same days and zone as the
+    // events date filter
+    const body = await req.json().catch(() => ({}));
+    const validationError = validateAvailabilityRequest(body);
+    if (validationError) {
+      return createApiErrorResponse("bad_request", validationError);
+    }
+    const { attendees, durationMinutes, workingHours, includeWeekends } =
+      body as AvailabilityRequest;
+
+    const dateFilter: DateFilter = {
+      startDate: body.startDate,
+      endDate: body.endDate,
+      timeZone: body.timeZone || DEFAULT_TIME_ZONE,
+    };
+    const filterError = validateDateFilter(dateFilter);
+    if (filterError) {
+      return createApiErrorResponse("bad_request", filterError);
+    }
+
+    // Without a range, search the coming week
+    const now = Date.now();
+    const timeZone = dateFilter.timeZone!;
+    const startDate = dateFilter.startDate || getZonedDay(now, timeZone);
+    const endDate =
+      dateFilter.endDate ||
+      getZonedDay(
+        getZonedDayStart(startDate, timeZone),
+        timeZone,
+        DEFAULT_WINDOW_DAYS - 1
+      );
+
+    // Past times can't be booked, so start no earlier than now
+    const windowStart = Math.max(getZonedDayStart(startDate, timeZone), now);
+    const windowEnd = getZonedDayStart(endDate, timeZone, 1);
+    if (windowEnd <= windowStart) {
+      return createApiErrorResponse(
+        "bad_request",
+        "The date range is already over"
+      );
+    }
+    if (windowEnd - windowStart > MAX_WINDOW_DAYS * DAY_MS) {
+      return createApiErrorResponse(
+        "bad_request",
+        `Search at most ${MAX_WINDOW_DAYS} days at a time`
+      );
+    }
+
+    const availability = await queryFreeBusy(
+      calendar,
+      attendees,
+      windowStart,
+      windowEnd
+    );
+    const slots = findCandidateSlots({
+      attendees: availability,
+      windowStart,
+      windowEnd,
+      durationMinutes,
+      workingHours,
+      includeWeekends,
+    });
+
+    return createSuccessResponse({
+      attendees: availability.map(({ busy, ...attendee }) => ({
+        ...attendee,
+        busy: busy.map(toIsoInterval),
+      })),
+      slots: slots.map((slot) => ({ ...slot, ...toIsoInterval(slot) })),
+    });
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to check availability");
+  }
+}
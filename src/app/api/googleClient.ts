@@ -0,0 +1,113 @@
+import { Auth, calendar_v3, google } from "googleapis";
+import { classifyGoogleError, getRetryAfterMs } from "./utils";
+
+// Constants
+// Google's default per-user quota is 600 requests a minute; stay well below it
+const BUCKET_CAPACITY = 10;
+const REFILL_PER_SECOND = 5;
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Types
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+type RequestFn = Auth.OAuth2Client["request"];
+
+// Buckets live on globalThis so every route module shares the user's budget
+const globalBuckets = globalThis as unknown as {
+  googleRateLimitBuckets?: Map<string, TokenBucket>;
+};
+const buckets = (globalBuckets.googleRateLimitBuckets ??= new Map());
+
+// Helper functions
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function refill(bucket: TokenBucket, now: number): void {
+  const elapsed = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(
+    BUCKET_CAPACITY,
+    bucket.tokens + elapsed * REFILL_PER_SECOND
+  );
+  bucket.updatedAt = now;
+}
+
+// Wait until the user's bucket has a token, then take it
+async function acquireToken(userId: string): Promise<void> {
+  let bucket = buckets.get(userId);
+  if (!bucket) {
+    bucket = { tokens: BUCKET_CAPACITY, updatedAt: Date.now() };
+    buckets.set(userId, bucket);
+  }
+
+  for (;;) {
+    refill(bucket, Date.now());
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - bucket.tokens) / REFILL_PER_SECOND) * 1000);
+  }
+}
+
+// Exponential backoff with full jitter, never sooner than Google asked for
+function getBackoffDelay(attempt: number, error: unknown): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  const jittered = Math.random() * exponential;
+  return Math.max(jittered, getRetryAfterMs(error) ?? 0);
+}
+
+function isRetryable(error: unknown): boolean {
+  const code = classifyGoogleError(error);
+  return code === "rate_limited" || code === "upstream_unavailable";
+}
+
+// Run a Google call under the user's rate limit, retrying quota and
+// availability errors. Gives up early when Google asks for a longer pause
+// than MAX_BACKOFF_MS, so the browser can be told to come back later.
+export async function withRateLimit<T>(
+  userId: string,
+  call: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(userId);
+
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt + 1 >= MAX_ATTEMPTS || !isRetryable(error)) throw error;
+
+      const delay = getBackoffDelay(attempt, error);
+      if (delay > MAX_BACKOFF_MS) throw error;
+
+      console.warn(
+        `Google API ${classifyGoogleError(error)}; retrying in ${Math.round(
+          delay
+        )}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+// Calendar client whose every request goes through withRateLimit. googleapis
+// sends all requests through the auth client, so that is where we hook in.
+export function createCalendarClient(
+  userId: string,
+  auth: Auth.OAuth2Client
+): calendar_v3.Calendar {
+  const request = auth.request.bind(auth) as RequestFn;
+
+  // Gaxios' own retries would multiply with ours, so they are turned off
+  auth.request = ((options: Parameters<RequestFn>[0]) =>
+    withRateLimit(userId, () =>
+      request({ ...options, retry: false })
+    )) as RequestFn;
+
+  return google.calendar({ version: "v3", auth });
+}
@@ -0,0 +1,97 @@
+import { calendar_v3 } from "googleapis";
+import { CalendarSummary } from "./calendar";
+import { StoredEvent } from "./eventStore";
+import { CalendarProvider } from "./providers";
+
+// Constants
+const PAGE_SIZE = 250;
+const HTTP_NOT_FOUND = 404;
+const HTTP_GONE = 410;
+
+// Helper functions
+async function listGoogleCalendars(
+  calendar: calendar_v3.Calendar
+): Promise<CalendarSummary[]> {
+  const calendars: CalendarSummary[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await calendar.calendarList.list({
+      maxResults: PAGE_SIZE,
+      pageToken,
+    });
+
+    for (const entry of response.data.items || []) {
+      if (!entry.id) continue;
+      calendars.push({
+        id: entry.id,
+        summary: entry.summaryOverride || entry.summary || entry.id,
+        description: entry.description || undefined,
+        backgroundColor: entry.backgroundColor || undefined,
+        foregroundColor: entry.foregroundColor || undefined,
+        primary: !!entry.primary,
+        selected: !!entry.selected,
+        accessRole: entry.accessRole || undefined,
+        provider: "google",
+      });
+    }
+
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return calendars;
+}
+
+// Google Calendar, through the user's rate-limited client
+export function createGoogleProvider(
+  calendar: calendar_v3.Calendar
+): CalendarProvider {
+  return {
+    id: "google",
+
+    listCalendars: () => listGoogleCalendars(calendar),
+
+    async syncEvents(calendarId, syncToken, options = {}) {
+      const events: StoredEvent[] = [];
+      let pageToken: string | undefined;
+      let nextSyncToken: string | null | undefined;
+
+      // Page through the full result set; the sync token arrives on the last
+      // page
+      do {
+        const response = await calendar.events.list({
+          calendarId,
+          singleEvents: true,
+          maxResults: PAGE_SIZE,
+          pageToken,
+          timeZone: options.timeZone,
+          ...(syncToken ? { syncToken } : {}),
+        });
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+        nextSyncToken = response.data.nextSyncToken;
+      } while (pageToken);
+
+      return { events, syncToken: nextSyncToken };
+    },
+
+    getSeries(calendarId, seriesIds) {
+      return Promise.all(
+        seriesIds.map(async (eventId) => {
+          try {
+            const { data } = await calendar.events.get({ calendarId, eventId });
+            return data;
+          } catch (error) {
+            const code = (error as { code?: number })?.code;
+            // A series deleted since the sync is simply no longer cached
+            if (code === HTTP_NOT_FOUND || code === HTTP_GONE) {
+              return { id: eventId, status: "cancelled" };
+            }
+            throw error;
+          }
+        })
+      );
+    },
+  };
+}
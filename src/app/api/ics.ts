@@ -0,0 +1,704 @@
+import { calendar_v3 } from "googleapis";
+import { CalendarEvent, EventTimeInput, ImportEventInput } from "./calendar";
+import { getZonedInstant, isValidTimeZone } from "@/lib/timeZones";
+
+// iCalendar (RFC 5545) serialization and parsing
+
+// Constants
+const PRODUCT_ID = "-//Calendar Sync//Calendar Sync//EN";
+const LINE_BREAK = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+const STATUS_MAP: Record<string, string> = {
+  confirmed: "CONFIRMED",
+  tentative: "TENTATIVE",
+  cancelled: "CANCELLED",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DURATION_VALUE =
+  /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+// Types
+export interface IcsCalendarOptions {
+  name?: string;
+  now?: Date;
+  // How often subscribers should poll, for published feeds
+  refreshIntervalMinutes?: number;
+}
+
+export interface IcsEvent extends ImportEventInput {
+  // Set on a modified occurrence of a recurring event: the series it belongs
+  // to and the start it replaces
+  recurrenceOf?: { iCalUID: string; originalStart: EventTimeInput };
+}
+
+export interface IcsParseResult {
+  events: IcsEvent[];
+  // Components that could not be turned into events, described for the user
+  errors: string[];
+}
+
+export interface IcsParseOptions {
+  // Zone for floating times, and for recurring events without a known zone
+  timeZone: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  components: Component[];
+}
+
+// One STANDARD or DAYLIGHT block of a VTIMEZONE
+interface Observance {
+  start: number; // Wall-clock time the rule first applies, as if UTC
+  offsetTo: number;
+  rule: Record<string, string> | null;
+}
+
+interface IcsTimeZone {
+  location?: string; // IANA name, when the producer supplied one
+  observances: Observance[];
+}
+
+// Helper functions
+const encoder = new TextEncoder();
+
+// Escape a TEXT value: backslashes, separators and newlines (RFC 5545 3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+// Fold a content line to 75 octets, continuing with a leading space
+// (RFC 5545 3.1). Multi-byte characters are never split.
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${LINE_BREAK} `);
+}
+
+// 20250714T090000Z
+function formatUtcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// 20250714
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+// A DATE or DATE-TIME property; timed values are written in UTC so the file
+// needs no VTIMEZONE definitions
+function formatTimeProperty(
+  name: string,
+  time?: calendar_v3.Schema$EventDateTime
+): string | null {
+  if (time?.dateTime) {
+    return `${name}:${formatUtcDateTime(new Date(time.dateTime))}`;
+  }
+  if (time?.date) {
+    return `${name};VALUE=DATE:${formatDate(time.date)}`;
+  }
+  return null;
+}
+
+function textProperty(name: string, value?: string | null): string | null {
+  return value ? `${name}:${escapeText(value)}` : null;
+}
+
+function serializeEvent(event: CalendarEvent, now: Date): string[] {
+  // Instances of a recurring event share the series UID and are told apart
+  // by their RECURRENCE-ID
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.iCalUID || `${event.id}@calendar-sync`}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    formatTimeProperty("DTSTART", event.start ?? undefined),
+    formatTimeProperty("DTEND", event.end ?? undefined),
+    event.recurringEventId
+      ? formatTimeProperty("RECURRENCE-ID", event.originalStartTime)
+      : null,
+    textProperty("SUMMARY", event.summary),
+    textProperty("DESCRIPTION", event.description),
+    textProperty("LOCATION", event.location),
+    event.status && STATUS_MAP[event.status]
+      ? `STATUS:${STATUS_MAP[event.status]}`
+      : null,
+    event.sequence != null ? `SEQUENCE:${event.sequence}` : null,
+    event.created
+      ? `CREATED:${formatUtcDateTime(new Date(event.created))}`
+      : null,
+    event.updated
+      ? `LAST-MODIFIED:${formatUtcDateTime(new Date(event.updated))}`
+      : null,
+    event.htmlLink ? `URL:${event.htmlLink}` : null,
+    "END:VEVENT",
+  ];
+
+  return lines.filter((line): line is string => line !== null);
+}
+
+// Build a complete VCALENDAR document from the given events
+export function serializeCalendar(
+  events: CalendarEvent[],
+  options: IcsCalendarOptions = {}
+): string {
+  const now = options.now ?? new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    textProperty("X-WR-CALNAME", options.name),
+    ...(options.refreshIntervalMinutes
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalMinutes}M`,
+          `X-PUBLISHED-TTL:PT${options.refreshIntervalMinutes}M`,
+        ]
+      : []),
+    ...events
+      .filter((event) => event.start?.dateTime || event.start?.date)
+      .flatMap((event) => serializeEvent(event, now)),
+    "END:VCALENDAR",
+  ];
+
+  return (
+    lines
+      .filter((line): line is string => line !== null)
+      .map(foldLine)
+      .join(LINE_BREAK) + LINE_BREAK
+  );
+}
+
+// Parsing helpers
+// Undo line folding and split into content lines
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+}
+
+// Split a content line into name, parameters and value. Parameter values may
+// be quoted and contain ":" or ";"
+function parseContentLine(line: string): ContentLine | null {
+  const segments: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === ":") {
+      valueStart = i + 1;
+      break;
+    }
+    if (!inQuotes && char === ";") {
+      segments.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (valueStart < 0) return null;
+  segments.push(current);
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart) };
+}
+
+function parseComponents(lines: string[]): Component[] {
+  const root: Component = { name: "ROOT", properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of lines) {
+    const contentLine = parseContentLine(line);
+    if (!contentLine) continue;
+
+    const current = stack[stack.length - 1];
+    if (contentLine.name === "BEGIN") {
+      const component: Component = {
+        name: contentLine.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (contentLine.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(contentLine);
+    }
+  }
+
+  return root.components;
+}
+
+function getProperty(
+  component: Component,
+  name: string
+): ContentLine | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function getText(component: Component, name: string): string | undefined {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+function parseRule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, ruleValue] = part.split("=");
+    if (key && ruleValue) rule[key.toUpperCase()] = ruleValue.toUpperCase();
+  }
+  return rule;
+}
+
+// "+0530" or "-080000" in milliseconds
+function parseUtcOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) return 0;
+  const [, sign, hours, minutes, seconds] = match;
+  const offset =
+    (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0)) * 1000;
+  return sign === "-" ? -offset : offset;
+}
+
+function parseDuration(value: string): number | null {
+  const match = DURATION_VALUE.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const duration =
+    ((Number(weeks || 0) * 7 + Number(days || 0)) * 86400 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) *
+    1000;
+  return sign === "-" ? -duration : duration;
+}
+
+function parseWallClock(value: string): number | null {
+  const match = DATE_TIME_VALUE.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+}
+
+function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Day of the month for a BYDAY entry such as "2SU" or "-1SU"
+function getRuleDay(
+  year: number,
+  month: number,
+  byDay: string,
+  byMonthDay?: string
+): number | null {
+  const match = /^([+-]?\d)?([A-Z]{2})$/.exec(byDay);
+  const weekday = match ? WEEKDAYS.indexOf(match[2]) : -1;
+  if (weekday < 0) return null;
+
+  // Older rules pick the weekday within a span of days, e.g. BYMONTHDAY=8,..,14
+  if (byMonthDay) {
+    const day = byMonthDay
+      .split(",")
+      .map(Number)
+      .find((d) => new Date(Date.UTC(year, month, d)).getUTCDay() === weekday);
+    return day ?? null;
+  }
+
+  const n = Number(match?.[1] || 1);
+  if (n > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const lastWeekday = new Date(Date.UTC(year, month, lastDay)).getUTCDay();
+  return lastDay - ((lastWeekday - weekday + 7) % 7) + (n + 1) * 7;
+}
+
+// When an observance takes effect in a given year, as a wall-clock time
+function getObservanceOnset(
+  observance: Observance,
+  year: number
+): number | null {
+  const start = new Date(observance.start);
+  if (!observance.rule) {
+    return start.getUTCFullYear() === year ? observance.start : null;
+  }
+  if (year < start.getUTCFullYear()) return null;
+
+  const { BYMONTH, BYDAY, BYMONTHDAY, UNTIL } = observance.rule;
+  const month = BYMONTH ? Number(BYMONTH) - 1 : start.getUTCMonth();
+  const day = BYDAY
+    ? getRuleDay(year, month, BYDAY, BYMONTHDAY)
+    : Number(BYMONTHDAY || start.getUTCDate());
+  if (day === null) return null;
+
+  const onset = Date.UTC(
+    year,
+    month,
+    day,
+    start.getUTCHours(),
+    start.getUTCMinutes(),
+    start.getUTCSeconds()
+  );
+  const until = UNTIL ? parseWallClock(UNTIL) : null;
+  return until !== null && onset > until ? null : onset;
+}
+
+// Offset from UTC in force at a wall-clock time, per the latest observance
+// that started on or before it
+function getObservanceOffset(timeZone: IcsTimeZone, wallClock: number): number {
+  const year = new Date(wallClock).getUTCFullYear();
+  let latest: { onset: number; offset: number } | null = null;
+
+  for (const observance of timeZone.observances) {
+    for (const candidateYear of [year - 1, year]) {
+      const onset = getObservanceOnset(observance, candidateYear);
+      if (
+        onset !== null &&
+        onset <= wallClock &&
+        onset > (latest?.onset ?? -Infinity)
+      ) {
+        latest = { onset, offset: observance.offsetTo };
+      }
+    }
+  }
+
+  return latest?.offset ?? timeZone.observances[0]?.offsetTo ?? 0;
+}
+
+function parseTimeZones(components: Component[]): Map<string, IcsTimeZone> {
+  const timeZones = new Map<string, IcsTimeZone>();
+
+  for (const component of components) {
+    const id = getProperty(component, "TZID")?.value;
+    if (component.name !== "VTIMEZONE" || !id) continue;
+
+    const location = getProperty(component, "X-LIC-LOCATION")?.value;
+    const observances = component.components
+      .filter(({ name }) => name === "STANDARD" || name === "DAYLIGHT")
+      .map((observance) => {
+        const rule = getProperty(observance, "RRULE")?.value;
+        return {
+          start:
+            parseWallClock(getProperty(observance, "DTSTART")?.value ?? "") ??
+            0,
+          offsetTo: parseUtcOffset(
+            getProperty(observance, "TZOFFSETTO")?.value ?? ""
+          ),
+          rule: rule ? parseRule(rule) : null,
+        };
+      });
+
+    timeZones.set(id, {
+      location: location && isValidTimeZone(location) ? location : undefined,
+      observances,
+    });
+  }
+
+  return timeZones;
+}
+
+// Resolve a DATE or DATE-TIME value: UTC, in a TZID zone (IANA or defined by
+// a VTIMEZONE) or floating in the fallback zone
+function parseTimeValue(
+  value: string,
+  params: Record<string, string>,
+  timeZones: Map<string, IcsTimeZone>,
+  fallbackTimeZone: string
+): EventTimeInput | null {
+  const dateMatch = DATE_VALUE.exec(value);
+  if (dateMatch || params.VALUE === "DATE") {
+    if (!dateMatch) return null;
+    const [, year, month, day] = dateMatch;
+    return { date: `${year}-${month}-${day}` };
+  }
+
+  const wallClock = parseWallClock(value);
+  if (wallClock === null) return null;
+  if (value.endsWith("Z")) {
+    return { dateTime: new Date(wallClock).toISOString() };
+  }
+
+  // Some producers prefix a "/" to mark globally unique zone names
+  const tzid = params.TZID?.replace(/^\//, "");
+  const definition = tzid ? timeZones.get(tzid) : undefined;
+  const ianaZone =
+    tzid && isValidTimeZone(tzid)
+      ? tzid
+      : (definition?.location ?? (tzid ? undefined : fallbackTimeZone));
+
+  if (ianaZone) {
+    return {
+      dateTime: new Date(getZonedInstant(wallClock, ianaZone)).toISOString(),
+      timeZone: ianaZone,
+    };
+  }
+  if (definition) {
+    return {
+      dateTime: new Date(
+        wallClock - getObservanceOffset(definition, wallClock)
+      ).toISOString(),
+    };
+  }
+  return null;
+}
+
+// EXDATE and RDATE lines with every value normalized to UTC or a bare date,
+// so Google does not need to know the original zone names
+function normalizeDateList(
+  property: ContentLine,
+  timeZones: Map<string, IcsTimeZone>,
+  fallbackTimeZone: string
+): string[] {
+  return property.value.split(",").flatMap((value) => {
+    const time = parseTimeValue(
+      value.trim(),
+      property.params,
+      timeZones,
+      fallbackTimeZone
+    );
+    if (time?.date) {
+      return [`${property.name};VALUE=DATE:${formatDate(time.date)}`];
+    }
+    if (time?.dateTime) {
+      return [`${property.name}:${formatUtcDateTime(new Date(time.dateTime))}`];
+    }
+    return [];
+  });
+}
+
+function getEventEnd(
+  component: Component,
+  start: EventTimeInput,
+  resolve: (property?: ContentLine) => EventTimeInput | null
+): EventTimeInput | null {
+  const end = resolve(getProperty(component, "DTEND"));
+  if (end) return end;
+
+  const duration = parseDuration(
+    getProperty(component, "DURATION")?.value ?? ""
+  );
+  if (start.date) {
+    // All-day events default to one day; Google's end dates are exclusive
+    const days = duration !== null ? Math.round(duration / DAY_MS) : 1;
+    return { date: addDaysToDate(start.date, Math.max(days, 1)) };
+  }
+
+  const startTime = new Date(start.dateTime!).getTime();
+  return {
+    dateTime: new Date(startTime + (duration ?? 0)).toISOString(),
+    timeZone: start.timeZone,
+  };
+}
+
+function describeComponent(component: Component, index: number): string {
+  const summary = getText(component, "SUMMARY");
+  return summary ? `"${summary}"` : `Event ${index + 1}`;
+}
+
+// Parse the VEVENTs of an iCalendar file into events Google can import.
+// Modified occurrences of a series become standalone events, and the series
+// skips the dates they replace.
+export function parseCalendar(
+  text: string,
+  options: IcsParseOptions
+): IcsParseResult {
+  const calendars = parseComponents(unfoldLines(text)).filter(
+    ({ name }) => name === "VCALENDAR"
+  );
+  const components = calendars.flatMap((calendar) => calendar.components);
+  const timeZones = parseTimeZones(components);
+  const resolve = (property?: ContentLine) =>
+    property
+      ? parseTimeValue(
+          property.value,
+          property.params,
+          timeZones,
+          options.timeZone
+        )
+      : null;
+
+  const events = new Map<string, IcsEvent>();
+  const errors: string[] = [];
+
+  components
+    .filter(({ name }) => name === "VEVENT")
+    .forEach((component, index) => {
+      const label = describeComponent(component, index);
+      const uid = getProperty(component, "UID")?.value?.trim();
+      const start = resolve(getProperty(component, "DTSTART"));
+      const status = getProperty(component, "STATUS")?.value?.toLowerCase();
+
+      if (!uid) {
+        errors.push(`${label} has no UID`);
+        return;
+      }
+      if (!start) {
+        errors.push(`${label} has no valid start time`);
+        return;
+      }
+      const end = getEventEnd(component, start, resolve);
+      if (!end) {
+        errors.push(`${label} has no valid end time`);
+        return;
+      }
+
+      const recurrence = component.properties.flatMap((property) => {
+        if (property.name === "RRULE") return [`RRULE:${property.value}`];
+        if (property.name === "EXDATE" || property.name === "RDATE") {
+          return normalizeDateList(property, timeZones, options.timeZone);
+        }
+        return [];
+      });
+
+      const event: IcsEvent = {
+        iCalUID: uid,
+        summary: getText(component, "SUMMARY") ?? "",
+        description: getText(component, "DESCRIPTION"),
+        location: getText(component, "LOCATION"),
+        start,
+        end,
+        status:
+          status === "tentative" || status === "cancelled"
+            ? status
+            : "confirmed",
+      };
+
+      if (recurrence.length) {
+        // Google needs a zone to expand a series in
+        event.recurrence = recurrence;
+        if (start.dateTime && !start.timeZone) {
+          event.start = { ...start, timeZone: options.timeZone };
+          event.end = { ...end, timeZone: options.timeZone };
+        }
+      }
+
+      const recurrenceId = getProperty(component, "RECURRENCE-ID");
+      const originalStart = resolve(recurrenceId);
+      if (recurrenceId && originalStart) {
+        event.iCalUID = `${uid}-${recurrenceId.value}`;
+        event.recurrenceOf = { iCalUID: uid, originalStart };
+      }
+
+      // Cancelled events only matter as exceptions to their series
+      if (status === "cancelled" && !event.recurrenceOf) return;
+
+      // Later copies of the same event replace earlier ones
+      events.set(event.iCalUID, event);
+    });
+
+  // Keep each series from also producing the occurrences that were moved
+  // or cancelled
+  const result = Array.from(events.values());
+  for (const event of result) {
+    const master = event.recurrenceOf && events.get(event.recurrenceOf.iCalUID);
+    if (!master?.recurrence) continue;
+
+    const { originalStart } = event.recurrenceOf!;
+    master.recurrence.push(
+      originalStart.date
+        ? `EXDATE;VALUE=DATE:${formatDate(originalStart.date)}`
+        : `EXDATE:${formatUtcDateTime(new Date(originalStart.dateTime!))}`
+    );
+  }
+
+  return {
+    events: result.filter((event) => event.status !== "cancelled"),
+    errors,
+  };
+}
+
+// Keys identifying events already in a calendar: each iCalUID, plus
+// iCalUID@start for single occurrences of recurring events
+function getEventKey(iCalUID: string, originalStart: EventTimeInput): string {
+  const value = originalStart.dateTime ?? originalStart.date ?? "";
+  return `${iCalUID}@${originalStart.dateTime ? new Date(value).getTime() : value}`;
+}
+
+// UIDs of parsed events that the calendar already contains
+export function findExistingEvents(
+  events: IcsEvent[],
+  existing: CalendarEvent[]
+): Set<string> {
+  const keys = new Set<string>();
+  for (const event of existing) {
+    if (!event.iCalUID) continue;
+    keys.add(event.iCalUID);
+    if (event.originalStartTime) {
+      keys.add(
+        getEventKey(event.iCalUID, event.originalStartTime as EventTimeInput)
+      );
+    }
+  }
+
+  return new Set(
+    events
+      .filter(
+        (event) =>
+          keys.has(event.iCalUID) ||
+          (event.recurrenceOf &&
+            keys.has(
+              getEventKey(
+                event.recurrenceOf.iCalUID,
+                event.recurrenceOf.originalStart
+              )
+            ))
+      )
+      .map((event) => event.iCalUID)
+  );
+}
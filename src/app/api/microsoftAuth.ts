@@ -0,0 +1,225 @@
+import { getJson, getStore, setJson } from "./store";
+import { HttpError, createHttpError, toHttpError } from "./utils";
+import { isExpiringSoon } from "@/lib/tokens";
+
+// Outlook access for a signed-in user. The app's session stays tied to the
+// Google account; a Microsoft account is connected to it from Settings, and
+// its tokens are kept server-side next to the Google ones.
+
+// Constants
+const AUTHORITY_URL = "https://login.microsoftonline.com";
+const DEFAULT_TENANT = "common";
+const GRAPH_ME_URL = "https://graph.microsoft.com/v1.0/me";
+const CREDENTIALS_PREFIX = "microsoft-credentials:";
+// Read-only calendar access, plus a refresh token and the account's name
+export const MICROSOFT_SCOPES = [
+  "offline_access",
+  "User.Read",
+  "Calendars.Read",
+];
+const HTTP_FORBIDDEN = 403;
+
+// Types
+export interface MicrosoftAccount {
+  email?: string;
+  name?: string;
+}
+
+export interface MicrosoftCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  expiryDate?: number;
+  scope?: string;
+  account: MicrosoftAccount;
+  updatedAt: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+// Helper functions
+function getTokenUrl(): string {
+  const tenant = process.env.MICROSOFT_TENANT_ID || DEFAULT_TENANT;
+  return `${AUTHORITY_URL}/${tenant}/oauth2/v2.0/token`;
+}
+
+export function isMicrosoftConfigured(): boolean {
+  return !!(
+    process.env.MICROSOFT_CLIENT_ID &&
+    process.env.MICROSOFT_CLIENT_SECRET &&
+    process.env.MICROSOFT_REDIRECT_URI
+  );
+}
+
+// Reported as forbidden rather than unauthenticated: the Google session is
+// still fine, only the Outlook connection needs attention
+export function createReconnectError(message: string): HttpError {
+  return createHttpError(HTTP_FORBIDDEN, message);
+}
+
+// Microsoft's authorization URL, with the state nonce and PKCE challenge
+export function getMicrosoftAuthUrl(
+  state: string,
+  codeChallenge: string
+): string {
+  const tenant = process.env.MICROSOFT_TENANT_ID || DEFAULT_TENANT;
+  const params = new URLSearchParams({
+    client_id: process.env.MICROSOFT_CLIENT_ID || "",
+    response_type: "code",
+    redirect_uri: process.env.MICROSOFT_REDIRECT_URI || "",
+    response_mode: "query",
+    scope: MICROSOFT_SCOPES.join(" "),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+    prompt: "select_account",
+  });
+  return `${AUTHORITY_URL}/${tenant}/oauth2/v2.0/authorize?${params}`;
+}
+
+async function requestTokens(
+  params: Record<string, string>
+): Promise<TokenResponse> {
+  const response = await fetch(getTokenUrl(), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: process.env.MICROSOFT_CLIENT_ID || "",
+      client_secret: process.env.MICROSOFT_CLIENT_SECRET || "",
+      scope: MICROSOFT_SCOPES.join(" "),
+      ...params,
+    }),
+  });
+
+  if (!response.ok) {
+    throw await toHttpError(response, "Microsoft token request failed");
+  }
+  return response.json();
+}
+
+async function fetchAccount(accessToken: string): Promise<MicrosoftAccount> {
+  const response = await fetch(GRAPH_ME_URL, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) {
+    throw await toHttpError(response, "Unable to resolve Microsoft account");
+  }
+
+  const data = await response.json();
+  return {
+    email: data.mail || data.userPrincipalName || undefined,
+    name: data.displayName || undefined,
+  };
+}
+
+// Credentials
+export async function getMicrosoftCredentials(
+  userId: string
+): Promise<MicrosoftCredentials | null> {
+  return getJson<MicrosoftCredentials>(`${CREDENTIALS_PREFIX}${userId}`);
+}
+
+export async function isMicrosoftConnected(userId: string): Promise<boolean> {
+  return !!(await getMicrosoftCredentials(userId));
+}
+
+// Merge fresh tokens into the stored credentials. Microsoft rotates refresh
+// tokens, so the newest one always replaces the old.
+async function saveMicrosoftCredentials(
+  userId: string,
+  tokens: TokenResponse,
+  account?: MicrosoftAccount
+): Promise<MicrosoftCredentials> {
+  const existing = await getMicrosoftCredentials(userId);
+  const credentials: MicrosoftCredentials = {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token || existing?.refreshToken,
+    expiryDate: tokens.expires_in
+      ? Date.now() + tokens.expires_in * 1000
+      : undefined,
+    scope: tokens.scope || existing?.scope,
+    account: account ?? existing?.account ?? {},
+    updatedAt: Date.now(),
+  };
+
+  await setJson(`${CREDENTIALS_PREFIX}${userId}`, credentials);
+  return credentials;
+}
+
+// Finish the consent round trip: exchange the code and remember the account
+export async function connectMicrosoftAccount(
+  userId: string,
+  code: string,
+  codeVerifier: string
+): Promise<MicrosoftCredentials> {
+  const tokens = await requestTokens({
+    grant_type: "authorization_code",
+    code,
+    code_verifier: codeVerifier,
+    redirect_uri: process.env.MICROSOFT_REDIRECT_URI || "",
+  });
+  const account = await fetchAccount(tokens.access_token);
+  return saveMicrosoftCredentials(userId, tokens, account);
+}
+
+export async function disconnectMicrosoftAccount(
+  userId: string
+): Promise<void> {
+  await getStore().delete(`${CREDENTIALS_PREFIX}${userId}`);
+}
+
+// Refreshes in flight, keyed by user, so concurrent requests share one call
+const globalRefreshes = globalThis as unknown as {
+  microsoftTokenRefreshes?: Map<string, Promise<MicrosoftCredentials>>;
+};
+const pendingRefreshes = (globalRefreshes.microsoftTokenRefreshes ??=
+  new Map());
+
+async function refreshMicrosoftCredentials(
+  userId: string,
+  credentials: MicrosoftCredentials
+): Promise<MicrosoftCredentials> {
+  if (!credentials.refreshToken) {
+    throw createReconnectError("Outlook access has expired; reconnect it");
+  }
+
+  try {
+    const tokens = await requestTokens({
+      grant_type: "refresh_token",
+      refresh_token: credentials.refreshToken,
+    });
+    return await saveMicrosoftCredentials(userId, tokens);
+  } catch (error) {
+    // A revoked grant only affects Outlook, not the user's session
+    if ((error as HttpError).response?.status === 400) {
+      throw createReconnectError("Outlook access was revoked; reconnect it");
+    }
+    throw error;
+  }
+}
+
+// An access token that is good for a few more minutes, refreshing it first
+// when needed. Fails when Outlook isn't connected or must be reconnected.
+export async function getMicrosoftAccessToken(userId: string): Promise<string> {
+  const credentials = await getMicrosoftCredentials(userId);
+  if (!credentials) {
+    throw createReconnectError("Outlook is not connected");
+  }
+  if (!isExpiringSoon(credentials.expiryDate)) return credentials.accessToken;
+
+  let refresh = pendingRefreshes.get(userId);
+  if (!refresh) {
+    refresh = refreshMicrosoftCredentials(userId, credentials);
+    pendingRefreshes.set(userId, refresh);
+  }
+
+  try {
+    return (await refresh).accessToken;
+  } finally {
+    pendingRefreshes.delete(userId);
+  }
+}
@@ -0,0 +1,301 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { calendar_v3 } from "googleapis";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { syncCalendar } from "./calendar";
+import { getSyncState, listStoredEvents } from "./eventStore";
+import { createMicrosoftProvider, toStoredEvent } from "./microsoftProvider";
+import { readSyncToken, stampSyncToken } from "./providers";
+
+vi.mock("./microsoftAuth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./microsoftAuth")>()),
+  getMicrosoftAccessToken: async () => "graph-access-token",
+}));
+
+// Recorded Microsoft Graph responses
+function loadFixture(name: string) {
+  return JSON.parse(
+    readFileSync(
+      path.join(__dirname, "__fixtures__", "microsoft", `${name}.json`),
+      "utf8"
+    )
+  );
+}
+
+const firstPage = loadFixture("calendar-view-delta-page-1");
+const lastPage = loadFixture("calendar-view-delta-page-2");
+const changes = loadFixture("calendar-view-delta-changes");
+const seriesMasters = loadFixture("series-masters");
+const syncStateNotFound = loadFixture("sync-state-not-found");
+
+const CALENDAR_ID = "microsoft:AAMkAGI2TGuLAAA=";
+const CALENDAR_URL =
+  "https://graph.microsoft.com/v1.0/me/calendars/AAMkAGI2TGuLAAA%3D";
+const DELTA_LINK = lastPage["@odata.deltaLink"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function findEvent(page: { value: { id: string }[] }, id: string) {
+  const event = page.value.find((entry) => entry.id === id);
+  if (!event) throw new Error(`Missing fixture event ${id}`);
+  return event;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("toStoredEvent", () => {
+  it("maps a timed event onto Google's event shape", () => {
+    const event = toStoredEvent(
+      findEvent(firstPage, "AAMkAGI2TGuLAAA-standup")
+    );
+
+    expect(event).toMatchObject({
+      id: "AAMkAGI2TGuLAAA-standup",
+      status: "confirmed",
+      summary: "Design review",
+      location: "Conference Room 4",
+      start: { dateTime: "2025-01-06T14:00:00.000Z", timeZone: "UTC" },
+      end: { dateTime: "2025-01-06T15:00:00.000Z", timeZone: "UTC" },
+      organizer: { email: "adelev@contoso.com", displayName: "Adele Vance" },
+      reminders: {
+        useDefault: false,
+        overrides: [{ method: "popup", minutes: 15 }],
+      },
+      transparency: "opaque",
+      visibility: "default",
+    });
+    expect(event.attendees?.map((attendee) => attendee.responseStatus)).toEqual(
+      ["accepted", "needsAction", "tentative"]
+    );
+    expect(event.attendees?.[1].optional).toBe(true);
+    expect(event.attendees?.[2].resource).toBe(true);
+    expect(event.conferenceData?.entryPoints?.[0].uri).toContain(
+      "teams.microsoft.com"
+    );
+  });
+
+  it("maps all-day events onto dates", () => {
+    const event = toStoredEvent(
+      findEvent(firstPage, "AAMkAGI2TGuLAAA-offsite")
+    );
+
+    expect(event.start).toEqual({ date: "2025-01-09" });
+    expect(event.end).toEqual({ date: "2025-01-11" });
+    expect(event.reminders?.overrides).toEqual([]);
+    expect(event.visibility).toBe("private");
+  });
+
+  it("marks free time as transparent", () => {
+    const event = toStoredEvent(
+      findEvent(firstPage, "AAMkAGI2TGuLAAA-offsite")
+    );
+
+    expect(event.transparency).toBe("transparent");
+  });
+
+  it("links occurrences to their series", () => {
+    const event = toStoredEvent(
+      findEvent(lastPage, "AAMkAGI2TGuLAAA-weekly-20250107")
+    );
+
+    expect(event.recurringEventId).toBe("AAMkAGI2TGuLAAA-weekly");
+    expect(event.originalStartTime).toEqual({
+      dateTime: "2025-01-07T09:00:00.000Z",
+    });
+  });
+
+  it("turns removed events into cancellations", () => {
+    expect(
+      toStoredEvent(findEvent(changes, "AAMkAGI2TGuLAAA-standup"))
+    ).toEqual({ id: "AAMkAGI2TGuLAAA-standup", status: "cancelled" });
+  });
+
+  it("turns cancelled events into cancellations", () => {
+    expect(
+      toStoredEvent(findEvent(changes, "AAMkAGI2TGuLAAA-offsite"))
+    ).toEqual({ id: "AAMkAGI2TGuLAAA-offsite", status: "cancelled" });
+  });
+});
+
+describe("recurrence rules", () => {
+  const ruleFor = (id: string) =>
+    toStoredEvent(findEvent(seriesMasters, id)).recurrence;
+
+  it("maps daily patterns with no end", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-daily")).toEqual([
+      "RRULE:FREQ=DAILY;INTERVAL=2",
+    ]);
+  });
+
+  it("maps weekly patterns with an end date", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-weekly")).toEqual([
+      "RRULE:FREQ=WEEKLY;BYDAY=TU,TH;WKST=MO;UNTIL=20250630T235959Z",
+    ]);
+  });
+
+  it("maps absolute monthly patterns with an occurrence count", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-monthly")).toEqual([
+      "RRULE:FREQ=MONTHLY;BYMONTHDAY=15;COUNT=12",
+    ]);
+  });
+
+  it("maps relative monthly patterns", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-retro")).toEqual([
+      "RRULE:FREQ=MONTHLY;BYDAY=-1FR;INTERVAL=3",
+    ]);
+  });
+
+  it("maps absolute yearly patterns", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-renewal")).toEqual([
+      "RRULE:FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=1;COUNT=5",
+    ]);
+  });
+
+  it("ends all-day series on a date", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-holiday")).toEqual([
+      "RRULE:FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=24;UNTIL=20281224",
+    ]);
+  });
+
+  it("maps relative yearly patterns", () => {
+    expect(ruleFor("AAMkAGI2TGuLAAA-planning")).toEqual([
+      "RRULE:FREQ=YEARLY;BYMONTH=9;BYDAY=2MO;UNTIL=20271231T235959Z",
+    ]);
+  });
+});
+
+describe("syncEvents", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+  // Whether Graph still accepts the recorded delta link
+  let isDeltaLinkValid: boolean;
+
+  const requestedUrls = () =>
+    fetchMock.mock.calls.map(([input]) => String(input));
+
+  beforeEach(() => {
+    isDeltaLinkValid = true;
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockImplementation(async (input) => {
+      const url = String(input);
+      if (url === firstPage["@odata.nextLink"]) return jsonResponse(lastPage);
+      if (url === DELTA_LINK) {
+        return isDeltaLinkValid
+          ? jsonResponse(changes)
+          : jsonResponse(syncStateNotFound, 410);
+      }
+      if (url.includes("/calendarView/delta?startDateTime=")) {
+        return jsonResponse(firstPage);
+      }
+
+      const seriesId = decodeURIComponent(url.split("/me/events/")[1] || "");
+      const master = seriesMasters.value.find(
+        (entry: { id: string }) => entry.id === seriesId
+      );
+      return master
+        ? jsonResponse(master)
+        : jsonResponse({ error: { code: "ErrorItemNotFound" } }, 404);
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  it("follows next links up to the delta link", async () => {
+    const provider = createMicrosoftProvider("paging-user");
+
+    const { events, syncToken } = await provider.syncEvents(CALENDAR_ID);
+
+    expect(readSyncToken(syncToken!).syncToken).toBe(DELTA_LINK);
+    expect(events.map((event) => event.id)).toEqual([
+      "AAMkAGI2TGuLAAA-standup",
+      "AAMkAGI2TGuLAAA-offsite",
+      "AAMkAGI2TGuLAAA-weekly-20250107",
+    ]);
+    expect(requestedUrls()).toEqual([
+      expect.stringContaining(`${CALENDAR_URL}/calendarView/delta?`),
+      firstPage["@odata.nextLink"],
+    ]);
+    expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({
+      Authorization: "Bearer graph-access-token",
+    });
+  });
+
+  it("resumes from the delta link and keeps its window", async () => {
+    const provider = createMicrosoftProvider("delta-user");
+    const windowAt = Date.now() - 60 * 60 * 1000;
+
+    const { events, syncToken } = await provider.syncEvents(
+      CALENDAR_ID,
+      stampSyncToken(DELTA_LINK, windowAt)!
+    );
+
+    expect(requestedUrls()).toEqual([DELTA_LINK]);
+    expect(syncToken).toBe(
+      stampSyncToken(changes["@odata.deltaLink"], windowAt)
+    );
+    expect(events.every((event) => event.status === "cancelled")).toBe(true);
+  });
+
+  it("reports an expired delta link as HTTP 410", async () => {
+    isDeltaLinkValid = false;
+    const provider = createMicrosoftProvider("expired-user");
+
+    await expect(
+      provider.syncEvents(CALENDAR_ID, stampSyncToken(DELTA_LINK, Date.now())!)
+    ).rejects.toMatchObject({ code: 410 });
+  });
+
+  it("expires delta links whose window is over a day old", async () => {
+    const provider = createMicrosoftProvider("stale-user");
+    const windowAt = Date.now() - 2 * DAY_MS;
+
+    await expect(
+      provider.syncEvents(CALENDAR_ID, stampSyncToken(DELTA_LINK, windowAt)!)
+    ).rejects.toMatchObject({ code: 410 });
+    await expect(
+      provider.syncEvents(CALENDAR_ID, DELTA_LINK)
+    ).rejects.toMatchObject({ code: 410 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rebuilds the cache with a full sync after a 410", async () => {
+    const calendar = {} as calendar_v3.Calendar;
+    const userId = "reset-user";
+
+    const getDeltaLink = () =>
+      readSyncToken(getSyncState(userId, CALENDAR_ID).syncToken!).syncToken;
+
+    await syncCalendar(calendar, userId, CALENDAR_ID, { force: true });
+    expect(getDeltaLink()).toBe(DELTA_LINK);
+
+    isDeltaLinkValid = false;
+    fetchMock.mockClear();
+    await syncCalendar(calendar, userId, CALENDAR_ID, { force: true });
+
+    const urls = requestedUrls();
+    expect(urls[0]).toBe(DELTA_LINK);
+    expect(urls[1]).toContain("/calendarView/delta?startDateTime=");
+    expect(getDeltaLink()).toBe(DELTA_LINK);
+
+    const events = listStoredEvents(userId, [CALENDAR_ID]);
+    expect(events.map((event) => event.id).sort()).toEqual([
+      "AAMkAGI2TGuLAAA-offsite",
+      "AAMkAGI2TGuLAAA-standup",
+      "AAMkAGI2TGuLAAA-weekly-20250107",
+    ]);
+    // The occurrence picks up its series' recurrence again
+    expect(
+      events.find((event) => event.id === "AAMkAGI2TGuLAAA-weekly-20250107")
+    ).toMatchObject({
+      recurrence: [
+        "RRULE:FREQ=WEEKLY;BYDAY=TU,TH;WKST=MO;UNTIL=20250630T235959Z",
+      ],
+    });
+  });
+});
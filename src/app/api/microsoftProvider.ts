@@ -0,0 +1,380 @@
+import { calendar_v3 } from "googleapis";
+import { CalendarSummary } from "./calendar";
+import { StoredEvent } from "./eventStore";
+import { withRateLimit } from "./googleClient";
+import { createReconnectError, getMicrosoftAccessToken } from "./microsoftAuth";
+import {
+  CalendarProvider,
+  MICROSOFT_CALENDAR_PREFIX,
+  readSyncToken,
+  stampSyncToken,
+} from "./providers";
+import { toHttpError } from "./utils";
+
+// Outlook calendars through Microsoft Graph, read-only. Graph events are
+// mapped onto Google's event shape so they share the cache and the UI.
+
+// Constants
+const GRAPH_URL = "https://graph.microsoft.com/v1.0";
+const PAGE_SIZE = 250;
+// Graph's delta sync needs a fixed window; each full sync sets it anew
+const SYNC_DAYS_BACK = 365;
+const SYNC_DAYS_AHEAD = 730;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_COLOR = "#0078d4";
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_NOT_FOUND = 404;
+
+const RESPONSE_STATUSES: Record<string, string> = {
+  organizer: "accepted",
+  accepted: "accepted",
+  tentativelyAccepted: "tentative",
+  declined: "declined",
+};
+const WEEKDAYS: Record<string, string> = {
+  sunday: "SU",
+  monday: "MO",
+  tuesday: "TU",
+  wednesday: "WE",
+  thursday: "TH",
+  friday: "FR",
+  saturday: "SA",
+};
+const WEEK_INDEXES: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  last: -1,
+};
+
+// Types
+interface GraphDateTime {
+  dateTime: string;
+  timeZone?: string;
+}
+
+interface GraphEmail {
+  emailAddress?: { name?: string; address?: string };
+}
+
+interface GraphAttendee extends GraphEmail {
+  type?: "required" | "optional" | "resource";
+  status?: { response?: string };
+}
+
+interface GraphRecurrence {
+  pattern: {
+    type: string;
+    interval?: number;
+    month?: number;
+    dayOfMonth?: number;
+    daysOfWeek?: string[];
+    firstDayOfWeek?: string;
+    index?: string;
+  };
+  range: {
+    type: "endDate" | "noEnd" | "numbered";
+    endDate?: string;
+    numberOfOccurrences?: number;
+  };
+}
+
+interface GraphEvent {
+  id: string;
+  "@removed"?: unknown;
+  subject?: string;
+  body?: { contentType?: string; content?: string };
+  start?: GraphDateTime;
+  end?: GraphDateTime;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  location?: { displayName?: string };
+  organizer?: GraphEmail;
+  attendees?: GraphAttendee[];
+  webLink?: string;
+  iCalUId?: string;
+  type?: string;
+  seriesMasterId?: string;
+  originalStart?: string;
+  recurrence?: GraphRecurrence | null;
+  onlineMeeting?: { joinUrl?: string } | null;
+  isReminderOn?: boolean;
+  reminderMinutesBeforeStart?: number;
+  showAs?: string;
+  sensitivity?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+}
+
+interface GraphCalendar {
+  id: string;
+  name?: string;
+  hexColor?: string;
+  isDefaultCalendar?: boolean;
+  canEdit?: boolean;
+  owner?: { name?: string; address?: string };
+}
+
+interface GraphPage<T> {
+  value?: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+// Helper functions
+function toGraphCalendarId(calendarId: string): string {
+  return calendarId.slice(MICROSOFT_CALENDAR_PREFIX.length);
+}
+
+// Start of a delta sync over the window around windowAt
+function getDeltaUrl(calendarId: string, windowAt: number): string {
+  const params = new URLSearchParams({
+    startDateTime: new Date(windowAt - SYNC_DAYS_BACK * DAY_MS).toISOString(),
+    endDateTime: new Date(windowAt + SYNC_DAYS_AHEAD * DAY_MS).toISOString(),
+  });
+  return `/me/calendars/${encodeURIComponent(
+    toGraphCalendarId(calendarId)
+  )}/calendarView/delta?${params}`;
+}
+
+// Graph returns zone-less UTC times with seven fractional digits
+function toUtcTime(value: string): string {
+  return new Date(`${value.replace(/(\.\d{3})\d*$/, "$1")}Z`).toISOString();
+}
+
+function toEventTime(
+  time: GraphDateTime | undefined,
+  isAllDay: boolean | undefined
+): calendar_v3.Schema$EventDateTime | undefined {
+  if (!time?.dateTime) return undefined;
+  return isAllDay
+    ? { date: time.dateTime.slice(0, 10) }
+    : { dateTime: toUtcTime(time.dateTime), timeZone: "UTC" };
+}
+
+function toPerson(person: GraphEmail | undefined) {
+  return {
+    email: person?.emailAddress?.address,
+    displayName: person?.emailAddress?.name,
+  };
+}
+
+// Graph's recurrence pattern as an RRULE. UNTIL takes the value type of the
+// series' start, so all-day series end on a bare date.
+function toRecurrenceRule(
+  recurrence: GraphRecurrence,
+  isAllDay: boolean | undefined
+): string {
+  const { pattern, range } = recurrence;
+  const parts: string[] = [];
+  const days = (pattern.daysOfWeek || []).map((day) => WEEKDAYS[day]);
+  const index = WEEK_INDEXES[pattern.index || "first"] ?? 1;
+
+  switch (pattern.type) {
+    case "daily":
+      parts.push("FREQ=DAILY");
+      break;
+    case "weekly":
+      parts.push("FREQ=WEEKLY", `BYDAY=${days.join(",")}`);
+      if (pattern.firstDayOfWeek) {
+        parts.push(`WKST=${WEEKDAYS[pattern.firstDayOfWeek]}`);
+      }
+      break;
+    case "absoluteMonthly":
+      parts.push("FREQ=MONTHLY", `BYMONTHDAY=${pattern.dayOfMonth}`);
+      break;
+    case "relativeMonthly":
+      parts.push(
+        "FREQ=MONTHLY",
+        `BYDAY=${days.map((day) => `${index}${day}`).join(",")}`
+      );
+      break;
+    case "absoluteYearly":
+      parts.push(
+        "FREQ=YEARLY",
+        `BYMONTH=${pattern.month}`,
+        `BYMONTHDAY=${pattern.dayOfMonth}`
+      );
+      break;
+    case "relativeYearly":
+      parts.push(
+        "FREQ=YEARLY",
+        `BYMONTH=${pattern.month}`,
+        `BYDAY=${days.map((day) => `${index}${day}`).join(",")}`
+      );
+      break;
+  }
+
+  if (pattern.interval && pattern.interval > 1) {
+    parts.push(`INTERVAL=${pattern.interval}`);
+  }
+  if (range.type === "endDate" && range.endDate) {
+    const endDate = range.endDate.replace(/-/g, "");
+    parts.push(`UNTIL=${isAllDay ? endDate : `${endDate}T235959Z`}`);
+  } else if (range.type === "numbered" && range.numberOfOccurrences) {
+    parts.push(`COUNT=${range.numberOfOccurrences}`);
+  }
+
+  return `RRULE:${parts.join(";")}`;
+}
+
+// A Graph event in Google's shape. Outlook calendars are read-only here, so
+// attendees carry no self flag and never ask for a response.
+export function toStoredEvent(event: GraphEvent): StoredEvent {
+  if (event["@removed"] || event.isCancelled) {
+    return { id: event.id, status: "cancelled" };
+  }
+
+  const reminderMinutes = event.reminderMinutesBeforeStart;
+  const joinUrl = event.onlineMeeting?.joinUrl;
+
+  return {
+    id: event.id,
+    status: "confirmed",
+    summary: event.subject || undefined,
+    description: event.body?.content || undefined,
+    location: event.location?.displayName || undefined,
+    start: toEventTime(event.start, event.isAllDay),
+    end: toEventTime(event.end, event.isAllDay),
+    htmlLink: event.webLink,
+    iCalUID: event.iCalUId,
+    created: event.createdDateTime,
+    updated: event.lastModifiedDateTime,
+    recurringEventId: event.seriesMasterId || undefined,
+    originalStartTime: event.originalStart
+      ? event.isAllDay
+        ? { date: event.originalStart.slice(0, 10) }
+        : { dateTime: new Date(event.originalStart).toISOString() }
+      : undefined,
+    recurrence: event.recurrence
+      ? [toRecurrenceRule(event.recurrence, event.isAllDay)]
+      : undefined,
+    organizer: toPerson(event.organizer),
+    attendees: event.attendees?.map((attendee) => ({
+      ...toPerson(attendee),
+      resource: attendee.type === "resource",
+      optional: attendee.type === "optional",
+      responseStatus:
+        RESPONSE_STATUSES[attendee.status?.response || ""] || "needsAction",
+    })),
+    conferenceData: joinUrl
+      ? {
+          entryPoints: [{ entryPointType: "video", uri: joinUrl }],
+          conferenceSolution: { name: "Microsoft Teams" },
+        }
+      : undefined,
+    reminders: {
+      useDefault: false,
+      overrides:
+        event.isReminderOn && reminderMinutes !== undefined
+          ? [{ method: "popup", minutes: reminderMinutes }]
+          : [],
+    },
+    transparency: event.showAs === "free" ? "transparent" : "opaque",
+    visibility:
+      event.sensitivity === "private" || event.sensitivity === "confidential"
+        ? "private"
+        : "default",
+  };
+}
+
+// Graph client for one user. Tokens are looked up on every call, so the
+// provider can be created before knowing whether Outlook is still connected.
+function createGraphFetch(userId: string) {
+  return async function graphFetch<T>(url: string): Promise<T> {
+    return withRateLimit(`microsoft:${userId}`, async () => {
+      const accessToken = await getMicrosoftAccessToken(userId);
+      const response = await fetch(
+        url.startsWith("https://") ? url : `${GRAPH_URL}${url}`,
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            Prefer: `outlook.timezone="UTC", odata.maxpagesize=${PAGE_SIZE}`,
+          },
+        }
+      );
+
+      // A rejected token means consent was withdrawn on Microsoft's side
+      if (response.status === HTTP_UNAUTHORIZED) {
+        throw createReconnectError("Outlook access was revoked; reconnect it");
+      }
+      if (!response.ok) {
+        throw await toHttpError(response, "Microsoft Graph request failed");
+      }
+      return response.json() as Promise<T>;
+    });
+  };
+}
+
+export function createMicrosoftProvider(userId: string): CalendarProvider {
+  const graphFetch = createGraphFetch(userId);
+
+  return {
+    id: "microsoft",
+
+    async listCalendars() {
+      const calendars: CalendarSummary[] = [];
+      let url: string | undefined = "/me/calendars";
+
+      while (url) {
+        const page: GraphPage<GraphCalendar> = await graphFetch(url);
+        for (const entry of page.value || []) {
+          calendars.push({
+            id: `${MICROSOFT_CALENDAR_PREFIX}${entry.id}`,
+            summary: entry.name || entry.owner?.address || "Outlook",
+            description: entry.owner?.address,
+            backgroundColor: entry.hexColor || DEFAULT_COLOR,
+            foregroundColor: "#ffffff",
+            primary: false,
+            selected: !!entry.isDefaultCalendar,
+            accessRole: "reader",
+            provider: "microsoft",
+          });
+        }
+        url = page["@odata.nextLink"];
+      }
+
+      return calendars;
+    },
+
+    // The delta link, stamped with its window, doubles as the sync token.
+    // Graph answers an expired one with 410, like Google does.
+    async syncEvents(calendarId, syncToken) {
+      const stamped = syncToken ? readSyncToken(syncToken) : null;
+      const windowAt = stamped?.windowAt ?? Date.now();
+      const events: StoredEvent[] = [];
+      let url: string | undefined =
+        stamped?.syncToken || getDeltaUrl(calendarId, windowAt);
+      let deltaLink: string | undefined;
+
+      while (url) {
+        const page: GraphPage<GraphEvent> = await graphFetch(url);
+        events.push(...(page.value || []).map(toStoredEvent));
+        url = page["@odata.nextLink"];
+        deltaLink = page["@odata.deltaLink"] ?? deltaLink;
+      }
+
+      return { events, syncToken: stampSyncToken(deltaLink, windowAt) };
+    },
+
+    getSeries(_calendarId, seriesIds) {
+      return Promise.all(
+        seriesIds.map(async (seriesId) => {
+          try {
+            return toStoredEvent(
+              await graphFetch<GraphEvent>(
+                `/me/events/${encodeURIComponent(seriesId)}`
+              )
+            );
+          } catch (error) {
+            if ((error as { code?: number })?.code === HTTP_NOT_FOUND) {
+              return { id: seriesId, status: "cancelled" };
+            }
+            throw error;
+          }
+        })
+      );
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getJson, getStore, setJson } from "./store";
+
+// Constants
+export const OAUTH_STATE_COOKIE = "calendar_sync_oauth_state";
+const OAUTH_STATE_TTL = 10 * 60 * 1000; // Time allowed to finish the consent screen
+const OAUTH_STATE_PREFIX = "oauth-state:";
+const DEFAULT_RETURN_TO = "/";
+
+// Types
+export type OAuthStateErrorCode =
+  "state_missing" | "state_mismatch" | "state_replayed";
+
+// Server-side half of a login attempt, looked up by the state nonce
+interface PendingLogin {
+  codeVerifier: string;
+  returnTo: string;
+  createdAt: number;
+}
+
+export interface OAuthStateError extends Error {
+  code: OAuthStateErrorCode;
+}
+
+export interface VerifiedLogin {
+  codeVerifier: string;
+  returnTo: string;
+}
+
+// Helper functions
+function getSigningKey(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("Missing required environment variable: SESSION_SECRET");
+  }
+  return secret;
+}
+
+function sign(nonce: string): string {
+  return createHmac("sha256", getSigningKey())
+    .update(nonce)
+    .digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function createStateError(
+  code: OAuthStateErrorCode,
+  message: string
+): OAuthStateError {
+  return Object.assign(new Error(message), { code });
+}
+
+export function isOAuthStateError(error: unknown): error is OAuthStateError {
+  return (
+    error instanceof Error &&
+    typeof (error as OAuthStateError).code === "string" &&
+    (error as OAuthStateError).code.startsWith("state_")
+  );
+}
+
+// Only same-origin paths are accepted, so the round trip cannot be turned
+// into an open redirect
+export function sanitizeReturnTo(value: string | null | undefined): string {
+  if (
+    !value ||
+    !value.startsWith("/") ||
+    value.startsWith("//") ||
+    value.startsWith("/\\")
+  ) {
+    return DEFAULT_RETURN_TO;
+  }
+  return value;
+}
+
+// Login attempts
+
+// Start a login: generates the state nonce and PKCE pair (S256), remembers
+// the verifier server-side and returns what goes into the provider's auth URL
+export async function beginLogin(
+  returnTo: string
+): Promise<{ state: string; codeChallenge: string }> {
+  const state = randomBytes(32).toString("base64url");
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+
+  const pending: PendingLogin = {
+    codeVerifier,
+    returnTo: sanitizeReturnTo(returnTo),
+    createdAt: Date.now(),
+  };
+  await setJson(`${OAUTH_STATE_PREFIX}${state}`, pending, OAUTH_STATE_TTL);
+
+  return { state, codeChallenge };
+}
+
+// Check the state the provider echoed back against the signed cookie and
+// consume the pending login, so the same state can never be exchanged twice
+export async function completeLogin(
+  req: NextRequest,
+  state: string | undefined
+): Promise<VerifiedLogin> {
+  const cookie = req.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!state || !cookie) {
+    throw createStateError(
+      "state_missing",
+      "This sign-in link has expired or was opened in another browser"
+    );
+  }
+
+  const [nonce, signature] = cookie.split(".");
+  if (
+    !nonce ||
+    !signature ||
+    !safeEqual(signature, sign(nonce)) ||
+    !safeEqual(nonce, state)
+  ) {
+    throw createStateError(
+      "state_mismatch",
+      "The sign-in response does not match the request from this browser"
+    );
+  }
+
+  const key = `${OAUTH_STATE_PREFIX}${state}`;
+  const pending = await getJson<PendingLogin>(key);
+  if (!pending) {
+    throw createStateError(
+      "state_replayed",
+      "This sign-in response has already been used"
+    );
+  }
+  await getStore().delete(key);
+
+  return { codeVerifier: pending.codeVerifier, returnTo: pending.returnTo };
+}
+
+// Cookies
+export function setOAuthStateCookie(
+  response: NextResponse,
+  state: string
+): void {
+  response.cookies.set(OAUTH_STATE_COOKIE, `${state}.${sign(state)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: OAUTH_STATE_TTL / 1000,
+  });
+}
+
+export function clearOAuthStateCookie(response: NextResponse): void {
+  response.cookies.set(OAUTH_STATE_COOKIE, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,127 @@
+import { calendar_v3 } from "googleapis";
+import { isCaldavConnected } from "./caldavClient";
+import { createCaldavProvider } from "./caldavProvider";
+import { CalendarSummary } from "./calendar";
+import { StoredEvent } from "./eventStore";
+import { createGoogleProvider } from "./googleProvider";
+import { isMicrosoftConnected } from "./microsoftAuth";
+import { createMicrosoftProvider } from "./microsoftProvider";
+import { createHttpError } from "./utils";
+
+// Calendar backends behind one interface. Every provider normalizes its
+// events into Google's event shape, which the cache, the API mapper and the
+// UI already understand, so a user's Google, Outlook and CalDAV calendars can
+// be listed and merged side by side.
+
+// Constants
+// Calendar ids of other providers carry a prefix; Google's stay bare so
+// existing ids (and "primary") keep working
+export const MICROSOFT_CALENDAR_PREFIX = "microsoft:";
+export const CALDAV_CALENDAR_PREFIX = "caldav:";
+// How long a full sync's window may be followed by delta syncs
+const MAX_SYNC_WINDOW_AGE = 24 * 60 * 60 * 1000;
+const HTTP_GONE = 410;
+
+// Names shown to users, e.g. in errors about read-only calendars
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+  google: "Google",
+  microsoft: "Outlook",
+  caldav: "CalDAV",
+};
+
+// Types
+export type ProviderId = "google" | "microsoft" | "caldav";
+
+export interface ProviderSyncOptions {
+  // Zone for times in the response, where the provider supports it
+  timeZone?: string;
+}
+
+export interface ProviderSyncResult {
+  // Changed events; deleted ones come back with status "cancelled"
+  events: StoredEvent[];
+  // Passed to the next sync to only receive what changed since
+  syncToken?: string | null;
+}
+
+export interface CalendarProvider {
+  id: ProviderId;
+  listCalendars(): Promise<CalendarSummary[]>;
+  // Every event without a sync token, otherwise the changes since it. A token
+  // the provider no longer accepts fails with HTTP 410.
+  syncEvents(
+    calendarId: string,
+    syncToken?: string,
+    options?: ProviderSyncOptions
+  ): Promise<ProviderSyncResult>;
+  // Parent events of recurring series, for their recurrence rules. Series
+  // that no longer exist come back cancelled.
+  getSeries?(calendarId: string, seriesIds: string[]): Promise<StoredEvent[]>;
+}
+
+// Helper functions
+export function getProviderId(calendarId: string): ProviderId {
+  if (calendarId.startsWith(MICROSOFT_CALENDAR_PREFIX)) return "microsoft";
+  if (calendarId.startsWith(CALDAV_CALENDAR_PREFIX)) return "caldav";
+  return "google";
+}
+
+// Outlook and CalDAV events are read within a window around the time of the
+// full sync, which delta syncs keep. Their sync tokens carry that time, so a
+// window that has fallen behind is rebuilt instead of kept forever.
+export function stampSyncToken(
+  syncToken: string | null | undefined,
+  windowAt: number
+): string | null {
+  return syncToken ? `${windowAt}:${syncToken}` : null;
+}
+
+// Split a stamped token. One whose window is too old, or that carries no
+// stamp, fails with HTTP 410 like any expired token.
+export function readSyncToken(
+  syncToken: string,
+  now: number = Date.now()
+): { syncToken: string; windowAt: number } {
+  const separator = syncToken.indexOf(":");
+  const windowAt = Number(syncToken.slice(0, separator));
+  if (
+    separator <= 0 ||
+    !Number.isFinite(windowAt) ||
+    now - windowAt > MAX_SYNC_WINDOW_AGE
+  ) {
+    throw createHttpError(HTTP_GONE, "Sync window has expired");
+  }
+  return { syncToken: syncToken.slice(separator + 1), windowAt };
+}
+
+// The provider that holds a calendar
+export function getCalendarProvider(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string
+): CalendarProvider {
+  switch (getProviderId(calendarId)) {
+    case "microsoft":
+      return createMicrosoftProvider(userId);
+    case "caldav":
+      return createCaldavProvider(userId);
+    default:
+      return createGoogleProvider(calendar);
+  }
+}
+
+// Every provider the user has connected; Google always is
+export async function getConnectedProviders(
+  calendar: calendar_v3.Calendar,
+  userId: string
+): Promise<CalendarProvider[]> {
+  const [hasMicrosoft, hasCaldav] = await Promise.all([
+    isMicrosoftConnected(userId),
+    isCaldavConnected(userId),
+  ]);
+
+  const providers = [createGoogleProvider(calendar)];
+  if (hasMicrosoft) providers.push(createMicrosoftProvider(userId));
+  if (hasCaldav) providers.push(createCaldavProvider(userId));
+  return providers;
+}
@@ -0,0 +1,131 @@
+import { calendar_v3 } from "googleapis";
+import {
+  SearchQuery,
+  isEmptySearch,
+  matchesSearchFilters,
+  matchesSearchTerms,
+  parseSearchQuery,
+} from "@/lib/search";
+import { DEFAULT_TIME_ZONE, getZonedDayStart } from "@/lib/timeZones";
+import { DEFAULT_CALENDAR_ID, DateFilter, listCalendars } from "./calendar";
+import { EventMatcher } from "./eventStore";
+import { getProviderId } from "./providers";
+
+// Event search for the events route. Terms are matched against the local
+// index of cached events and also sent to Google's own search for Google
+// calendars, which covers fields the index doesn't; filters are always applied locally.
+
+// Constants
+const GOOGLE_SEARCH_PAGE_SIZE = 250;
+// Google's matches only widen the local ones, so stop paging at some point
+const MAX_GOOGLE_SEARCH_PAGES = 4;
+
+// Helper functions
+async function searchGoogleCalendar(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  terms: string[],
+  dateFilter: DateFilter
+): Promise<string[]> {
+  const timeZone = dateFilter.timeZone || DEFAULT_TIME_ZONE;
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < MAX_GOOGLE_SEARCH_PAGES; page++) {
+    const response = await calendar.events.list({
+      calendarId,
+      q: terms.join(" "),
+      singleEvents: true,
+      maxResults: GOOGLE_SEARCH_PAGE_SIZE,
+      pageToken,
+      timeMin: dateFilter.startDate
+        ? new Date(
+            getZonedDayStart(dateFilter.startDate, timeZone)
+          ).toISOString()
+        : undefined,
+      timeMax: dateFilter.endDate
+        ? new Date(
+            getZonedDayStart(dateFilter.endDate, timeZone, 1)
+          ).toISOString()
+        : undefined,
+      fields: "items(id),nextPageToken",
+    });
+
+    for (const event of response.data.items || []) {
+      if (event.id) ids.push(`${calendarId}:${event.id}`);
+    }
+    pageToken = response.data.nextPageToken || undefined;
+    if (!pageToken) break;
+  }
+
+  return ids;
+}
+
+// Calendar names by id, only fetched when the query filters on them
+async function getCalendarNames(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  query: SearchQuery
+): Promise<Map<string, string>> {
+  if (!query.filters.some(({ field }) => field === "calendar")) {
+    return new Map();
+  }
+  const names = new Map<string, string>();
+  for (const { id, summary, primary } of await listCalendars(
+    calendar,
+    userId
+  )) {
+    names.set(id, summary);
+    // Events of the primary calendar are usually cached under "primary"
+    if (primary) names.set(DEFAULT_CALENDAR_ID, summary);
+  }
+  return names;
+}
+
+// Parse q, run the Google side of the search and return a matcher for the
+// cached events. Returns null for an empty query, which matches everything.
+export async function createEventSearch(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarIds: string[],
+  q: string,
+  dateFilter: DateFilter
+): Promise<EventMatcher | null> {
+  const query = parseSearchQuery(q);
+  if (isEmptySearch(query)) return null;
+
+  const [googleMatches, calendarNames] = await Promise.all([
+    query.terms.length
+      ? Promise.all(
+          calendarIds
+            .filter((calendarId) => getProviderId(calendarId) === "google")
+            .map((calendarId) =>
+              searchGoogleCalendar(
+                calendar,
+                calendarId,
+                query.terms,
+                dateFilter
+              )
+            )
+        ).then((ids) => new Set(ids.flat()))
+      : new Set<string>(),
+    getCalendarNames(calendar, userId, query),
+  ]);
+
+  return (event, document) => {
+    if (!matchesSearchFilters(document, query.filters)) return false;
+
+    const calendarName = (
+      calendarNames.get(event.calendarId) || event.calendarId
+    ).toLowerCase();
+    const isInCalendar = query.filters.every(
+      ({ field, value }) => field !== "calendar" || calendarName.includes(value)
+    );
+    if (!isInCalendar) return false;
+
+    return (
+      matchesSearchTerms(document, query.terms) ||
+      googleMatches.has(`${event.calendarId}:${event.id}`)
+    );
+  };
+}
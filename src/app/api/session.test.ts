@@ -0,0 +1,137 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  SESSION_COOKIE,
+  createSession,
+  destroySession,
+  getCredentials,
+  getFreshCredentials,
+  listSignedInUserIds,
+  saveCredentials,
+} from "./session";
+
+const refreshAccessToken = vi.fn();
+
+vi.mock("./utils", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./utils")>()),
+  getOAuth2Client: () => ({ setCredentials: vi.fn(), refreshAccessToken }),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+async function saveExpiringCredentials(userId: string) {
+  await saveCredentials(userId, {
+    access_token: "old-access-token",
+    refresh_token: "refresh-token",
+    expiry_date: Date.now() + 60 * 1000,
+  });
+}
+
+describe("getFreshCredentials", () => {
+  afterEach(() => {
+    refreshAccessToken.mockReset();
+  });
+
+  it("returns null for an unknown user", async () => {
+    expect(await getFreshCredentials("unknown-user")).toBeNull();
+  });
+
+  it("returns stored credentials that are not expiring", async () => {
+    await saveCredentials("valid-user", {
+      access_token: "access-token",
+      refresh_token: "refresh-token",
+      expiry_date: Date.now() + HOUR,
+    });
+
+    const credentials = await getFreshCredentials("valid-user");
+
+    expect(credentials?.accessToken).toBe("access-token");
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+  });
+
+  it("shares one refresh between concurrent callers", async () => {
+    await saveExpiringCredentials("concurrent-user");
+    refreshAccessToken.mockResolvedValue({
+      credentials: {
+        access_token: "new-access-token",
+        expiry_date: Date.now() + HOUR,
+      },
+    });
+
+    const results = await Promise.all([
+      getFreshCredentials("concurrent-user"),
+      getFreshCredentials("concurrent-user"),
+      getFreshCredentials("concurrent-user"),
+    ]);
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    for (const credentials of results) {
+      expect(credentials?.accessToken).toBe("new-access-token");
+      // Google omits the refresh token on refresh; the stored one is kept
+      expect(credentials?.refreshToken).toBe("refresh-token");
+    }
+  });
+
+  it("lets the next call retry after a failed refresh", async () => {
+    await saveExpiringCredentials("failing-user");
+    refreshAccessToken.mockRejectedValueOnce(new Error("invalid_grant"));
+
+    await expect(getFreshCredentials("failing-user")).rejects.toThrow(
+      "invalid_grant"
+    );
+    expect((await getCredentials("failing-user"))?.accessToken).toBe(
+      "old-access-token"
+    );
+
+    refreshAccessToken.mockResolvedValueOnce({
+      credentials: {
+        access_token: "new-access-token",
+        expiry_date: Date.now() + HOUR,
+      },
+    });
+
+    const credentials = await getFreshCredentials("failing-user");
+
+    expect(refreshAccessToken).toHaveBeenCalledTimes(2);
+    expect(credentials?.accessToken).toBe("new-access-token");
+  });
+
+  it("rejects when there is no refresh token", async () => {
+    await saveCredentials("no-refresh-user", {
+      access_token: "access-token",
+      expiry_date: Date.now() - HOUR,
+    });
+
+    await expect(getFreshCredentials("no-refresh-user")).rejects.toThrow(
+      "No refresh token available"
+    );
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+  });
+});
+
+describe("listSignedInUserIds", () => {
+  const requestWith = (sessionId: string) =>
+    new NextRequest("http://localhost/", {
+      headers: { cookie: `${SESSION_COOKIE}=${sessionId}` },
+    });
+
+  it("lists users until their last session signs out", async () => {
+    await saveCredentials("signed-in-user", { refresh_token: "token" });
+    const first = await createSession({ id: "signed-in-user" });
+    const second = await createSession({ id: "signed-in-user" });
+
+    expect(await listSignedInUserIds()).toContain("signed-in-user");
+
+    await destroySession(requestWith(first.id));
+    expect(await listSignedInUserIds()).toContain("signed-in-user");
+
+    await destroySession(requestWith(second.id));
+    expect(await listSignedInUserIds()).not.toContain("signed-in-user");
+  });
+
+  it("skips sessions of users without credentials", async () => {
+    await createSession({ id: "no-credentials-user" });
+
+    expect(await listSignedInUserIds()).not.toContain("no-credentials-user");
+  });
+});
@@ -0,0 +1,270 @@
+import { createHash, randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { Auth, google, calendar_v3 } from "googleapis";
+import { getOAuth2Client } from "./utils";
+import { createCalendarClient } from "./googleClient";
+import { getJson, getStore, setJson } from "./store";
+import { isExpiringSoon } from "@/lib/tokens";
+
+// Constants
+export const SESSION_COOKIE = "calendar_sync_session";
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SESSION_PREFIX = "session:";
+const CREDENTIALS_PREFIX = "credentials:";
+
+// Types
+export interface SessionUser {
+  id: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  user: SessionUser;
+  createdAt: number;
+}
+
+// Google credentials are stored once per user and shared by their sessions
+export interface StoredCredentials {
+  accessToken?: string;
+  refreshToken?: string;
+  expiryDate?: number;
+  scope?: string;
+  updatedAt: number;
+}
+
+// Google access on behalf of a user, with or without a browser session
+export interface UserContext {
+  userId: string;
+  auth: Auth.OAuth2Client;
+  calendar: calendar_v3.Calendar;
+}
+
+export interface SessionContext extends UserContext {
+  session: Session;
+}
+
+// Credentials
+export async function getCredentials(
+  userId: string
+): Promise<StoredCredentials | null> {
+  return getJson<StoredCredentials>(`${CREDENTIALS_PREFIX}${userId}`);
+}
+
+// Users with stored Google credentials and a session that hasn't expired or
+// been signed out, for work done on their behalf without a request
+export async function listSignedInUserIds(): Promise<string[]> {
+  const store = getStore();
+  const [credentialKeys, sessionKeys] = await Promise.all([
+    store.keys(CREDENTIALS_PREFIX),
+    store.keys(SESSION_PREFIX),
+  ]);
+  const sessions = await Promise.all(
+    sessionKeys.map((key) => getJson<Session>(key))
+  );
+  const signedIn = new Set(sessions.map((session) => session?.userId));
+
+  return credentialKeys
+    .map((key) => key.slice(CREDENTIALS_PREFIX.length))
+    .filter((userId) => signedIn.has(userId));
+}
+
+// Merge fresh Google tokens into the stored credentials. Google omits the
+// refresh token on re-consent and refreshes, so an existing one is kept.
+export async function saveCredentials(
+  userId: string,
+  tokens: Auth.Credentials
+): Promise<StoredCredentials> {
+  const existing = await getCredentials(userId);
+  const credentials: StoredCredentials = {
+    accessToken: tokens.access_token || existing?.accessToken,
+    refreshToken: tokens.refresh_token || existing?.refreshToken,
+    expiryDate: tokens.expiry_date || existing?.expiryDate,
+    scope: tokens.scope || existing?.scope,
+    updatedAt: Date.now(),
+  };
+
+  await setJson(`${CREDENTIALS_PREFIX}${userId}`, credentials);
+  return credentials;
+}
+
+// Refreshes in flight, keyed by user, so concurrent requests share one call
+const globalRefreshes = globalThis as unknown as {
+  googleTokenRefreshes?: Map<string, Promise<StoredCredentials>>;
+};
+const pendingRefreshes = (globalRefreshes.googleTokenRefreshes ??= new Map());
+
+async function refreshCredentials(
+  userId: string,
+  credentials: StoredCredentials
+): Promise<StoredCredentials> {
+  if (!credentials.refreshToken) {
+    throw new Error("No refresh token available; please sign in again");
+  }
+
+  const oAuth2Client = getOAuth2Client();
+  oAuth2Client.setCredentials({ refresh_token: credentials.refreshToken });
+  const { credentials: tokens } = await oAuth2Client.refreshAccessToken();
+
+  return saveCredentials(userId, tokens);
+}
+
+// Return the user's credentials, refreshing them first when the access token
+// is within REFRESH_AHEAD_MS of expiring (or always, with `force`)
+export async function getFreshCredentials(
+  userId: string,
+  { force = false }: { force?: boolean } = {}
+): Promise<StoredCredentials | null> {
+  const credentials = await getCredentials(userId);
+  if (!credentials) return null;
+  if (!force && !isExpiringSoon(credentials.expiryDate)) return credentials;
+
+  const pending = pendingRefreshes.get(userId);
+  if (pending) return pending;
+
+  const refresh = refreshCredentials(userId, credentials);
+  pendingRefreshes.set(userId, refresh);
+
+  try {
+    return await refresh;
+  } finally {
+    pendingRefreshes.delete(userId);
+  }
+}
+
+// Build an OAuth2 client for a user that refreshes expired access tokens on
+// its own and persists whatever Google hands back
+export function createAuthorizedClient(
+  userId: string,
+  credentials: StoredCredentials
+): Auth.OAuth2Client {
+  const oAuth2Client = getOAuth2Client();
+
+  oAuth2Client.setCredentials({
+    access_token: credentials.accessToken,
+    refresh_token: credentials.refreshToken,
+    expiry_date: credentials.expiryDate,
+    scope: credentials.scope,
+  });
+
+  oAuth2Client.on("tokens", (tokens) => {
+    saveCredentials(userId, tokens).catch((error) =>
+      console.error("Failed to persist refreshed tokens:", error)
+    );
+  });
+
+  return oAuth2Client;
+}
+
+// Identify the Google account behind a freshly issued access token
+export async function fetchUserProfile(
+  accessToken: string
+): Promise<SessionUser> {
+  const auth = getOAuth2Client();
+  auth.setCredentials({ access_token: accessToken });
+
+  const { data } = await google.oauth2({ version: "v2", auth }).userinfo.get();
+
+  if (!data.id) {
+    throw new Error("Unable to resolve Google account");
+  }
+
+  return {
+    id: data.id,
+    email: data.email || undefined,
+    name: data.name || undefined,
+    picture: data.picture || undefined,
+  };
+}
+
+// Sessions
+// Store keys are not encrypted, so sessions are keyed by a hash of the ID; the
+// ID itself is the bearer credential
+function sessionKey(sessionId: string): string {
+  const hash = createHash("sha256").update(sessionId).digest("hex");
+  return `${SESSION_PREFIX}${hash}`;
+}
+
+export async function createSession(user: SessionUser): Promise<Session> {
+  const session: Session = {
+    id: randomBytes(32).toString("base64url"),
+    userId: user.id,
+    user,
+    createdAt: Date.now(),
+  };
+
+  await setJson(sessionKey(session.id), session, SESSION_TTL);
+  return session;
+}
+
+export async function getSession(req: NextRequest): Promise<Session | null> {
+  const sessionId = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!sessionId) return null;
+
+  return getJson<Session>(sessionKey(sessionId));
+}
+
+export async function destroySession(req: NextRequest): Promise<void> {
+  const sessionId = req.cookies.get(SESSION_COOKIE)?.value;
+  if (sessionId) {
+    await getStore().delete(sessionKey(sessionId));
+  }
+}
+
+// Build a ready-to-use Calendar client from a user's stored credentials, or
+// null when they are missing or can no longer be refreshed
+export async function getUserContext(
+  userId: string
+): Promise<UserContext | null> {
+  let credentials: StoredCredentials | null;
+  try {
+    credentials = await getFreshCredentials(userId);
+  } catch (error) {
+    // A revoked or expired refresh token means the user has to sign in again
+    console.error("Token refresh failed:", error);
+    return null;
+  }
+  if (!credentials?.accessToken) return null;
+
+  const auth = createAuthorizedClient(userId, credentials);
+
+  return { userId, auth, calendar: createCalendarClient(userId, auth) };
+}
+
+// Resolve the signed-in user and a ready-to-use Calendar client, or null
+export async function getSessionContext(
+  req: NextRequest
+): Promise<SessionContext | null> {
+  const session = await getSession(req);
+  if (!session) return null;
+
+  const context = await getUserContext(session.userId);
+  return context ? { ...context, session } : null;
+}
+
+// Cookies
+export function setSessionCookie(
+  response: NextResponse,
+  sessionId: string
+): void {
+  response.cookies.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL / 1000,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,206 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Constants
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+const DEFAULT_FILE_STORE_PATH = ".sessions";
+
+// Types
+// Minimal async key-value contract so a shared store (Redis, a database, ...)
+// can replace the built-in implementations
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+interface StoredValue {
+  key: string;
+  value: string;
+  expiresAt?: number;
+}
+
+// Helper functions
+function isExpired(entry: StoredValue): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+function toEntry(key: string, value: string, ttlMs?: number): StoredValue {
+  return { key, value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined };
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("Missing required environment variable: SESSION_SECRET");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+// In-memory store, for local development and tests
+export function createMemoryStore(): KeyValueStore {
+  const entries = new Map<string, StoredValue>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (isExpired(entry)) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      entries.set(key, toEntry(key, value, ttlMs));
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async keys(prefix) {
+      return [...entries.values()]
+        .filter((entry) => entry.key.startsWith(prefix) && !isExpired(entry))
+        .map((entry) => entry.key);
+    },
+  };
+}
+
+// File-backed store that survives dev server restarts. One JSON file per key.
+export function createFileStore(directory: string): KeyValueStore {
+  const fileFor = (key: string) =>
+    path.join(
+      directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+
+  const readEntry = async (file: string): Promise<StoredValue | null> => {
+    try {
+      const entry: StoredValue = JSON.parse(await fs.readFile(file, "utf8"));
+      if (isExpired(entry)) {
+        await fs.rm(file, { force: true });
+        return null;
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async get(key) {
+      const entry = await readEntry(fileFor(key));
+      return entry?.value ?? null;
+    },
+    async set(key, value, ttlMs) {
+      await fs.mkdir(directory, { recursive: true, mode: 0o700 });
+      await fs.writeFile(
+        fileFor(key),
+        JSON.stringify(toEntry(key, value, ttlMs)),
+        { mode: 0o600 }
+      );
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    async keys(prefix) {
+      let files: string[];
+      try {
+        files = await fs.readdir(directory);
+      } catch {
+        return [];
+      }
+
+      const entries = await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => readEntry(path.join(directory, file)))
+      );
+      return entries
+        .filter((entry): entry is StoredValue => !!entry)
+        .filter((entry) => entry.key.startsWith(prefix))
+        .map((entry) => entry.key);
+    },
+  };
+}
+
+// Encrypts values with AES-256-GCM before they reach the underlying store
+export function createEncryptedStore(store: KeyValueStore): KeyValueStore {
+  const encrypt = (plaintext: string): string => {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString("base64url"))
+      .join(".");
+  };
+
+  const decrypt = (payload: string): string | null => {
+    try {
+      const [iv, authTag, ciphertext] = payload
+        .split(".")
+        .map((part) => Buffer.from(part, "base64url"));
+      const decipher = createDecipheriv(CIPHER, getEncryptionKey(), iv);
+      decipher.setAuthTag(authTag);
+      return Buffer.concat([
+        decipher.update(ciphertext),
+        decipher.final(),
+      ]).toString("utf8");
+    } catch {
+      // Tampered data or a rotated secret; treat as missing
+      return null;
+    }
+  };
+
+  return {
+    async get(key) {
+      const payload = await store.get(key);
+      return payload ? decrypt(payload) : null;
+    },
+    set: (key, value, ttlMs) => store.set(key, encrypt(value), ttlMs),
+    delete: (key) => store.delete(key),
+    keys: (prefix) => store.keys(prefix),
+  };
+}
+
+// Shared store instance, selected with SESSION_STORE=memory|file
+const globalStore = globalThis as unknown as {
+  calendarSyncStore?: KeyValueStore;
+};
+
+export function getStore(): KeyValueStore {
+  if (!globalStore.calendarSyncStore) {
+    const backing =
+      process.env.SESSION_STORE === "file"
+        ? createFileStore(
+            process.env.SESSION_STORE_PATH || DEFAULT_FILE_STORE_PATH
+          )
+        : createMemoryStore();
+    globalStore.calendarSyncStore = createEncryptedStore(backing);
+  }
+  return globalStore.calendarSyncStore;
+}
+
+// JSON helpers
+export async function getJson<T>(key: string): Promise<T | null> {
+  const value = await getStore().get(key);
+  return value ? (JSON.parse(value) as T) : null;
+}
+
+export async function setJson<T>(
+  key: string,
+  value: T,
+  ttlMs?: number
+): Promise<void> {
+  await getStore().set(key, JSON.stringify(value), ttlMs);
+}
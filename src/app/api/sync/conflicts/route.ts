@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import { clearSyncConflicts, listSyncConflicts } from "../../syncPairs";
+import { getSession } from "../../session";
+
+// Main handlers
+// Conflicts resolved while syncing two-way pairs, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const conflicts = await listSyncConflicts(session.userId);
+    return createSuccessResponse(conflicts);
+  } catch (error) {
+    console.error("Sync conflicts error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to load sync conflicts"
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    await clearSyncConflicts(session.userId);
+    return createSuccessResponse([], "Conflict log cleared");
+  } catch (error) {
+    console.error("Sync conflicts error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to clear sync conflicts"
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from "../../utils";
+import { runBackgroundSync } from "../../syncWorker";
+
+// Helper functions
+// Schedulers authenticate with "Authorization: Bearer <CRON_SECRET>"
+function isAuthorized(req: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get("authorization") || "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Main handlers
+// Sync every user's calendars and sync pairs. Called by a cron-style
+// scheduler (Vercel Cron, crontab, scripts/sync-scheduler.mjs); the request
+// returns once all users are done.
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return createApiErrorResponse(
+      "not_found",
+      "Background sync is off; set CRON_SECRET to enable it"
+    );
+  }
+  if (!isAuthorized(req, secret)) {
+    return createErrorResponse("Invalid cron secret", 401);
+  }
+
+  try {
+    const status = await runBackgroundSync();
+    return createSuccessResponse(
+      status,
+      `Synced ${status.users - status.failedUsers} of ${status.users} users`
+    );
+  } catch (error) {
+    console.error("Background sync error:", error);
+    return createApiErrorResponse("internal_error", "Background sync failed");
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../../utils";
+import {
+  getSyncPair,
+  removeSyncPair,
+  updateSyncPair,
+} from "../../../syncPairs";
+import { removeSyncPairCopies } from "../../../syncEngine";
+import { getSession, getSessionContext } from "../../../session";
+
+// Types
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Main handlers
+// Change a pair's privacy mode or direction
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const { id } = await params;
+    const input = await req.json().catch(() => ({}));
+    const pair = await updateSyncPair(session.userId, id, input);
+    if (!pair) {
+      return createApiErrorResponse("not_found", "Sync pair not found");
+    }
+    if (typeof pair === "string") {
+      return createApiErrorResponse("bad_request", pair);
+    }
+    return createSuccessResponse(pair, "Sync updated");
+  } catch (error) {
+    console.error("Sync pair update error:", error);
+    return createApiErrorResponse("internal_error", "Failed to update sync");
+  }
+}
+
+// Stop syncing, deleting the copies the pair made unless keepCopies=true
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { id } = await params;
+    const pair = await getSyncPair(userId, id);
+    if (!pair) {
+      return createApiErrorResponse("not_found", "Sync pair not found");
+    }
+
+    const keepCopies = req.nextUrl.searchParams.get("keepCopies") === "true";
+    const removed = keepCopies
+      ? 0
+      : await removeSyncPairCopies(calendar, userId, pair);
+    await removeSyncPair(userId, id);
+
+    return createSuccessResponse(
+      { removed },
+      `Sync removed${removed ? `, ${removed} copies deleted` : ""}`
+    );
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to remove sync");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createGoogleErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../../../utils";
+import { getSyncPair } from "../../../../syncPairs";
+import { runSyncPair } from "../../../../syncEngine";
+import { getSessionContext } from "../../../../session";
+
+// Types
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Main handler
+// Mirror a pair's events now and return the updated pair
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  try {
+    // Resolve the signed-in user from the session cookie
+    const context = await getSessionContext(req);
+    if (!context) {
+      return createUnauthenticatedResponse();
+    }
+    const { calendar, userId } = context;
+
+    const { id } = await params;
+    const pair = await getSyncPair(userId, id);
+    if (!pair) {
+      return createApiErrorResponse("not_found", "Sync pair not found");
+    }
+
+    const summary = await runSyncPair(calendar, userId, pair);
+    return createSuccessResponse(
+      { ...pair, lastRun: summary },
+      summary.conflicts
+        ? `Synced with ${summary.conflicts} conflicts resolved`
+        : "Synced"
+    );
+  } catch (error) {
+    return createGoogleErrorResponse(error, "Failed to sync calendars");
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import { createSyncPair, listSyncPairs } from "../../syncPairs";
+import { getSession } from "../../session";
+
+// Main handlers
+// List the signed-in user's sync pairs
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const pairs = await listSyncPairs(session.userId);
+    return createSuccessResponse(pairs);
+  } catch (error) {
+    console.error("Sync pairs error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to load synced calendars"
+    );
+  }
+}
+
+// Start mirroring one calendar into another. Events are copied on the
+// pair's first run.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const input = await req.json().catch(() => ({}));
+    const pair = await createSyncPair(session.userId, input);
+    if (typeof pair === "string") {
+      return createApiErrorResponse("bad_request", pair);
+    }
+    return createSuccessResponse(pair, "Calendars synced", 201);
+  } catch (error) {
+    console.error("Sync pair creation error:", error);
+    return createApiErrorResponse("internal_error", "Failed to sync calendars");
+  }
+}
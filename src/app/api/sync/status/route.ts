@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server";
+import {
+  createApiErrorResponse,
+  createSuccessResponse,
+  createUnauthenticatedResponse,
+} from "../../utils";
+import { getUserSyncStatus, getWorkerStatus } from "../../syncWorker";
+import { getSession } from "../../session";
+
+// Main handler
+// The signed-in user's last background sync, and when the scheduler last ran
+// at all (null for both until it first does)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      return createUnauthenticatedResponse();
+    }
+
+    const [user, worker] = await Promise.all([
+      getUserSyncStatus(session.userId),
+      getWorkerStatus(),
+    ]);
+    return createSuccessResponse({ user, worker });
+  } catch (error) {
+    console.error("Sync status error:", error);
+    return createApiErrorResponse(
+      "internal_error",
+      "Failed to load sync status"
+    );
+  }
+}
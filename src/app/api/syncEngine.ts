@@ -0,0 +1,480 @@
+import { createHash } from "crypto";
+import { calendar_v3 } from "googleapis";
+import { syncCalendars } from "./calendar";
+import { SourcedEvent, applyLocalChange, listStoredEvents } from "./eventStore";
+import {
+  SyncConflict,
+  SyncPair,
+  SyncRunSummary,
+  logSyncConflicts,
+  recordSyncRun,
+} from "./syncPairs";
+import { ApiErrorCode, classifyGoogleError } from "./utils";
+import { getSelfAttendee } from "@/lib/rsvp";
+
+// Mirrors a sync pair's events into its target calendar, and for two-way
+// pairs the target's events back into the source. Copies are ordinary
+// events tagged with private extended properties: the pair, the event they
+// copy and a hash of the content written at the last sync. Comparing each
+// side against that hash tells which side changed since.
+
+// Constants
+const PAIR_PROPERTY = "calendarSyncPair";
+const ORIGIN_PROPERTY = "calendarSyncOrigin";
+const HASH_PROPERTY = "calendarSyncHash";
+// Set on the originals of two-way pairs, so deleting a copy deletes them too
+const LINK_PROPERTY_PREFIX = "calendarSyncCopy-";
+const BUSY_SUMMARY = "Busy";
+// New copies are only made for events in this window around today
+const MIRROR_DAYS_BACK = 7;
+const MIRROR_DAYS_AHEAD = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Errors that would fail every remaining event as well
+const FATAL_ERROR_CODES: ApiErrorCode[] = [
+  "unauthenticated",
+  "insufficient_scope",
+  "rate_limited",
+];
+
+// Types
+type SyncSide = "source" | "target";
+
+type EventContent = Pick<
+  calendar_v3.Schema$Event,
+  "summary" | "description" | "location" | "start" | "end" | "transparency"
+>;
+
+interface EventWriter {
+  insert(
+    calendarId: string,
+    requestBody: calendar_v3.Schema$Event
+  ): Promise<calendar_v3.Schema$Event>;
+  patch(
+    calendarId: string,
+    eventId: string,
+    requestBody: calendar_v3.Schema$Event
+  ): Promise<calendar_v3.Schema$Event>;
+  remove(calendarId: string, eventId: string): Promise<void>;
+}
+
+interface RunState {
+  summary: Omit<SyncRunSummary, "finishedAt">;
+  conflicts: Omit<SyncConflict, "id">[];
+}
+
+// Runs currently in flight, so a pair is never synced twice at once
+const inFlightRuns = new Map<string, Promise<SyncRunSummary>>();
+
+// Helper functions
+function getPrivateProperties(
+  event: calendar_v3.Schema$Event
+): Record<string, string> {
+  return event.extendedProperties?.private ?? {};
+}
+
+function isCopy(event: calendar_v3.Schema$Event): boolean {
+  return !!getPrivateProperties(event)[PAIR_PROPERTY];
+}
+
+function getLinkProperty(pair: SyncPair): string {
+  return `${LINK_PROPERTY_PREFIX}${pair.id}`;
+}
+
+function getTimeKey(time?: calendar_v3.Schema$EventDateTime): string {
+  if (time?.date) return time.date;
+  return time?.dateTime ? String(Date.parse(time.dateTime)) : "";
+}
+
+function getEventTime(time?: calendar_v3.Schema$EventDateTime): number {
+  return Date.parse(time?.dateTime ?? time?.date ?? "");
+}
+
+function toEventTime(
+  time?: calendar_v3.Schema$EventDateTime
+): calendar_v3.Schema$EventDateTime {
+  if (time?.date) return { date: time.date };
+  return { dateTime: time?.dateTime, timeZone: time?.timeZone || undefined };
+}
+
+// What an event's copy should show, given the pair's privacy mode
+function getContent(
+  event: calendar_v3.Schema$Event,
+  privacy: SyncPair["privacy"]
+): EventContent {
+  if (privacy === "busy") {
+    return {
+      summary: BUSY_SUMMARY,
+      start: event.start,
+      end: event.end,
+      transparency: "opaque",
+    };
+  }
+  return {
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    start: event.start,
+    end: event.end,
+    transparency: event.transparency,
+  };
+}
+
+// Missing and empty fields hash alike, as do equal times in other zones
+function hashContent(content: EventContent): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        content.summary || "",
+        content.description || "",
+        content.location || "",
+        getTimeKey(content.start),
+        getTimeKey(content.end),
+        content.transparency || "opaque",
+      ])
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Empty strings clear fields a previous privacy mode had copied
+function toRequestBody(content: EventContent): calendar_v3.Schema$Event {
+  return {
+    summary: content.summary || "",
+    description: content.description || "",
+    location: content.location || "",
+    start: toEventTime(content.start),
+    end: toEventTime(content.end),
+    transparency: content.transparency || "opaque",
+  };
+}
+
+function getCopyProperties(
+  pair: SyncPair,
+  originId: string,
+  hash: string
+): calendar_v3.Schema$Event["extendedProperties"] {
+  return {
+    private: {
+      [PAIR_PROPERTY]: pair.id,
+      [ORIGIN_PROPERTY]: originId,
+      [HASH_PROPERTY]: hash,
+    },
+  };
+}
+
+// Declined invitations aren't mirrored, nor free time as busy blocks
+function shouldMirror(event: SourcedEvent, pair: SyncPair): boolean {
+  if (isCopy(event)) return false;
+  if (getSelfAttendee(event)?.responseStatus === "declined") return false;
+  return !(pair.privacy === "busy" && event.transparency === "transparent");
+}
+
+function isInMirrorWindow(event: SourcedEvent, now: number): boolean {
+  return (
+    getEventTime(event.end) >= now - MIRROR_DAYS_BACK * DAY_MS &&
+    getEventTime(event.start) <= now + MIRROR_DAYS_AHEAD * DAY_MS
+  );
+}
+
+function listCopies(
+  userId: string,
+  pair: SyncPair,
+  calendarId: string
+): SourcedEvent[] {
+  return listStoredEvents(userId, [calendarId]).filter(
+    (event) => getPrivateProperties(event)[PAIR_PROPERTY] === pair.id
+  );
+}
+
+function createEventWriter(
+  calendar: calendar_v3.Calendar,
+  userId: string
+): EventWriter {
+  return {
+    insert: async (calendarId, requestBody) => {
+      const { data } = await calendar.events.insert({
+        calendarId,
+        requestBody,
+      });
+      applyLocalChange(userId, calendarId, data);
+      return data;
+    },
+    patch: async (calendarId, eventId, requestBody) => {
+      const { data } = await calendar.events.patch({
+        calendarId,
+        eventId,
+        requestBody,
+      });
+      applyLocalChange(userId, calendarId, data);
+      return data;
+    },
+    remove: async (calendarId, eventId) => {
+      await calendar.events.delete({ calendarId, eventId });
+      applyLocalChange(userId, calendarId, {
+        id: eventId,
+        status: "cancelled",
+      });
+    },
+  };
+}
+
+// Run one event's writes, counting failures unless they would fail the rest
+async function runStep(
+  state: RunState,
+  description: string,
+  step: () => Promise<void>
+): Promise<void> {
+  try {
+    await step();
+  } catch (error) {
+    const code = classifyGoogleError(error);
+    if (FATAL_ERROR_CODES.includes(code)) throw error;
+
+    console.error(`Failed to sync ${description} (${code}):`, error);
+    state.summary.failed++;
+  }
+}
+
+// Mirror the events of one side of a pair into the other
+async function mirrorEvents(
+  writer: EventWriter,
+  userId: string,
+  pair: SyncPair,
+  from: SyncSide,
+  state: RunState
+): Promise<void> {
+  const to: SyncSide = from === "source" ? "target" : "source";
+  const fromCalendarId =
+    from === "source" ? pair.sourceCalendarId : pair.targetCalendarId;
+  const toCalendarId =
+    to === "source" ? pair.sourceCalendarId : pair.targetCalendarId;
+  const isTwoWay = pair.direction === "two-way";
+  const linkProperty = getLinkProperty(pair);
+  const now = Date.now();
+
+  const originals = listStoredEvents(userId, [fromCalendarId]).filter((event) =>
+    shouldMirror(event, pair)
+  );
+  const copies = new Map(
+    listCopies(userId, pair, toCalendarId).map((copy) => [
+      getPrivateProperties(copy)[ORIGIN_PROPERTY],
+      copy,
+    ])
+  );
+
+  const link = (original: SourcedEvent, copyId: string) =>
+    writer.patch(fromCalendarId, original.id!, {
+      extendedProperties: {
+        private: {
+          ...getPrivateProperties(original),
+          [linkProperty]: copyId,
+        },
+      },
+    });
+
+  const writeCopy = async (original: SourcedEvent, copyId: string) => {
+    const content = getContent(original, pair.privacy);
+    await writer.patch(toCalendarId, copyId, {
+      ...toRequestBody(content),
+      extendedProperties: getCopyProperties(
+        pair,
+        original.id!,
+        hashContent(content)
+      ),
+    });
+  };
+
+  for (const original of originals) {
+    const copy = copies.get(original.id!);
+    copies.delete(original.id!);
+
+    await runStep(state, `${fromCalendarId}/${original.id}`, async () => {
+      if (!copy) {
+        // The copy was deleted on the other side since the last sync
+        if (isTwoWay && getPrivateProperties(original)[linkProperty]) {
+          await writer.remove(fromCalendarId, original.id!);
+          state.summary.deleted++;
+          return;
+        }
+        if (!isInMirrorWindow(original, now)) return;
+
+        const content = getContent(original, pair.privacy);
+        const created = await writer.insert(toCalendarId, {
+          ...toRequestBody(content),
+          // The original already reminds the user
+          reminders: { useDefault: false },
+          extendedProperties: getCopyProperties(
+            pair,
+            original.id!,
+            hashContent(content)
+          ),
+        });
+        if (isTwoWay) await link(original, created.id!);
+        state.summary.created++;
+        return;
+      }
+
+      // Pairs switched to two-way link the copies they already made
+      if (
+        isTwoWay &&
+        getPrivateProperties(original)[linkProperty] !== copy.id
+      ) {
+        await link(original, copy.id!);
+      }
+
+      const syncedHash = getPrivateProperties(copy)[HASH_PROPERTY];
+      const originalHash = hashContent(getContent(original, pair.privacy));
+      const copyContent = getContent(copy, "details");
+      const copyHash = hashContent(copyContent);
+      if (originalHash === syncedHash && copyHash === syncedHash) return;
+
+      // One-way copies follow their original, overwriting edits to them
+      if (!isTwoWay || copyHash === syncedHash) {
+        await writeCopy(original, copy.id!);
+        state.summary.updated++;
+        return;
+      }
+
+      // Both sides ended up the same; only the stored hash is behind
+      if (originalHash === copyHash) {
+        await writeCopy(original, copy.id!);
+        return;
+      }
+
+      let winner = to;
+      if (originalHash !== syncedHash) {
+        winner =
+          Date.parse(original.updated ?? "") >= Date.parse(copy.updated ?? "")
+            ? from
+            : to;
+        state.conflicts.push({
+          pairId: pair.id,
+          eventSummary: original.summary || copy.summary || "",
+          winner,
+          sourceUpdated: (from === "source" ? original : copy).updated ?? "",
+          targetUpdated: (from === "source" ? copy : original).updated ?? "",
+          resolvedAt: Date.now(),
+        });
+        state.summary.conflicts++;
+      }
+
+      if (winner === from) {
+        await writeCopy(original, copy.id!);
+      } else {
+        // The copy was edited: carry the edit back to the original
+        const updated = await writer.patch(fromCalendarId, original.id!, {
+          ...toRequestBody(copyContent),
+          extendedProperties: {
+            private: {
+              ...getPrivateProperties(original),
+              [linkProperty]: copy.id!,
+            },
+          },
+        });
+        await writeCopy(updated as SourcedEvent, copy.id!);
+      }
+      state.summary.updated++;
+    });
+  }
+
+  // Copies left over lost their original, or it stopped being mirrored
+  for (const [originId, copy] of copies) {
+    await runStep(state, `${toCalendarId}/${copy.id}`, async () => {
+      await writer.remove(toCalendarId, copy.id!);
+      state.summary.deleted++;
+
+      // Unlink an original that still exists, so it isn't deleted as if
+      // the copy had been
+      const original = isTwoWay
+        ? listStoredEvents(userId, [fromCalendarId]).find(
+            (event) => event.id === originId
+          )
+        : undefined;
+      if (original && getPrivateProperties(original)[linkProperty]) {
+        await link(original, "");
+      }
+    });
+  }
+}
+
+async function runPair(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  pair: SyncPair
+): Promise<SyncRunSummary> {
+  const state: RunState = {
+    summary: { created: 0, updated: 0, deleted: 0, conflicts: 0, failed: 0 },
+    conflicts: [],
+  };
+
+  try {
+    await syncCalendars(
+      calendar,
+      userId,
+      [pair.sourceCalendarId, pair.targetCalendarId],
+      { force: true }
+    );
+
+    const writer = createEventWriter(calendar, userId);
+    await mirrorEvents(writer, userId, pair, "source", state);
+    if (pair.direction === "two-way") {
+      await mirrorEvents(writer, userId, pair, "target", state);
+    }
+  } catch (error) {
+    await recordSyncRun(userId, pair.id, {
+      ...state.summary,
+      finishedAt: Date.now(),
+      error: error instanceof Error ? error.message : "Sync failed",
+    });
+    throw error;
+  } finally {
+    await logSyncConflicts(userId, state.conflicts);
+  }
+
+  const summary = { ...state.summary, finishedAt: Date.now() };
+  await recordSyncRun(userId, pair.id, summary);
+  return summary;
+}
+
+// Sync pairs
+// Mirror a pair's calendars into each other, recording the outcome on the
+// pair. Concurrent callers share one run.
+export function runSyncPair(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  pair: SyncPair
+): Promise<SyncRunSummary> {
+  const key = `${userId}:${pair.id}`;
+  const pending = inFlightRuns.get(key);
+  if (pending) return pending;
+
+  const run = runPair(calendar, userId, pair).finally(() => {
+    inFlightRuns.delete(key);
+  });
+  inFlightRuns.set(key, run);
+  return run;
+}
+
+// Delete the copies a pair made, e.g. when it is removed. Originals of
+// two-way pairs keep their (now unused) link property.
+export async function removeSyncPairCopies(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  pair: SyncPair
+): Promise<number> {
+  const calendarIds =
+    pair.direction === "two-way"
+      ? [pair.sourceCalendarId, pair.targetCalendarId]
+      : [pair.targetCalendarId];
+  await syncCalendars(calendar, userId, calendarIds, { force: true });
+
+  const writer = createEventWriter(calendar, userId);
+  let removed = 0;
+  for (const calendarId of calendarIds) {
+    for (const copy of listCopies(userId, pair, calendarId)) {
+      await writer.remove(calendarId, copy.id!);
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,237 @@
+import { randomBytes } from "crypto";
+import { getJson, setJson } from "./store";
+import { getProviderId } from "./providers";
+import { validateWritableCalendar } from "./calendar";
+
+// Sync pairs mirror the events of one calendar into another, e.g. personal
+// events as "Busy" blocks on a work calendar. Pairs and the log of conflicts
+// resolved while syncing them are kept per user.
+
+// Constants
+const SYNC_PAIRS_PREFIX = "sync-pairs:";
+const SYNC_CONFLICTS_PREFIX = "sync-conflicts:";
+const MAX_SYNC_PAIRS = 10;
+const MAX_CONFLICTS = 50;
+export const SYNC_PRIVACY_MODES = ["details", "busy"] as const;
+export const SYNC_DIRECTIONS = ["one-way", "two-way"] as const;
+
+// Types
+// "details" copies title, description and location; "busy" only the time
+export type SyncPrivacy = (typeof SYNC_PRIVACY_MODES)[number];
+export type SyncDirection = (typeof SYNC_DIRECTIONS)[number];
+
+export interface SyncRunSummary {
+  finishedAt: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  conflicts: number;
+  failed: number;
+  // Set when the run stopped early
+  error?: string;
+}
+
+export interface SyncPair {
+  id: string;
+  sourceCalendarId: string;
+  targetCalendarId: string;
+  privacy: SyncPrivacy;
+  direction: SyncDirection;
+  createdAt: number;
+  lastRun?: SyncRunSummary;
+}
+
+export type SyncPairInput = Partial<
+  Pick<
+    SyncPair,
+    "sourceCalendarId" | "targetCalendarId" | "privacy" | "direction"
+  >
+>;
+
+// Both sides of a two-way pair changed the same event since the last sync;
+// the side modified last won
+export interface SyncConflict {
+  id: string;
+  pairId: string;
+  eventSummary: string;
+  winner: "source" | "target";
+  sourceUpdated?: string;
+  targetUpdated?: string;
+  resolvedAt: number;
+}
+
+// Helper functions
+function isOneOf<T extends string>(
+  values: readonly T[],
+  value: unknown
+): value is T {
+  return values.includes(value as T);
+}
+
+function createId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+async function savePairs(userId: string, pairs: SyncPair[]): Promise<void> {
+  await setJson(`${SYNC_PAIRS_PREFIX}${userId}`, pairs);
+}
+
+// Validate a pair as it would be saved; returns an error message when invalid
+export function validateSyncPair(pair: SyncPairInput): string | null {
+  const { sourceCalendarId, targetCalendarId, privacy, direction } = pair;
+
+  if (typeof sourceCalendarId !== "string" || !sourceCalendarId) {
+    return "A source calendar is required";
+  }
+  if (typeof targetCalendarId !== "string" || !targetCalendarId) {
+    return "A target calendar is required";
+  }
+  if (sourceCalendarId === targetCalendarId) {
+    return "Pick two different calendars";
+  }
+  if (!isOneOf(SYNC_PRIVACY_MODES, privacy)) return "Invalid privacy mode";
+  if (!isOneOf(SYNC_DIRECTIONS, direction)) return "Invalid sync direction";
+
+  const readOnlyError = validateWritableCalendar(targetCalendarId);
+  if (readOnlyError) return readOnlyError;
+
+  if (direction === "two-way") {
+    if (getProviderId(sourceCalendarId) !== "google") {
+      return "Two-way sync needs two Google calendars";
+    }
+    if (privacy !== "details") {
+      return "Two-way sync copies event details";
+    }
+  }
+  return null;
+}
+
+// Sync pairs
+export async function listSyncPairs(userId: string): Promise<SyncPair[]> {
+  return (await getJson<SyncPair[]>(`${SYNC_PAIRS_PREFIX}${userId}`)) ?? [];
+}
+
+export async function getSyncPair(
+  userId: string,
+  pairId: string
+): Promise<SyncPair | null> {
+  const pairs = await listSyncPairs(userId);
+  return pairs.find((pair) => pair.id === pairId) ?? null;
+}
+
+// Returns the new pair, or an error message when it can't be added
+export async function createSyncPair(
+  userId: string,
+  input: SyncPairInput
+): Promise<SyncPair | string> {
+  const candidate: SyncPairInput = {
+    privacy: "busy",
+    direction: "one-way",
+    ...input,
+  };
+  const validationError = validateSyncPair(candidate);
+  if (validationError) return validationError;
+
+  const pairs = await listSyncPairs(userId);
+  if (pairs.length >= MAX_SYNC_PAIRS) {
+    return `At most ${MAX_SYNC_PAIRS} calendars can be synced`;
+  }
+  if (
+    pairs.some(
+      (pair) =>
+        pair.sourceCalendarId === candidate.sourceCalendarId &&
+        pair.targetCalendarId === candidate.targetCalendarId
+    )
+  ) {
+    return "These calendars are already synced";
+  }
+
+  const pair: SyncPair = {
+    id: createId(),
+    sourceCalendarId: candidate.sourceCalendarId!,
+    targetCalendarId: candidate.targetCalendarId!,
+    privacy: candidate.privacy!,
+    direction: candidate.direction!,
+    createdAt: Date.now(),
+  };
+  await savePairs(userId, [...pairs, pair]);
+  return pair;
+}
+
+// Change a pair's privacy or direction; its calendars are fixed. Returns
+// null for unknown pairs and an error message for invalid changes.
+export async function updateSyncPair(
+  userId: string,
+  pairId: string,
+  input: SyncPairInput
+): Promise<SyncPair | string | null> {
+  const pairs = await listSyncPairs(userId);
+  const existing = pairs.find((pair) => pair.id === pairId);
+  if (!existing) return null;
+
+  const pair: SyncPair = {
+    ...existing,
+    ...(input.privacy !== undefined && { privacy: input.privacy }),
+    ...(input.direction !== undefined && { direction: input.direction }),
+  };
+  const validationError = validateSyncPair(pair);
+  if (validationError) return validationError;
+
+  await savePairs(
+    userId,
+    pairs.map((entry) => (entry.id === pairId ? pair : entry))
+  );
+  return pair;
+}
+
+export async function recordSyncRun(
+  userId: string,
+  pairId: string,
+  lastRun: SyncRunSummary
+): Promise<void> {
+  const pairs = await listSyncPairs(userId);
+  await savePairs(
+    userId,
+    pairs.map((pair) => (pair.id === pairId ? { ...pair, lastRun } : pair))
+  );
+}
+
+export async function removeSyncPair(
+  userId: string,
+  pairId: string
+): Promise<void> {
+  const pairs = await listSyncPairs(userId);
+  await savePairs(
+    userId,
+    pairs.filter((pair) => pair.id !== pairId)
+  );
+}
+
+// Conflict log, newest first
+export async function listSyncConflicts(
+  userId: string
+): Promise<SyncConflict[]> {
+  return (
+    (await getJson<SyncConflict[]>(`${SYNC_CONFLICTS_PREFIX}${userId}`)) ?? []
+  );
+}
+
+export async function logSyncConflicts(
+  userId: string,
+  conflicts: Omit<SyncConflict, "id">[]
+): Promise<void> {
+  if (!conflicts.length) return;
+
+  const existing = await listSyncConflicts(userId);
+  await setJson(
+    `${SYNC_CONFLICTS_PREFIX}${userId}`,
+    [
+      ...conflicts.map((conflict) => ({ ...conflict, id: createId() })),
+      ...existing,
+    ].slice(0, MAX_CONFLICTS)
+  );
+}
+
+export async function clearSyncConflicts(userId: string): Promise<void> {
+  await setJson(`${SYNC_CONFLICTS_PREFIX}${userId}`, []);
+}
@@ -0,0 +1,155 @@
+import { DEFAULT_CALENDAR_ID, syncCalendars } from "./calendar";
+import { listCachedCalendarIds } from "./eventStore";
+import { getFeedSettings } from "./feeds";
+import { getUserContext, listSignedInUserIds } from "./session";
+import { getJson, setJson } from "./store";
+import { runSyncPair } from "./syncEngine";
+import { listSyncPairs } from "./syncPairs";
+import { ApiErrorCode, classifyGoogleError } from "./utils";
+
+// Background sync: a scheduler calls /api/sync/cron, which keeps every
+// signed-in user's calendars and sync pairs current without an open browser
+// tab. Each user's outcome is stored for /api/sync/status.
+
+// Constants
+const USER_STATUS_PREFIX = "sync-status:";
+const WORKER_STATUS_KEY = "sync-worker";
+
+// Types
+export interface UserSyncStatus {
+  startedAt: number;
+  finishedAt: number;
+  // Last run that synced without errors
+  lastSuccessAt?: number;
+  calendars: number;
+  pairs: number;
+  failedPairs: number;
+  code?: ApiErrorCode;
+  error?: string;
+}
+
+export interface WorkerStatus {
+  startedAt: number;
+  finishedAt: number;
+  users: number;
+  failedUsers: number;
+}
+
+// The run in flight, so overlapping triggers share one pass over the users
+let pendingRun: Promise<WorkerStatus> | null = null;
+
+// Helper functions
+// Calendars worth keeping warm: the ones viewed since the server started,
+// those published in the feed, and primary
+async function getCalendarIds(userId: string): Promise<string[]> {
+  const feed = await getFeedSettings(userId);
+  return [
+    ...new Set([
+      DEFAULT_CALENDAR_ID,
+      ...listCachedCalendarIds(userId),
+      ...(feed?.calendarIds ?? []),
+    ]),
+  ];
+}
+
+async function syncUser(
+  userId: string,
+  previous: UserSyncStatus | null
+): Promise<UserSyncStatus> {
+  const startedAt = Date.now();
+  const status = {
+    startedAt,
+    lastSuccessAt: previous?.lastSuccessAt,
+    calendars: 0,
+    pairs: 0,
+    failedPairs: 0,
+  };
+
+  try {
+    // Refreshes the access token from the stored refresh token when needed
+    const context = await getUserContext(userId);
+    if (!context) {
+      return {
+        ...status,
+        finishedAt: Date.now(),
+        code: "unauthenticated",
+        error: "Sign in again to resume background sync",
+      };
+    }
+
+    const calendarIds = await getCalendarIds(userId);
+    await syncCalendars(context.calendar, userId, calendarIds, {
+      force: true,
+    });
+    status.calendars = calendarIds.length;
+
+    // A failing pair is recorded on the pair itself and doesn't stop the rest
+    const pairs = await listSyncPairs(userId);
+    for (const pair of pairs) {
+      try {
+        await runSyncPair(context.calendar, userId, pair);
+      } catch (error) {
+        console.error(`Background sync of pair ${pair.id} failed:`, error);
+        status.failedPairs++;
+      }
+    }
+    status.pairs = pairs.length;
+
+    return {
+      ...status,
+      finishedAt: Date.now(),
+      ...(status.failedPairs
+        ? { error: `${status.failedPairs} calendar syncs failed` }
+        : { lastSuccessAt: Date.now() }),
+    };
+  } catch (error) {
+    console.error(`Background sync for ${userId} failed:`, error);
+    return {
+      ...status,
+      finishedAt: Date.now(),
+      code: classifyGoogleError(error),
+      error: error instanceof Error ? error.message : "Sync failed",
+    };
+  }
+}
+
+async function runWorker(): Promise<WorkerStatus> {
+  const startedAt = Date.now();
+  const userIds = await listSignedInUserIds();
+  let failedUsers = 0;
+
+  // One user at a time keeps the load on Google's quota predictable
+  for (const userId of userIds) {
+    const previous = await getUserSyncStatus(userId);
+    const status = await syncUser(userId, previous);
+    if (status.error) failedUsers++;
+    await setJson(`${USER_STATUS_PREFIX}${userId}`, status);
+  }
+
+  const worker: WorkerStatus = {
+    startedAt,
+    finishedAt: Date.now(),
+    users: userIds.length,
+    failedUsers,
+  };
+  await setJson(WORKER_STATUS_KEY, worker);
+  return worker;
+}
+
+// Sync every user once
+export function runBackgroundSync(): Promise<WorkerStatus> {
+  pendingRun ??= runWorker().finally(() => {
+    pendingRun = null;
+  });
+  return pendingRun;
+}
+
+export async function getUserSyncStatus(
+  userId: string
+): Promise<UserSyncStatus | null> {
+  return getJson<UserSyncStatus>(`${USER_STATUS_PREFIX}${userId}`);
+}
+
+export async function getWorkerStatus(): Promise<WorkerStatus | null> {
+  return getJson<WorkerStatus>(WORKER_STATUS_KEY);
+}
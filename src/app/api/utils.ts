@@ -4,12 +4,52 @@ import { google } from "googleapis";
 // Common types for API responses
 export interface ErrorResponse {
   error: string;
+  code?: ApiErrorCode;
   message?: string;
 }
 
+// Machine-readable error codes; clients switch on these, never on messages
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthenticated"
+  | "insufficient_scope"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "upstream_unavailable"
+  | "internal_error";
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  bad_request: 400,
+  unauthenticated: 401,
+  insufficient_scope: 403,
+  forbidden: 403,
+  not_found: 404,
+  rate_limited: 429,
+  upstream_unavailable: 503,
+  internal_error: 500,
+};
+
+// Google reports quota problems as 403s distinguished only by their reason
+const RATE_LIMIT_REASONS = [
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "quotaExceeded",
+  "dailyLimitExceeded",
+];
+const DEFAULT_RETRY_AFTER_MS = 30 * 1000;
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+];
+
 export interface SuccessResponse<T = any> {
   data: T;
   message?: string;
+  nextPageToken?: string;
 }
 
 // Date utility
@@ -27,6 +67,139 @@ export function createErrorResponse(
   return NextResponse.json(errorResponse, { status });
 }
 
+// Error response carrying a machine-readable code; the status follows the code
+export function createApiErrorResponse(
+  code: ApiErrorCode,
+  error: string,
+  message?: string
+): NextResponse {
+  const errorResponse: ErrorResponse = { error, code, message };
+  return NextResponse.json(errorResponse, { status: ERROR_STATUS[code] });
+}
+
+export function createUnauthenticatedResponse(): NextResponse {
+  return createApiErrorResponse("unauthenticated", "Not authenticated");
+}
+
+// Errors of plain fetch calls, shaped like a Gaxios error so the helpers below
+// classify them the same way
+export interface HttpError extends Error {
+  code: number;
+  response: { status: number; headers: Headers; data: unknown };
+}
+
+export function createHttpError(
+  status: number,
+  message: string,
+  headers: Headers = new Headers(),
+  data: unknown = null
+): HttpError {
+  return Object.assign(new Error(message), {
+    code: status,
+    response: { status, headers, data },
+  });
+}
+
+// Read a failed response's JSON body, when it has one, into an HttpError
+export async function toHttpError(
+  response: Response,
+  fallback: string
+): Promise<HttpError> {
+  const data = await response.json().catch(() => null);
+  const message =
+    data?.error?.message || data?.error_description || data?.error || fallback;
+  return createHttpError(
+    response.status,
+    String(message),
+    response.headers,
+    data
+  );
+}
+
+// Map a googleapis (Gaxios) error onto the error taxonomy
+export function classifyGoogleError(error: unknown): ApiErrorCode {
+  const { code, status, message, response, errors } = (error || {}) as {
+    code?: number | string;
+    status?: number;
+    message?: string;
+    response?: { status?: number; data?: { error?: unknown } };
+    errors?: { reason?: string }[];
+  };
+  const httpStatus =
+    response?.status ?? status ?? (typeof code === "number" ? code : 0);
+  const reason = errors?.[0]?.reason || "";
+
+  if (typeof code === "string" && NETWORK_ERROR_CODES.includes(code)) {
+    return "upstream_unavailable";
+  }
+  // A revoked or expired refresh token
+  if (response?.data?.error === "invalid_grant") {
+    return "unauthenticated";
+  }
+  if (httpStatus === 429 || RATE_LIMIT_REASONS.includes(reason)) {
+    return "rate_limited";
+  }
+
+  switch (httpStatus) {
+    case 400:
+      return "bad_request";
+    case 401:
+      return "unauthenticated";
+    case 403:
+      return /insufficient/i.test(`${reason} ${message || ""}`)
+        ? "insufficient_scope"
+        : "forbidden";
+    case 404:
+    case 410:
+      return "not_found";
+  }
+
+  return httpStatus >= 500 ? "upstream_unavailable" : "internal_error";
+}
+
+// Read Google's Retry-After header (seconds or an HTTP date) in milliseconds
+export function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { response?: { headers?: unknown } })?.response
+    ?.headers;
+  const value =
+    headers instanceof Headers
+      ? headers.get("retry-after")
+      : (headers as Record<string, string> | undefined)?.["retry-after"];
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// Log a failed Google call and turn it into a coded error response. Quota and
+// availability errors tell the browser when to try again.
+export function createGoogleErrorResponse(
+  error: unknown,
+  fallback: string
+): NextResponse {
+  const code = classifyGoogleError(error);
+  console.error(`${fallback} (${code}):`, error);
+
+  const response = createApiErrorResponse(
+    code,
+    fallback,
+    error instanceof Error ? error.message : undefined
+  );
+
+  if (code === "rate_limited" || code === "upstream_unavailable") {
+    const retryAfter = getRetryAfterMs(error) ?? DEFAULT_RETRY_AFTER_MS;
+    response.headers.set(
+      "Retry-After",
+      String(Math.max(Math.ceil(retryAfter / 1000), 1))
+    );
+  }
+
+  return response;
+}
+
 // Global success response utility
 export function createSuccessResponse<T>(
   data: T,
@@ -37,6 +210,20 @@ export function createSuccessResponse<T>(
   return NextResponse.json(successResponse, { status });
 }
 
+// Paginated success response utility
+export function createPaginatedResponse<T>(
+  data: T,
+  nextPageToken?: string | null,
+  message?: string
+): NextResponse {
+  const successResponse: SuccessResponse<T> = {
+    data,
+    message,
+    nextPageToken: nextPageToken || undefined,
+  };
+  return NextResponse.json(successResponse);
+}
+
 export function getOAuth2Client() {
   const oauth2Client = new google.auth.OAuth2(
     process.env.GOOGLE_CLIENT_ID,
@@ -47,32 +234,19 @@ export function getOAuth2Client() {
   return oauth2Client;
 }
 
-// Extract token from headers (for Next.js API routes)
-export function tokenFromHeaders(headers: Headers) {
-  const authHeader = headers.get("authorization");
-  const xAccessToken = headers.get("x-access-token");
-
-  if (authHeader) {
-    // Handle Bearer token format
-    if (authHeader.startsWith("Bearer ")) {
-      return authHeader.substring(7); // Remove "Bearer " prefix
-    }
-    return authHeader;
-  }
-
-  if (xAccessToken) {
-    return xAccessToken;
-  }
-
-  return null;
-}
-
-// Exchange authorization code for access tokens
-export async function exchangeCodeForTokens(authCode: string) {
+// Exchange authorization code for access tokens, proving possession of the
+// PKCE verifier the login started with
+export async function exchangeCodeForTokens(
+  authCode: string,
+  codeVerifier?: string
+) {
   const oAuth2Client = getOAuth2Client();
 
   try {
-    const { tokens } = await oAuth2Client.getToken(authCode);
+    const { tokens } = await oAuth2Client.getToken({
+      code: authCode,
+      codeVerifier,
+    });
     return tokens;
   } catch (error) {
     console.error("Token exchange error:", error);
@@ -86,6 +260,7 @@ export function validateEnvironmentVariables(): void {
     "GOOGLE_CLIENT_ID",
     "GOOGLE_CLIENT_SECRET",
     "GOOGLE_REDIRECT_URI",
+    "SESSION_SECRET",
   ];
 
   const missingVars = requiredVars.filter((varName) => !process.env[varName]);
@@ -0,0 +1,255 @@
+import { randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { calendar_v3 } from "googleapis";
+
+// Constants
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60; // Google's maximum for events
+const RENEW_BEFORE_EXPIRY = 60 * 60 * 1000; // Renew an hour ahead of expiry
+const IDLE_STOP_DELAY = 5 * 60 * 1000; // Keep channels briefly after disconnect
+const MAX_TIMER_DELAY = 2147483647; // setTimeout overflows past ~24.8 days
+
+// Types
+export type WatchMode = "google" | "local" | "disabled";
+
+export interface WatchChannel {
+  id: string;
+  resourceId?: string;
+  userId: string;
+  calendarId: string;
+  token: string;
+  expiration: number;
+  local: boolean;
+}
+
+interface ChannelRegistry {
+  channels: Map<string, WatchChannel>;
+  byCalendar: Map<string, string>;
+  pending: Map<string, Promise<WatchChannel>>;
+  renewTimers: Map<string, ReturnType<typeof setTimeout>>;
+  stopTimers: Map<string, ReturnType<typeof setTimeout>>;
+}
+
+// Keep the registry on globalThis so the webhook and stream routes share it
+const globalRegistry = globalThis as unknown as {
+  googleWatchChannels?: ChannelRegistry;
+};
+const registry = (globalRegistry.googleWatchChannels ??= {
+  channels: new Map(),
+  byCalendar: new Map(),
+  pending: new Map(),
+  renewTimers: new Map(),
+  stopTimers: new Map(),
+});
+
+// Configuration
+// Google only delivers to a public HTTPS address. In "local" mode channels are
+// registered without calling Google so a stand-in can post fake notifications.
+export function getWatchMode(): WatchMode {
+  if (process.env.GOOGLE_WEBHOOK_URL) return "google";
+  if (process.env.GOOGLE_WATCH_MODE === "local") return "local";
+  return "disabled";
+}
+
+// Helper functions
+function calendarKey(userId: string, calendarId: string): string {
+  return `${userId}:${calendarId}`;
+}
+
+function register(channel: WatchChannel): void {
+  registry.channels.set(channel.id, channel);
+  registry.byCalendar.set(
+    calendarKey(channel.userId, channel.calendarId),
+    channel.id
+  );
+}
+
+function unregister(channel: WatchChannel): void {
+  registry.channels.delete(channel.id);
+
+  const key = calendarKey(channel.userId, channel.calendarId);
+  if (registry.byCalendar.get(key) === channel.id) {
+    registry.byCalendar.delete(key);
+  }
+
+  clearTimeout(registry.renewTimers.get(channel.id));
+  registry.renewTimers.delete(channel.id);
+}
+
+async function createChannel(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string
+): Promise<WatchChannel> {
+  const channel: WatchChannel = {
+    id: randomUUID(),
+    userId,
+    calendarId,
+    token: randomBytes(24).toString("hex"),
+    expiration: Date.now() + CHANNEL_TTL_SECONDS * 1000,
+    local: getWatchMode() === "local",
+  };
+
+  if (channel.local) {
+    console.info(
+      `Registered local watch channel ${channel.id} for ${calendarId}`
+    );
+    return channel;
+  }
+
+  const { data } = await calendar.events.watch({
+    calendarId,
+    requestBody: {
+      id: channel.id,
+      type: "web_hook",
+      address: process.env.GOOGLE_WEBHOOK_URL,
+      token: channel.token,
+      params: { ttl: String(CHANNEL_TTL_SECONDS) },
+    },
+  });
+
+  channel.resourceId = data.resourceId || undefined;
+  if (data.expiration) channel.expiration = Number(data.expiration);
+
+  return channel;
+}
+
+function scheduleRenewal(
+  calendar: calendar_v3.Calendar,
+  channel: WatchChannel
+): void {
+  const delay = Math.min(
+    Math.max(channel.expiration - Date.now() - RENEW_BEFORE_EXPIRY, 0),
+    MAX_TIMER_DELAY
+  );
+
+  const timer = setTimeout(() => {
+    ensureWatchChannel(calendar, channel.userId, channel.calendarId).catch(
+      (error) => console.error("Watch channel renewal error:", error)
+    );
+  }, delay);
+
+  registry.renewTimers.set(channel.id, timer);
+}
+
+async function replaceChannel(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string,
+  existing?: WatchChannel
+): Promise<WatchChannel> {
+  const channel = await createChannel(calendar, userId, calendarId);
+  register(channel);
+  scheduleRenewal(calendar, channel);
+
+  // Only stop the old channel once its replacement is receiving notifications
+  if (existing) await stopChannel(calendar, existing);
+
+  return channel;
+}
+
+// Subscription manager API
+
+// Make sure a live channel watches the calendar, creating it on first use and
+// renewing it when it is close to expiry. Returns null when watching is off.
+export async function ensureWatchChannel(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string
+): Promise<WatchChannel | null> {
+  if (getWatchMode() === "disabled") return null;
+
+  const key = calendarKey(userId, calendarId);
+  const channelId = registry.byCalendar.get(key);
+  const existing = channelId ? registry.channels.get(channelId) : undefined;
+
+  if (existing && existing.expiration - Date.now() > RENEW_BEFORE_EXPIRY) {
+    return existing;
+  }
+
+  const pending = registry.pending.get(key);
+  if (pending) return pending;
+
+  const creation = replaceChannel(calendar, userId, calendarId, existing);
+  registry.pending.set(key, creation);
+
+  try {
+    return await creation;
+  } finally {
+    registry.pending.delete(key);
+  }
+}
+
+export async function stopChannel(
+  calendar: calendar_v3.Calendar,
+  channel: WatchChannel
+): Promise<void> {
+  unregister(channel);
+  if (channel.local || !channel.resourceId) return;
+
+  try {
+    await calendar.channels.stop({
+      requestBody: { id: channel.id, resourceId: channel.resourceId },
+    });
+  } catch (error) {
+    // The channel expires on its own; a failed stop only delays that
+    console.error("Failed to stop watch channel:", error);
+  }
+}
+
+export async function stopUserChannels(
+  calendar: calendar_v3.Calendar,
+  userId: string
+): Promise<void> {
+  cancelScheduledStop(userId);
+
+  const channels = [...registry.channels.values()].filter(
+    (channel) => channel.userId === userId
+  );
+  await Promise.all(channels.map((channel) => stopChannel(calendar, channel)));
+}
+
+// Stop a user's channels once no browser has listened for a while, so quick
+// reconnects do not churn channels
+export function scheduleStopUserChannels(
+  calendar: calendar_v3.Calendar,
+  userId: string
+): void {
+  cancelScheduledStop(userId);
+
+  const timer = setTimeout(() => {
+    registry.stopTimers.delete(userId);
+    stopUserChannels(calendar, userId).catch((error) =>
+      console.error("Watch channel stop error:", error)
+    );
+  }, IDLE_STOP_DELAY);
+
+  registry.stopTimers.set(userId, timer);
+}
+
+export function cancelScheduledStop(userId: string): void {
+  clearTimeout(registry.stopTimers.get(userId));
+  registry.stopTimers.delete(userId);
+}
+
+// Look up a channel by the ID Google echoes back, validating its token
+export function verifyChannel(
+  channelId: string | null,
+  token: string | null
+): WatchChannel | null {
+  const channel = channelId ? registry.channels.get(channelId) : undefined;
+  if (!channel || !token) return null;
+
+  const expected = Buffer.from(channel.token);
+  const received = Buffer.from(token);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  return channel;
+}
+
+export function listLocalChannels(): WatchChannel[] {
+  return [...registry.channels.values()].filter((channel) => channel.local);
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createErrorResponse, createSuccessResponse } from "../../utils";
+import { markCalendarStale } from "../../eventStore";
+import { publish } from "../../eventNotifications";
+import {
+  getWatchMode,
+  listLocalChannels,
+  verifyChannel,
+} from "../../watchChannels";
+
+// Constants
+const SYNC_STATE = "sync"; // Sent once when a channel is created
+
+// Receives Google Calendar events.watch notifications
+export async function POST(req: NextRequest) {
+  const channelId = req.headers.get("x-goog-channel-id");
+  const channelToken = req.headers.get("x-goog-channel-token");
+  const resourceState = req.headers.get("x-goog-resource-state");
+
+  const channel = verifyChannel(channelId, channelToken);
+  if (!channel) {
+    return createErrorResponse("Unknown channel or invalid channel token", 401);
+  }
+
+  if (resourceState && resourceState !== SYNC_STATE) {
+    // Notifications carry no payload; the next delta sync picks up the change
+    markCalendarStale(channel.userId, channel.calendarId);
+    publish(channel.userId, {
+      calendarId: channel.calendarId,
+      resourceState,
+    });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
+
+// Lists local channels so a stand-in can post fake notifications to them
+export async function GET() {
+  if (getWatchMode() !== "local") {
+    return createErrorResponse("Not found", 404);
+  }
+
+  return createSuccessResponse(
+    listLocalChannels().map(({ id, token, calendarId }) => ({
+      id,
+      token,
+      calendarId,
+    }))
+  );
+}
@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MIN_REFRESH_DELAY_MS } from "@/lib/tokens";
+import { useAuth } from "./useAuth";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function createWrapper() {
+  const queryClient = new QueryClient();
+  return function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+  };
+}
+
+describe("useAuth", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    // Time keeps advancing on its own so waitFor can still poll
+    vi.useFakeTimers({
+      toFake: ["setTimeout", "clearTimeout"],
+      shouldAdvanceTime: true,
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it("invalidates the session when the token refresh fails", async () => {
+    const serverTime = Date.now();
+    fetchMock.mockImplementation(async (input) => {
+      if (input === "/api/auth/refresh") {
+        return jsonResponse({ error: "Refresh failed" }, 500);
+      }
+      return jsonResponse({
+        data: {
+          authenticated: true,
+          user: { id: "user-1" },
+          // Already inside the refresh margin, so the timer uses its minimum
+          expiresAt: serverTime + 60 * 1000,
+          serverTime,
+        },
+      });
+    });
+
+    const { result } = renderHook(() => useAuth(), {
+      wrapper: createWrapper(),
+    });
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    const sessionCalls = () =>
+      fetchMock.mock.calls.filter(([input]) => input === "/api/auth/session");
+    expect(sessionCalls()).toHaveLength(1);
+
+    await act(() => vi.advanceTimersByTimeAsync(MIN_REFRESH_DELAY_MS));
+
+    expect(fetchMock).toHaveBeenCalledWith("/api/auth/refresh", {
+      method: "POST",
+    });
+    await waitFor(() => expect(sessionCalls()).toHaveLength(2));
+  });
+});
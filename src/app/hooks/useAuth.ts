@@ -1,120 +1,130 @@
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getRefreshDelay, TokenExpiry } from "@/lib/tokens";
 
 // Constants
-const ACCESS_TOKEN_KEY = "google_access_token";
-const REFRESH_TOKEN_KEY = "google_refresh_token";
-const TOKEN_EXPIRY_KEY = "google_token_expiry";
+const SESSION_QUERY_KEY = ["auth-session"];
+const LOGIN_PATH = "/api/auth/login";
 
 // Types
-interface TokenData {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
+export interface SessionUser {
+  id: string;
+  email?: string;
+  name?: string;
+  picture?: string;
 }
 
-// Custom hook for authentication
-export function useAuth() {
-  const [token, setToken] = useState<string | null>(null);
-  const [refreshToken, setRefreshToken] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+interface SessionData extends Partial<TokenExpiry> {
+  authenticated: boolean;
+  user?: SessionUser;
+  scopes?: string[];
+  // Local clock when the expiry was received, to measure elapsed time
+  receivedAt?: number;
+}
 
-  useEffect(() => {
-    // Check for tokens in localStorage on mount
-    const storedAccessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
-    const storedRefreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
-    const storedExpiry = localStorage.getItem(TOKEN_EXPIRY_KEY);
-
-    setToken(storedAccessToken);
-    setRefreshToken(storedRefreshToken);
-    setIsLoading(false);
-
-    // Check if token is expired or about to expire (within 5 minutes)
-    if (storedExpiry) {
-      const expiryTime = parseInt(storedExpiry);
-      const currentTime = Date.now();
-      const fiveMinutes = 5 * 60 * 1000; // 5 minutes in milliseconds
-
-      if (currentTime >= expiryTime - fiveMinutes) {
-        // Token is expired or will expire soon, refresh it
-        refreshAccessToken();
-      }
-    }
-  }, []);
+// API functions
+async function fetchSession(): Promise<SessionData> {
+  const response = await fetch("/api/auth/session");
 
-  const login = () => {
-    window.location.href = "/api/auth/login";
-  };
+  if (!response.ok) {
+    throw new Error("Failed to load session");
+  }
 
-  const logout = () => {
-    localStorage.removeItem(ACCESS_TOKEN_KEY);
-    localStorage.removeItem(REFRESH_TOKEN_KEY);
-    localStorage.removeItem(TOKEN_EXPIRY_KEY);
-    setToken(null);
-    setRefreshToken(null);
-  };
+  const data = await response.json();
+  return { ...data.data, receivedAt: Date.now() };
+}
 
-  const refreshAccessToken = async (): Promise<string | null> => {
-    if (!refreshToken) {
-      console.error("No refresh token available");
-      return null;
-    }
+// Only one refresh runs at a time, however many components use the hook
+let pendingRefresh: Promise<TokenExpiry> | null = null;
 
+function refreshSession(): Promise<TokenExpiry> {
+  pendingRefresh ??= (async () => {
     try {
-      const response = await fetch("/api/auth/refresh", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ refresh_token: refreshToken }),
-      });
+      const response = await fetch("/api/auth/refresh", { method: "POST" });
 
       if (!response.ok) {
-        throw new Error("Failed to refresh token");
+        throw new Error("Failed to refresh session");
       }
 
       const data = await response.json();
-      const newToken = data.data.access_token;
-      const expiresIn = data.data.expires_in;
+      return data.data as TokenExpiry;
+    } finally {
+      pendingRefresh = null;
+    }
+  })();
 
-      // Calculate expiry time (current time + expires_in seconds)
-      const expiryTime = Date.now() + expiresIn * 1000;
+  return pendingRefresh;
+}
 
-      // Update stored token and expiry
-      localStorage.setItem(ACCESS_TOKEN_KEY, newToken);
-      localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
-      setToken(newToken);
+// Custom hook for authentication. Google tokens stay on the server; the
+// browser only holds an httpOnly session cookie.
+export function useAuth() {
+  const queryClient = useQueryClient();
 
-      return newToken;
-    } catch (error) {
-      console.error("Token refresh failed:", error);
-      // If refresh fails, logout the user
-      logout();
-      return null;
-    }
-  };
+  const { data, isLoading } = useQuery({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: fetchSession,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
 
-  const isAuthenticated = !!token;
+  // Refresh the Google token shortly before it expires
+  useEffect(() => {
+    if (!data?.authenticated || !data.expiresAt || !data.serverTime) return;
+
+    const delay = getRefreshDelay(
+      { expiresAt: data.expiresAt, serverTime: data.serverTime },
+      data.receivedAt
+    );
+    if (delay === null) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const expiry = await refreshSession();
+        queryClient.setQueryData<SessionData>(SESSION_QUERY_KEY, (prev) =>
+          prev ? { ...prev, ...expiry, receivedAt: Date.now() } : prev
+        );
+      } catch (error) {
+        console.error("Token refresh failed:", error);
+        // Let the server decide whether the session is still usable
+        queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEY });
+      }
+    }, delay);
 
-  // Check if token is expired or will expire soon (within 5 minutes)
-  const isTokenExpired = (): boolean => {
-    const storedExpiry = localStorage.getItem(TOKEN_EXPIRY_KEY);
-    if (!storedExpiry) return true;
+    return () => clearTimeout(timer);
+  }, [data, queryClient]);
 
-    const expiryTime = parseInt(storedExpiry);
-    const currentTime = Date.now();
-    const fiveMinutes = 5 * 60 * 1000; // 5 minutes in milliseconds
+  // Come back to the current page once Google's consent screen is done
+  const login = () => {
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.href = `${LOGIN_PATH}?returnTo=${encodeURIComponent(
+      returnTo
+    )}`;
+  };
 
-    return currentTime >= expiryTime - fiveMinutes;
+  const logout = async () => {
+    try {
+      await fetch("/api/auth/session", { method: "DELETE" });
+    } catch (error) {
+      console.error("Sign out failed:", error);
+    }
+    queryClient.setQueryData(SESSION_QUERY_KEY, { authenticated: false });
+    queryClient.removeQueries({
+      predicate: (query) => query.queryKey[0] !== SESSION_QUERY_KEY[0],
+    });
   };
 
+  // Re-read the session, e.g. after an API call reported 401
+  const invalidateSession = () =>
+    queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEY });
+
   return {
-    token,
-    refreshToken,
-    isAuthenticated,
+    user: data?.user ?? null,
+    scopes: data?.scopes ?? [],
+    isAuthenticated: !!data?.authenticated,
     isLoading,
     login,
     logout,
-    refreshAccessToken,
-    isTokenExpired,
+    invalidateSession,
   };
 }
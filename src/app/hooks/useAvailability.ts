@@ -0,0 +1,71 @@
+import { useMutation } from "@tanstack/react-query";
+import { toApiError } from "@/lib/apiErrors";
+
+// Types
+export interface AttendeeInput {
+  email: string;
+  timeZone: string;
+}
+
+export interface AvailabilityQuery {
+  attendees: AttendeeInput[];
+  durationMinutes: number;
+  // "HH:mm" on each attendee's own clock
+  workingHours: { start: string; end: string };
+  includeWeekends: boolean;
+  // Search window as calendar days in timeZone, like the events date filter
+  startDate?: string;
+  endDate?: string;
+  timeZone: string;
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export interface AttendeeAvailability extends AttendeeInput {
+  busy: BusyInterval[];
+  error?: string;
+}
+
+export interface CandidateSlot {
+  start: string;
+  end: string;
+  // Emails of attendees who are free and within their working hours
+  available: string[];
+  busy: string[];
+  outsideHours: string[];
+}
+
+export interface AvailabilityResult {
+  attendees: AttendeeAvailability[];
+  slots: CandidateSlot[];
+}
+
+// API functions
+async function fetchAvailability(
+  query: AvailabilityQuery
+): Promise<AvailabilityResult> {
+  const response = await fetch("/api/freebusy", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(query),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to check availability");
+  }
+
+  const data: { data: AvailabilityResult } = await response.json();
+  return data.data;
+}
+
+// Custom hook
+// Ranked meeting times for a group; run on demand rather than cached, since
+// every search has its own attendees and settings
+export function useAvailability() {
+  return useMutation<AvailabilityResult, Error, AvailabilityQuery>({
+    mutationFn: fetchAvailability,
+  });
+}
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getRetryDelay, shouldRetry, toApiError } from "@/lib/apiErrors";
+
+// Constants
+const CONNECTION_QUERY_KEY = ["caldav-connection"];
+
+// Types
+export interface CaldavConnection {
+  connected: boolean;
+  account: { serverUrl: string; username: string } | null;
+}
+
+export interface CaldavConnectionInput {
+  serverUrl: string;
+  username: string;
+  // An app password where the server supports them
+  password: string;
+}
+
+// API functions
+async function sendConnectionRequest(
+  method: string,
+  body?: CaldavConnectionInput
+): Promise<CaldavConnection> {
+  const response = await fetch("/api/auth/caldav", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to update the CalDAV connection");
+  }
+
+  const data: { data: CaldavConnection | null } = await response.json();
+  return data.data ?? { connected: false, account: null };
+}
+
+// Custom hook
+// The CalDAV server connected to the signed-in user, if any
+export function useCaldavConnection(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: CONNECTION_QUERY_KEY,
+    queryFn: () => sendConnectionRequest("GET"),
+    enabled,
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+
+  const onSuccess = (connection: CaldavConnection) => {
+    queryClient.setQueryData(CONNECTION_QUERY_KEY, connection);
+    // Its calendars join or leave the list
+    queryClient.invalidateQueries({ queryKey: ["calendars"] });
+  };
+
+  const connect = useMutation({
+    mutationFn: (input: CaldavConnectionInput) =>
+      sendConnectionRequest("POST", input),
+    onSuccess,
+  });
+
+  const disconnect = useMutation({
+    mutationFn: () => sendConnectionRequest("DELETE"),
+    onSuccess,
+  });
+
+  return {
+    connection: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    connect,
+    disconnect,
+  };
+}
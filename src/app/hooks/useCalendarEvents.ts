@@ -1,4 +1,19 @@
-import { useQuery } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import {
+  getRetryDelay,
+  isApiError,
+  shouldRetry,
+  toApiError,
+} from "@/lib/apiErrors";
+
+// Constants
+const PAGE_SIZE = 50;
+const FALLBACK_POLL_INTERVAL = 60000; // Only used while push is unavailable
 
 // Types
 export interface CalendarEvent {
@@ -7,116 +22,300 @@ export interface CalendarEvent {
   start?: {
     dateTime?: string;
     date?: string;
+    timeZone?: string;
   };
   end?: {
     dateTime?: string;
     date?: string;
+    timeZone?: string;
   };
   description?: string;
   location?: string;
+  calendarId?: string;
+  // Set on occurrences of a recurring series
+  recurringEventId?: string;
+  originalStartTime?: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
+  // The series' RRULE, EXDATE and RDATE lines
+  recurrence?: string[];
+  status?: string;
+  // The description with only safe formatting and links left
+  descriptionHtml?: string;
+  htmlLink?: string;
+  organizer?: EventPerson;
+  creator?: EventPerson;
+  attendees?: EventAttendee[];
+  conference?: EventConference;
+  attachments?: EventAttachment[];
+  reminders?: EventReminders;
+}
+
+export type ResponseStatus =
+  "needsAction" | "declined" | "tentative" | "accepted";
+
+export interface EventPerson {
+  email?: string;
+  displayName?: string;
+  // The signed-in user
+  self?: boolean;
+}
+
+export interface EventAttendee extends EventPerson {
+  responseStatus: ResponseStatus;
+  optional?: boolean;
+  organizer?: boolean;
+  resource?: boolean;
+  comment?: string;
+}
+
+export interface EventConference {
+  name?: string;
+  iconUri?: string;
+  joinUrl?: string;
+  entryPoints: { type: string; uri: string; label?: string }[];
+}
+
+export interface EventAttachment {
+  title: string;
+  fileUrl: string;
+  mimeType?: string;
+  iconLink?: string;
+}
+
+export interface EventReminders {
+  // The calendar's default reminders apply
+  useDefault: boolean;
+  overrides: { method: string; minutes: number }[];
 }
 
 interface EventsResponse {
   data: CalendarEvent[];
+  nextPageToken?: string;
+}
+
+export interface EventsPage {
+  items: CalendarEvent[];
+  nextPageToken?: string;
+}
+
+export interface EventChanges {
+  added: CalendarEvent[];
+  updated: CalendarEvent[];
+  cancelled: string[];
+  cursor: string;
 }
 
-interface DateFilter {
+interface EventFilter {
   startDate?: string;
   endDate?: string;
+  timeZone?: string;
+  calendarIds?: string[];
+  // Only invitations still awaiting the user's response
+  needsResponse?: boolean;
+  // Keywords and field filters such as location:berlin
+  q?: string;
 }
 
 // API functions
-async function fetchCalendarEvents(
-  token: string,
-  dateFilter?: DateFilter
-): Promise<CalendarEvent[]> {
+function createFilterParams(filter?: EventFilter): URLSearchParams {
   const params = new URLSearchParams();
-  if (dateFilter?.startDate) {
-    params.append("startDate", dateFilter.startDate);
+  if (filter?.startDate) {
+    params.append("startDate", filter.startDate);
+  }
+  if (filter?.endDate) {
+    params.append("endDate", filter.endDate);
+  }
+  if (filter?.timeZone) {
+    params.append("timeZone", filter.timeZone);
+  }
+  if (filter?.calendarIds?.length) {
+    params.append("calendarIds", filter.calendarIds.join(","));
+  }
+  if (filter?.needsResponse) {
+    params.append("needsResponse", "true");
   }
-  if (dateFilter?.endDate) {
-    params.append("endDate", dateFilter.endDate);
+  if (filter?.q) {
+    params.append("q", filter.q);
   }
+  return params;
+}
+
+// Download link for the events matching a filter, as an iCalendar file
+export function getEventsExportUrl(filter?: EventFilter): string {
+  return `/api/events/export.ics?${createFilterParams(filter).toString()}`;
+}
+
+// The signal aborts requests React Query no longer needs, such as searches
+// the user has typed past
+async function fetchCalendarEvents(
+  filter?: EventFilter,
+  pageToken?: string,
+  signal?: AbortSignal
+): Promise<EventsPage> {
+  const params = createFilterParams(filter);
+  if (pageToken) {
+    params.append("pageToken", pageToken);
+  }
+  params.append("limit", String(PAGE_SIZE));
 
   const url = `/api/events${params.toString() ? `?${params.toString()}` : ""}`;
 
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${token}` },
-  });
+  const response = await fetch(url, { signal });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(errorText || "Failed to fetch calendar events");
+    throw await toApiError(response, "Failed to fetch calendar events");
   }
 
   const data: EventsResponse = await response.json();
-  return data.data || [];
+  return {
+    items: data.data || [],
+    nextPageToken: data.nextPageToken,
+  };
 }
 
-// Custom hook
-export function useCalendarEvents(
-  token: string | null,
-  dateFilter?: DateFilter,
-  refreshToken?: () => Promise<string | null>,
-  isTokenExpired?: () => boolean
+async function fetchEventChanges(
+  calendarIds: string[],
+  cursor: string | null
+): Promise<EventChanges> {
+  const params = new URLSearchParams();
+  if (cursor) {
+    params.append("cursor", cursor);
+  }
+  if (calendarIds.length) {
+    params.append("calendarIds", calendarIds.join(","));
+  }
+
+  const url = `/api/events/changes${params.toString() ? `?${params.toString()}` : ""}`;
+
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to fetch event changes");
+  }
+
+  const data: { data: EventChanges } = await response.json();
+  return data.data;
+}
+
+function hasChanges(changes: EventChanges): boolean {
+  return (
+    changes.added.length > 0 ||
+    changes.updated.length > 0 ||
+    changes.cancelled.length > 0
+  );
+}
+
+// Listens for push notifications relayed by the server over Server-Sent
+// Events. Returns whether push delivery is currently active.
+function useEventStream(enabled: boolean, calendarIds: string[]) {
+  const queryClient = useQueryClient();
+  const [isPushActive, setIsPushActive] = useState(false);
+  const calendarParam = calendarIds.join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const params = new URLSearchParams();
+    if (calendarParam) params.append("calendarIds", calendarParam);
+
+    const source = new EventSource(`/api/events/stream?${params.toString()}`);
+
+    source.addEventListener("ready", (event) => {
+      const { push } = JSON.parse((event as MessageEvent).data);
+      setIsPushActive(!!push);
+    });
+
+    source.addEventListener("change", () => {
+      // Pull the delta; the event list is only refetched if it changed
+      queryClient.invalidateQueries({
+        queryKey: ["calendar-event-changes"],
+      });
+    });
+
+    // EventSource reconnects on its own; poll until it is ready again
+    source.onerror = () => setIsPushActive(false);
+
+    return () => {
+      source.close();
+      setIsPushActive(false);
+    };
+  }, [enabled, calendarParam, queryClient]);
+
+  return isPushActive;
+}
+
+// Fetches deltas from the server-side sync cache and only invalidates the
+// event list when something actually changed
+function useEventChanges(
+  enabled: boolean,
+  calendarIds: string[],
+  isPushActive: boolean
 ) {
+  const queryClient = useQueryClient();
+  const cursorRef = useRef<string | null>(null);
+
   return useQuery({
-    queryKey: ["calendar-events", token, dateFilter],
+    queryKey: ["calendar-event-changes", calendarIds],
     queryFn: async () => {
-      try {
-        // Check if token is expired before making the request
-        if (isTokenExpired && isTokenExpired()) {
-          if (refreshToken) {
-            const newToken = await refreshToken();
-            if (newToken) {
-              return await fetchCalendarEvents(newToken, dateFilter);
-            }
-          }
-          throw new Error("Token expired and refresh failed");
-        }
+      const changes = await fetchEventChanges(calendarIds, cursorRef.current);
+      cursorRef.current = changes.cursor;
 
-        return await fetchCalendarEvents(token!, dateFilter);
-      } catch (error: any) {
-        // Only attempt refresh for specific authentication errors, not all errors
-        const isAuthError =
-          error?.message?.includes("token") ||
-          error?.message?.includes("auth") ||
-          error?.message?.includes("authentication") ||
-          error?.message?.includes("unauthorized") ||
-          error?.message?.includes("401");
-
-        if (isAuthError && refreshToken) {
-          try {
-            const newToken = await refreshToken();
-            if (newToken) {
-              return await fetchCalendarEvents(newToken, dateFilter);
-            }
-          } catch (refreshError: any) {
-            // If refresh fails, don't retry - this prevents infinite loops
-            console.error("Token refresh failed:", refreshError);
-            throw new Error("Authentication failed. Please sign in again.");
-          }
-        }
-        throw error;
+      if (hasChanges(changes)) {
+        await queryClient.invalidateQueries({
+          queryKey: ["calendar-events"],
+        });
       }
+
+      return changes;
+    },
+    enabled,
+    refetchInterval: (query) => {
+      // Back off for as long as the server asked after a rate limit
+      const { error } = query.state;
+      if (isApiError(error) && error.retryAfter) {
+        return Math.max(error.retryAfter, FALLBACK_POLL_INTERVAL);
+      }
+      return isPushActive ? false : FALLBACK_POLL_INTERVAL;
     },
-    enabled: !!token,
-    refetchInterval: 30000, // Poll every 30 seconds
     refetchOnWindowFocus: true,
-    staleTime: 10000, // Consider data stale after 10 seconds
-    retry: (failureCount, error: any) => {
-      // Don't retry on authentication errors - this prevents infinite loops
-      const isAuthError =
-        error?.message?.includes("token") ||
-        error?.message?.includes("auth") ||
-        error?.message?.includes("authentication") ||
-        error?.message?.includes("unauthorized") ||
-        error?.message?.includes("401");
-
-      if (isAuthError) {
-        return false;
+    staleTime: 0,
+    retry: false, // The next poll or push notification tries again
+  });
+}
+
+// Custom hook
+export function useCalendarEvents(
+  enabled: boolean,
+  filter?: EventFilter,
+  onAuthError?: () => void
+) {
+  const calendarIds = filter?.calendarIds ?? [];
+  const isPushActive = useEventStream(enabled, calendarIds);
+  useEventChanges(enabled, calendarIds, isPushActive);
+
+  return useInfiniteQuery({
+    queryKey: ["calendar-events", filter],
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage: EventsPage) => lastPage.nextPageToken,
+    queryFn: async ({ pageParam, signal }) => {
+      try {
+        // The server refreshes Google tokens itself using the session
+        return await fetchCalendarEvents(filter, pageParam, signal);
+      } catch (error) {
+        // The session is gone or Google revoked access; re-check sign-in
+        if (isApiError(error, "unauthenticated")) {
+          onAuthError?.();
+        }
+        throw error;
       }
-      return failureCount < 3;
     },
+    enabled,
+    refetchOnWindowFocus: false, // Window focus triggers a delta poll instead
+    staleTime: Infinity, // Invalidated by the change feed
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
   });
 }
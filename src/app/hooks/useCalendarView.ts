@@ -0,0 +1,51 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import { format, isValid, parseISO, startOfDay } from "date-fns";
+import { CalendarView, isCalendarView } from "@/lib/eventLayout";
+import { DATE_PARAM_FORMAT } from "@/lib/dateRanges";
+import { useUpdateSearchParams } from "./useUpdateSearchParams";
+
+// Constants
+const DEFAULT_VIEW: CalendarView = "list";
+
+// Custom hook
+// Keeps the selected view and the date it is anchored on in the URL
+// (`?view=week&date=2025-07-14`), so reloads and shared links show the same
+// thing
+export function useCalendarView() {
+  const searchParams = useSearchParams();
+  const updateParams = useUpdateSearchParams();
+
+  const viewParam = searchParams.get("view");
+  const dateParam = searchParams.get("date");
+
+  const view = isCalendarView(viewParam) ? viewParam : DEFAULT_VIEW;
+  const anchorDate = useMemo(() => {
+    const parsed = dateParam ? parseISO(dateParam) : null;
+    return parsed && isValid(parsed) ? parsed : startOfDay(new Date());
+  }, [dateParam]);
+
+  const setView = useCallback(
+    (nextView: CalendarView) =>
+      updateParams({ view: nextView === DEFAULT_VIEW ? null : nextView }),
+    [updateParams]
+  );
+
+  const setAnchorDate = useCallback(
+    (date: Date) => updateParams({ date: format(date, DATE_PARAM_FORMAT) }),
+    [updateParams]
+  );
+
+  // Switch view and date in one URL update; two separate updates would each
+  // start from the same query string and the second would undo the first
+  const openDate = useCallback(
+    (nextView: CalendarView, date: Date) =>
+      updateParams({
+        view: nextView === DEFAULT_VIEW ? null : nextView,
+        date: format(date, DATE_PARAM_FORMAT),
+      }),
+    [updateParams]
+  );
+
+  return { view, anchorDate, setView, setAnchorDate, openDate };
+}
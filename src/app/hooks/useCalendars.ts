@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { getRetryDelay, shouldRetry, toApiError } from "@/lib/apiErrors";
+
+// Constants
+const WRITABLE_ROLES = ["owner", "writer"];
+
+// Types
+export interface CalendarListEntry {
+  id: string;
+  summary: string;
+  description?: string;
+  backgroundColor?: string;
+  foregroundColor?: string;
+  primary: boolean;
+  selected: boolean;
+  accessRole?: string;
+  // Outlook and CalDAV calendars are listed alongside Google's, read-only
+  provider: "google" | "microsoft" | "caldav";
+}
+
+interface CalendarsResponse {
+  data: CalendarListEntry[];
+}
+
+// Calendars the user can add events to
+export function getWritableCalendars(
+  calendars: CalendarListEntry[]
+): CalendarListEntry[] {
+  return calendars.filter(
+    (calendar) =>
+      !calendar.accessRole || WRITABLE_ROLES.includes(calendar.accessRole)
+  );
+}
+
+// Calendars from providers this app only reads, which can't be edited here
+export function isReadOnlyProvider(calendar?: CalendarListEntry): boolean {
+  return !!calendar && calendar.provider !== "google";
+}
+
+// API functions
+async function fetchCalendars(): Promise<CalendarListEntry[]> {
+  const response = await fetch("/api/calendars");
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to fetch calendars");
+  }
+
+  const data: CalendarsResponse = await response.json();
+  return data.data || [];
+}
+
+// Custom hook
+export function useCalendars(enabled: boolean) {
+  return useQuery({
+    queryKey: ["calendars"],
+    queryFn: fetchCalendars,
+    enabled,
+    staleTime: 5 * 60 * 1000, // Calendar lists rarely change
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+}
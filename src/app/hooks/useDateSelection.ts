@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  DateSelection,
+  parseDateSelection,
+  toDateParams,
+} from "@/lib/dateRanges";
+import { useUpdateSearchParams } from "./useUpdateSearchParams";
+
+// Custom hook
+// Keeps the date filter in the URL (`?range=this-week` or
+// `?from=2025-07-01&to=2025-07-07`) so filtered views can be shared
+export function useDateSelection() {
+  const searchParams = useSearchParams();
+  const updateSearchParams = useUpdateSearchParams();
+
+  const selection = useMemo(
+    () => parseDateSelection(searchParams),
+    [searchParams]
+  );
+
+  const setSelection = useCallback(
+    (next: DateSelection) => updateSearchParams(toDateParams(next)),
+    [updateSearchParams]
+  );
+
+  return { selection, setSelection };
+}
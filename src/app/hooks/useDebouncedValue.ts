@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// Custom hook
+// Returns value once it has stopped changing for delay milliseconds
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,366 @@
+import {
+  InfiniteData,
+  QueryKey,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { CalendarEvent, EventsPage } from "./useCalendarEvents";
+import { isApiError, toApiError } from "@/lib/apiErrors";
+import { RecurrenceScope } from "@/lib/recurrence";
+import { RsvpResponse } from "@/lib/rsvp";
+import { getBrowserTimeZone } from "@/lib/timeZones";
+
+// Constants
+const EVENTS_QUERY_KEY = ["calendar-events"];
+const WRITE_SCOPE_LOGIN_PATH = "/api/auth/login?scope=write";
+
+// Types
+export interface EventTimeInput {
+  dateTime?: string;
+  date?: string;
+  timeZone?: string;
+}
+
+export interface EventInput {
+  summary: string;
+  description?: string;
+  location?: string;
+  start: EventTimeInput;
+  end: EventTimeInput;
+}
+
+interface CreateEventVariables {
+  calendarId: string;
+  event: EventInput;
+}
+
+interface UpdateEventVariables {
+  id: string;
+  calendarId: string;
+  event: Partial<EventInput>;
+  scope?: RecurrenceScope;
+}
+
+interface DeleteEventVariables {
+  id: string;
+  calendarId: string;
+  scope?: RecurrenceScope;
+}
+
+interface RespondToEventVariables {
+  id: string;
+  calendarId: string;
+  response: RsvpResponse;
+  comment?: string;
+}
+
+// A dry run reports "new" or "duplicate"; an import reports the outcome
+export type ImportStatus = "new" | "duplicate" | "imported" | "failed";
+
+export interface ImportedEvent extends EventInput {
+  iCalUID: string;
+  recurrence?: string[];
+}
+
+export interface ImportResult {
+  event: ImportedEvent;
+  status: ImportStatus;
+  code?: string;
+  message?: string;
+}
+
+export interface ImportReport {
+  results: ImportResult[];
+  // Entries in the file that could not be read as events
+  errors: string[];
+}
+
+// One request's share of an import; large files take several
+interface ImportPage extends ImportReport {
+  nextStart?: number;
+}
+
+interface ImportEventsVariables {
+  calendarId: string;
+  ics: string;
+  // Called with the results so far after each batch of an import
+  onProgress?: (report: ImportReport) => void;
+}
+
+type EventsData = InfiniteData<EventsPage, string | undefined>;
+
+interface MutationContext {
+  snapshots: [QueryKey, EventsData | undefined][];
+}
+
+// API functions
+async function sendEventRequest<T = CalendarEvent>(
+  url: string,
+  method: string,
+  body?: unknown,
+  fallback = "Failed to save event"
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, fallback);
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+// Floating times in the file are read in the browser's time zone
+function sendImportRequest(
+  { calendarId, ics }: ImportEventsVariables,
+  dryRun: boolean,
+  start = 0
+): Promise<ImportPage> {
+  return sendEventRequest<ImportPage>(
+    "/api/events/import",
+    "POST",
+    { calendarId, ics, timeZone: getBrowserTimeZone(), dryRun, start },
+    "Failed to import events"
+  );
+}
+
+// The server imports a file in batches; keep sending it until all are done
+async function importAllEvents(
+  variables: ImportEventsVariables
+): Promise<ImportReport> {
+  const results: ImportResult[] = [];
+  let start: number | undefined = 0;
+  let errors: string[] = [];
+
+  while (start !== undefined) {
+    const page: ImportPage = await sendImportRequest(variables, false, start);
+    results.push(...page.results);
+    errors = page.errors;
+    start = page.nextStart;
+    variables.onProgress?.({ results: [...results], errors });
+  }
+
+  return { results, errors };
+}
+
+// Cache helpers
+function getEventTime(time?: EventTimeInput): number {
+  const value = time?.dateTime || time?.date;
+  return value ? new Date(value).getTime() : 0;
+}
+
+function updateCachedEvents(
+  data: EventsData | undefined,
+  update: (events: CalendarEvent[], pageIndex: number) => CalendarEvent[]
+): EventsData | undefined {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => ({
+      ...page,
+      items: update(page.items, index),
+    })),
+  };
+}
+
+// Ask the user to grant write access the first time a write needs it
+export function requestWriteAccess(): void {
+  const confirmed = window.confirm(
+    "Editing events needs permission to modify your Google Calendar. Continue to Google to grant it?"
+  );
+  if (confirmed) {
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.href = `${WRITE_SCOPE_LOGIN_PATH}&returnTo=${encodeURIComponent(
+      returnTo
+    )}`;
+  }
+}
+
+// Custom hook
+export function useEventMutations() {
+  const queryClient = useQueryClient();
+
+  // Snapshot every cached event list, then apply the optimistic update
+  const applyOptimisticUpdate = async (
+    update: (events: CalendarEvent[], pageIndex: number) => CalendarEvent[]
+  ): Promise<MutationContext> => {
+    await queryClient.cancelQueries({ queryKey: EVENTS_QUERY_KEY });
+
+    const snapshots = queryClient.getQueriesData<EventsData>({
+      queryKey: EVENTS_QUERY_KEY,
+    });
+    queryClient.setQueriesData<EventsData>(
+      { queryKey: EVENTS_QUERY_KEY },
+      (data) => updateCachedEvents(data, update)
+    );
+
+    return { snapshots };
+  };
+
+  const findCachedEvent = (id: string, calendarId: string) =>
+    queryClient
+      .getQueriesData<EventsData>({ queryKey: EVENTS_QUERY_KEY })
+      .flatMap(([, data]) => data?.pages.flatMap((page) => page.items) ?? [])
+      .find((event) => event.id === id && event.calendarId === calendarId);
+
+  const rollback = (error: Error, context?: MutationContext) => {
+    context?.snapshots.forEach(([queryKey, data]) => {
+      queryClient.setQueryData(queryKey, data);
+    });
+
+    if (isApiError(error, "insufficient_scope")) {
+      requestWriteAccess();
+    }
+  };
+
+  const refetchEvents = () =>
+    queryClient.invalidateQueries({ queryKey: EVENTS_QUERY_KEY });
+
+  const createEvent = useMutation<
+    CalendarEvent,
+    Error,
+    CreateEventVariables,
+    MutationContext
+  >({
+    mutationFn: ({ calendarId, event }) =>
+      sendEventRequest("/api/events", "POST", { calendarId, event }),
+    onMutate: ({ calendarId, event }) =>
+      applyOptimisticUpdate((events, pageIndex) => {
+        if (pageIndex !== 0) return events;
+        const placeholder: CalendarEvent = {
+          ...event,
+          id: `pending-${Date.now()}`,
+          calendarId,
+        };
+        return [...events, placeholder].sort(
+          (a, b) => getEventTime(a.start) - getEventTime(b.start)
+        );
+      }),
+    onError: (error, _variables, context) => rollback(error, context),
+    onSettled: refetchEvents,
+  });
+
+  const updateEvent = useMutation<
+    CalendarEvent,
+    Error,
+    UpdateEventVariables,
+    MutationContext
+  >({
+    mutationFn: ({ id, calendarId, event, scope }) =>
+      sendEventRequest(`/api/events/${encodeURIComponent(id)}`, "PATCH", {
+        calendarId,
+        event,
+        scope,
+      }),
+    // Series changes touch occurrences this page can't work out, so they
+    // only show once the events are refetched
+    onMutate: ({ id, calendarId, event, scope = "this" }) =>
+      applyOptimisticUpdate((events) =>
+        scope !== "this"
+          ? events
+          : events.map((existing) =>
+              existing.id === id && existing.calendarId === calendarId
+                ? { ...existing, ...event }
+                : existing
+            )
+      ),
+    onError: (error, _variables, context) => rollback(error, context),
+    onSettled: refetchEvents,
+  });
+
+  const deleteEvent = useMutation<
+    CalendarEvent,
+    Error,
+    DeleteEventVariables,
+    MutationContext
+  >({
+    mutationFn: ({ id, calendarId, scope = "this" }) =>
+      sendEventRequest(
+        `/api/events/${encodeURIComponent(id)}?${new URLSearchParams({
+          calendarId,
+          scope,
+        })}`,
+        "DELETE"
+      ),
+    onMutate: ({ id, calendarId, scope = "this" }) => {
+      const target = findCachedEvent(id, calendarId);
+      const isRemoved = (existing: CalendarEvent) =>
+        existing.calendarId === calendarId &&
+        (existing.id === id ||
+          (scope !== "this" &&
+            !!target?.recurringEventId &&
+            existing.recurringEventId === target.recurringEventId &&
+            (scope === "all" ||
+              getEventTime(existing.start) >= getEventTime(target.start))));
+
+      return applyOptimisticUpdate((events) =>
+        events.filter((existing) => !isRemoved(existing))
+      );
+    },
+    onError: (error, _variables, context) => rollback(error, context),
+    onSettled: refetchEvents,
+  });
+
+  // Answer an invitation; the user's own guest entry updates right away
+  const respondToEvent = useMutation<
+    CalendarEvent,
+    Error,
+    RespondToEventVariables,
+    MutationContext
+  >({
+    mutationFn: ({ id, calendarId, response, comment }) =>
+      sendEventRequest(
+        `/api/events/${encodeURIComponent(id)}/rsvp`,
+        "POST",
+        { calendarId, response, comment },
+        "Failed to send response"
+      ),
+    onMutate: ({ id, calendarId, response, comment }) =>
+      applyOptimisticUpdate((events) =>
+        events.map((existing) =>
+          existing.id === id && existing.calendarId === calendarId
+            ? {
+                ...existing,
+                attendees: existing.attendees?.map((attendee) =>
+                  attendee.self
+                    ? {
+                        ...attendee,
+                        responseStatus: response,
+                        comment: comment ?? attendee.comment,
+                      }
+                    : attendee
+                ),
+              }
+            : existing
+        )
+      ),
+    onError: (error, _variables, context) => rollback(error, context),
+    onSettled: refetchEvents,
+  });
+
+  // Parse a file and flag events the calendar already has, without importing
+  const previewImport = useMutation<ImportReport, Error, ImportEventsVariables>(
+    {
+      mutationFn: (variables) => sendImportRequest(variables, true),
+    }
+  );
+
+  const importEvents = useMutation<ImportReport, Error, ImportEventsVariables>({
+    mutationFn: importAllEvents,
+    onError: (error) => rollback(error),
+    onSettled: refetchEvents,
+  });
+
+  return {
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    respondToEvent,
+    previewImport,
+    importEvents,
+  };
+}
@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getRetryDelay, shouldRetry, toApiError } from "@/lib/apiErrors";
+
+// Constants
+const FEED_QUERY_KEY = ["feed"];
+
+// Types
+export interface FeedSettings {
+  url: string;
+  // Calendars published; null follows the defaults (primary)
+  calendarIds: string[] | null;
+  pastDays: number;
+  futureDays: number;
+  timeZone: string;
+  createdAt: number;
+}
+
+export type FeedSettingsInput = Partial<
+  Pick<FeedSettings, "calendarIds" | "pastDays" | "futureDays" | "timeZone">
+>;
+
+// API functions
+async function sendFeedRequest(
+  method: string,
+  body?: FeedSettingsInput
+): Promise<FeedSettings | null> {
+  const response = await fetch("/api/feeds", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to update the calendar feed");
+  }
+
+  const data: { data: FeedSettings | null } = await response.json();
+  return data.data;
+}
+
+// Custom hook
+// The signed-in user's private iCalendar feed, or null until one is created
+export function useFeedSettings(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: FEED_QUERY_KEY,
+    queryFn: () => sendFeedRequest("GET"),
+    enabled,
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+
+  const setFeed = (feed: FeedSettings | null) => {
+    queryClient.setQueryData(FEED_QUERY_KEY, feed);
+  };
+
+  // Creates the feed, or replaces its URL when it already exists
+  const rotateFeed = useMutation({
+    mutationFn: (settings: FeedSettingsInput) =>
+      sendFeedRequest("POST", settings),
+    onSuccess: setFeed,
+  });
+
+  const updateFeed = useMutation({
+    mutationFn: (settings: FeedSettingsInput) =>
+      sendFeedRequest("PUT", settings),
+    onSuccess: setFeed,
+  });
+
+  const revokeFeed = useMutation({
+    mutationFn: () => sendFeedRequest("DELETE"),
+    onSuccess: () => setFeed(null),
+  });
+
+  return {
+    feed: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    rotateFeed,
+    updateFeed,
+    revokeFeed,
+  };
+}
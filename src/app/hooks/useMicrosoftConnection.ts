@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getRetryDelay, shouldRetry, toApiError } from "@/lib/apiErrors";
+
+// Constants
+const CONNECTION_QUERY_KEY = ["microsoft-connection"];
+
+// Types
+export interface MicrosoftConnection {
+  // Whether the server has Microsoft app credentials at all
+  configured: boolean;
+  connected: boolean;
+  account: { email?: string; name?: string } | null;
+}
+
+// API functions
+async function fetchConnection(): Promise<MicrosoftConnection> {
+  const response = await fetch("/api/auth/microsoft");
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to load the Outlook connection");
+  }
+
+  const data: { data: MicrosoftConnection } = await response.json();
+  return data.data;
+}
+
+async function disconnect(): Promise<void> {
+  const response = await fetch("/api/auth/microsoft", { method: "DELETE" });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to disconnect Outlook");
+  }
+}
+
+// Custom hook
+// The Outlook account connected to the signed-in user, if any
+export function useMicrosoftConnection(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: CONNECTION_QUERY_KEY,
+    queryFn: fetchConnection,
+    enabled,
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+
+  // Consent happens on Microsoft's site, which redirects back here
+  const connect = () => {
+    window.location.href = `/api/auth/microsoft/login?returnTo=${encodeURIComponent(
+      window.location.pathname
+    )}`;
+  };
+
+  const disconnectMutation = useMutation({
+    mutationFn: disconnect,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CONNECTION_QUERY_KEY });
+      // Its calendars leave the list
+      queryClient.invalidateQueries({ queryKey: ["calendars"] });
+    },
+  });
+
+  return {
+    connection: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error as Error | null,
+    connect,
+    disconnect: disconnectMutation,
+  };
+}
@@ -0,0 +1,161 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { requestWriteAccess } from "./useEventMutations";
+import {
+  getRetryDelay,
+  isApiError,
+  shouldRetry,
+  toApiError,
+} from "@/lib/apiErrors";
+
+// Constants
+const PAIRS_QUERY_KEY = ["sync-pairs"];
+const CONFLICTS_QUERY_KEY = ["sync-conflicts"];
+
+// Types
+export type SyncPrivacy = "details" | "busy";
+export type SyncDirection = "one-way" | "two-way";
+
+export interface SyncRunSummary {
+  finishedAt: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  conflicts: number;
+  failed: number;
+  error?: string;
+}
+
+export interface SyncPair {
+  id: string;
+  sourceCalendarId: string;
+  targetCalendarId: string;
+  privacy: SyncPrivacy;
+  direction: SyncDirection;
+  createdAt: number;
+  lastRun?: SyncRunSummary;
+}
+
+export type SyncPairInput = Pick<
+  SyncPair,
+  "sourceCalendarId" | "targetCalendarId" | "privacy" | "direction"
+>;
+
+export interface SyncConflict {
+  id: string;
+  pairId: string;
+  eventSummary: string;
+  // The side modified last, whose version was kept
+  winner: "source" | "target";
+  sourceUpdated?: string;
+  targetUpdated?: string;
+  resolvedAt: number;
+}
+
+// API functions
+async function sendSyncRequest<T>(
+  path: string,
+  method: string,
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to update synced calendars");
+  }
+
+  const data: { data: T } = await response.json();
+  return data.data;
+}
+
+// Custom hook
+// Calendars mirrored into each other, and the conflicts resolved doing so
+export function useSyncPairs(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  const pairsQuery = useQuery({
+    queryKey: PAIRS_QUERY_KEY,
+    queryFn: () => sendSyncRequest<SyncPair[]>("/api/sync/pairs", "GET"),
+    enabled,
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+
+  const conflictsQuery = useQuery({
+    queryKey: CONFLICTS_QUERY_KEY,
+    queryFn: () =>
+      sendSyncRequest<SyncConflict[]>("/api/sync/conflicts", "GET"),
+    enabled,
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+
+  const setPair = (pair: SyncPair) => {
+    queryClient.setQueryData<SyncPair[]>(PAIRS_QUERY_KEY, (pairs = []) =>
+      pairs.some(({ id }) => id === pair.id)
+        ? pairs.map((entry) => (entry.id === pair.id ? pair : entry))
+        : [...pairs, pair]
+    );
+  };
+
+  // Runs write events, which may need the write scope first
+  const onWriteError = (error: Error) => {
+    if (isApiError(error, "insufficient_scope")) {
+      requestWriteAccess();
+    }
+  };
+
+  const refreshAfterRun = () => {
+    queryClient.invalidateQueries({ queryKey: PAIRS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: CONFLICTS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["calendar-events"] });
+  };
+
+  const createPair = useMutation({
+    mutationFn: (input: SyncPairInput) =>
+      sendSyncRequest<SyncPair>("/api/sync/pairs", "POST", input),
+    onSuccess: setPair,
+  });
+
+  const updatePair = useMutation({
+    mutationFn: ({ id, ...input }: Partial<SyncPairInput> & { id: string }) =>
+      sendSyncRequest<SyncPair>(`/api/sync/pairs/${id}`, "PATCH", input),
+    onSuccess: setPair,
+  });
+
+  const runPair = useMutation({
+    mutationFn: (id: string) =>
+      sendSyncRequest<SyncPair>(`/api/sync/pairs/${id}/run`, "POST"),
+    onSuccess: setPair,
+    onError: onWriteError,
+    // A failed run is recorded on the pair as well
+    onSettled: refreshAfterRun,
+  });
+
+  const removePair = useMutation({
+    mutationFn: (id: string) =>
+      sendSyncRequest(`/api/sync/pairs/${id}`, "DELETE"),
+    onError: onWriteError,
+    onSettled: refreshAfterRun,
+  });
+
+  const clearConflicts = useMutation({
+    mutationFn: () => sendSyncRequest("/api/sync/conflicts", "DELETE"),
+    onSuccess: () => queryClient.setQueryData(CONFLICTS_QUERY_KEY, []),
+  });
+
+  return {
+    pairs: pairsQuery.data ?? [],
+    conflicts: conflictsQuery.data ?? [],
+    isLoading: pairsQuery.isLoading,
+    error: (pairsQuery.error ?? conflictsQuery.error) as Error | null,
+    createPair,
+    updatePair,
+    runPair,
+    removePair,
+    clearConflicts,
+  };
+}
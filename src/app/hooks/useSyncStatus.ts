@@ -0,0 +1,55 @@
+import { useQuery } from "@tanstack/react-query";
+import { getRetryDelay, shouldRetry, toApiError } from "@/lib/apiErrors";
+
+// Constants
+const STATUS_REFRESH_INTERVAL = 60 * 1000;
+
+// Types
+export interface UserSyncStatus {
+  startedAt: number;
+  finishedAt: number;
+  lastSuccessAt?: number;
+  calendars: number;
+  pairs: number;
+  failedPairs: number;
+  code?: string;
+  error?: string;
+}
+
+export interface WorkerStatus {
+  startedAt: number;
+  finishedAt: number;
+  users: number;
+  failedUsers: number;
+}
+
+export interface SyncStatus {
+  // Both null until the scheduler first runs
+  user: UserSyncStatus | null;
+  worker: WorkerStatus | null;
+}
+
+// API functions
+async function fetchSyncStatus(): Promise<SyncStatus> {
+  const response = await fetch("/api/sync/status");
+
+  if (!response.ok) {
+    throw await toApiError(response, "Failed to load sync status");
+  }
+
+  const data: { data: SyncStatus } = await response.json();
+  return data.data;
+}
+
+// Custom hook
+// The signed-in user's last background sync
+export function useSyncStatus(enabled: boolean) {
+  return useQuery({
+    queryKey: ["sync-status"],
+    queryFn: fetchSyncStatus,
+    enabled,
+    refetchInterval: STATUS_REFRESH_INTERVAL,
+    retry: shouldRetry,
+    retryDelay: getRetryDelay,
+  });
+}
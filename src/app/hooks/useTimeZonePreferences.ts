@@ -0,0 +1,80 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { getBrowserTimeZone, isValidTimeZone } from "@/lib/timeZones";
+
+// Constants
+const STORAGE_KEY = "calendar_sync_time_zones";
+
+// Types
+export interface TimeZonePreferences {
+  // Zone event times are shown in; null follows the browser
+  timeZone: string | null;
+  // Extra zone shown alongside, e.g. for a teammate's working hours
+  secondaryTimeZone: string | null;
+}
+
+// Every mounted hook re-reads storage when one of them writes
+const listeners = new Set<() => void>();
+
+// Helper functions
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function readStoredValue(): string | null {
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+function parsePreferences(value: string | null): TimeZonePreferences {
+  try {
+    const stored = value ? JSON.parse(value) : {};
+    const pick = (zone: unknown) =>
+      typeof zone === "string" && isValidTimeZone(zone) ? zone : null;
+    return {
+      timeZone: pick(stored.timeZone),
+      secondaryTimeZone: pick(stored.secondaryTimeZone),
+    };
+  } catch {
+    return { timeZone: null, secondaryTimeZone: null };
+  }
+}
+
+// Custom hook
+// Display time zones are a per-device preference, so they live in
+// localStorage rather than the URL
+export function useTimeZonePreferences() {
+  const storedValue = useSyncExternalStore(
+    subscribe,
+    readStoredValue,
+    () => null
+  );
+  const preferences = useMemo(
+    () => parsePreferences(storedValue),
+    [storedValue]
+  );
+
+  const updatePreferences = useCallback(
+    (changes: Partial<TimeZonePreferences>) => {
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ ...parsePreferences(readStoredValue()), ...changes })
+      );
+      listeners.forEach((listener) => listener());
+    },
+    []
+  );
+
+  return {
+    ...preferences,
+    // Zone the browser is in; date filters are always sent in this zone
+    localTimeZone: getBrowserTimeZone(),
+    displayTimeZone: preferences.timeZone ?? getBrowserTimeZone(),
+    setTimeZone: (timeZone: string | null) => updatePreferences({ timeZone }),
+    setSecondaryTimeZone: (secondaryTimeZone: string | null) =>
+      updatePreferences({ secondaryTimeZone }),
+  };
+}
@@ -1,101 +1,141 @@
 "use client";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 
 // Constants
-const ACCESS_TOKEN_KEY = "google_access_token";
-const REFRESH_TOKEN_KEY = "google_refresh_token";
-const TOKEN_EXPIRY_KEY = "google_token_expiry";
+// Tokens used to live in localStorage; they are removed on the next sign-in
+const LEGACY_STORAGE_KEYS = [
+  "google_access_token",
+  "google_refresh_token",
+  "google_token_expiry",
+];
 const HOME_PATH = "/";
+const LOGIN_PATH = "/api/auth/login";
 const ERROR_MESSAGE = "Authentication failed. Please try again.";
 
+// Titles and explanations for the failures the callback can run into
+const ERROR_SCREENS: Record<string, { title: string; message: string }> = {
+  access_denied: {
+    title: "Access Not Granted",
+    message:
+      "You declined access to your Google Calendar. Sign in again whenever you are ready.",
+  },
+  state_missing: {
+    title: "Sign-in Expired",
+    message:
+      "This sign-in link has expired or was opened in a different browser. Please start again.",
+  },
+  state_mismatch: {
+    title: "Sign-in Could Not Be Verified",
+    message:
+      "The response from Google does not match a sign-in started in this browser, so it was rejected.",
+  },
+  state_replayed: {
+    title: "Sign-in Link Already Used",
+    message:
+      "This sign-in response has already been used. Please start a new sign-in.",
+  },
+};
+
 // Types
 interface AuthState {
   isLoading: boolean;
-  error: string | null;
+  error: AuthError | null;
   isSuccess: boolean;
 }
 
+interface AuthError {
+  code?: string;
+  message: string;
+}
+
+interface CallbackParams {
+  code: string | null;
+  state: string | null;
+  error: string | null;
+}
+
 // Helper functions
-function extractCodeFromUrl(): string | null {
+function extractCallbackParams(): CallbackParams {
   try {
     const url = new URL(window.location.href);
-    return url.searchParams.get("code");
+    return {
+      code: url.searchParams.get("code"),
+      state: url.searchParams.get("state"),
+      error: url.searchParams.get("error"),
+    };
   } catch (error) {
     console.error("Failed to parse URL:", error);
-    return null;
+    return { code: null, state: null, error: null };
   }
 }
 
-async function exchangeCodeForTokens(authCode: string): Promise<{
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-}> {
+function createAuthError(code: string | undefined, message: string) {
+  return Object.assign(new Error(message), { code });
+}
+
+// Exchanges the code server-side, which sets an httpOnly session cookie.
+// Resolves with the path the user started the sign-in from.
+async function createSession(
+  authCode: string,
+  state: string | null
+): Promise<string> {
+  let response: Response;
   try {
-    const response = await fetch("/api/auth", {
+    response = await fetch("/api/auth", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ code: authCode }),
+      body: JSON.stringify({ code: authCode, state }),
     });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(
-        errorData.message || "Failed to exchange code for tokens"
-      );
-    }
-
-    const data = await response.json();
-    return {
-      access_token: data.data.access_token,
-      refresh_token: data.data.refresh_token,
-      expires_in: data.data.expires_in,
-    };
   } catch (error) {
     console.error("Token exchange error:", error);
     throw new Error("Failed to exchange authorization code for tokens");
   }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw createAuthError(
+      body.error,
+      body.message || "Failed to exchange authorization code for tokens"
+    );
+  }
+
+  return body.data?.returnTo || HOME_PATH;
 }
 
-function saveTokensToStorage(
-  accessToken: string,
-  refreshToken: string,
-  expiresIn: number
-): void {
+function clearLegacyTokens(): void {
   try {
-    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
-    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
-
-    // Calculate expiry time (current time + expires_in seconds)
-    const expiryTime = Date.now() + expiresIn * 1000;
-    localStorage.setItem(TOKEN_EXPIRY_KEY, expiryTime.toString());
+    LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
   } catch (error) {
-    console.error("Failed to save tokens to localStorage:", error);
-    throw new Error("Failed to save authentication tokens");
+    console.error("Failed to clear legacy tokens:", error);
   }
 }
 
-function cleanUrlAndRedirect(router: any): void {
-  try {
-    // Clean up the URL by removing query parameters
-    const cleanUrl = window.location.pathname;
-    window.history.replaceState({}, document.title, cleanUrl);
+function cleanUrl(): void {
+  // Drop the code and state so a reload cannot resubmit them
+  window.history.replaceState({}, document.title, window.location.pathname);
+}
 
-    // Redirect to home
-    router.replace(HOME_PATH);
+function cleanUrlAndRedirect(
+  router: ReturnType<typeof useRouter>,
+  path: string = HOME_PATH
+): void {
+  try {
+    cleanUrl();
+    router.replace(path);
   } catch (error) {
     console.error("Failed to clean URL and redirect:", error);
     // Fallback redirect
-    window.location.href = HOME_PATH;
+    window.location.href = path;
   }
 }
 
 // Main component
 export default function OAuth2Callback() {
   const router = useRouter();
+  const hasStarted = useRef(false);
   const [authState, setAuthState] = useState<AuthState>({
     isLoading: true,
     error: null,
@@ -103,26 +143,32 @@ export default function OAuth2Callback() {
   });
 
   useEffect(() => {
+    // The code is single-use; never submit it twice (e.g. Strict Mode)
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+
     async function handleAuthentication() {
       try {
         setAuthState((prev) => ({ ...prev, isLoading: true, error: null }));
 
-        // Extract authorization code from URL
-        const authCode = extractCodeFromUrl();
+        const params = extractCallbackParams();
+        cleanUrl();
 
-        if (!authCode) {
-          throw new Error("No authentication code found in URL");
+        // Google reports a declined consent screen as an error parameter
+        if (params.error) {
+          throw createAuthError(
+            params.error,
+            `Google returned an error: ${params.error}`
+          );
         }
 
-        // Exchange authorization code for tokens
-        const tokens = await exchangeCodeForTokens(authCode);
+        if (!params.code) {
+          throw new Error("No authentication code found in URL");
+        }
 
-        // Save tokens to localStorage
-        saveTokensToStorage(
-          tokens.access_token,
-          tokens.refresh_token,
-          tokens.expires_in
-        );
+        // Exchange authorization code for a server-side session
+        const returnTo = await createSession(params.code, params.state);
+        clearLegacyTokens();
 
         // Update success state
         setAuthState({
@@ -133,21 +179,20 @@ export default function OAuth2Callback() {
 
         // Clean URL and redirect after a brief delay for better UX
         setTimeout(() => {
-          cleanUrlAndRedirect(router);
+          cleanUrlAndRedirect(router, returnTo);
         }, 1500);
       } catch (error: any) {
         console.error("Authentication error:", error);
 
+        // Stay on the error screen so the reason can be read
         setAuthState({
           isLoading: false,
-          error: error.message || ERROR_MESSAGE,
+          error: {
+            code: error.code,
+            message: error.message || ERROR_MESSAGE,
+          },
           isSuccess: false,
         });
-
-        // Redirect to home after showing error
-        setTimeout(() => {
-          cleanUrlAndRedirect(router);
-        }, 3000);
       }
     }
 
@@ -165,16 +210,30 @@ export default function OAuth2Callback() {
 
   // Error state
   if (authState.error) {
+    const screen = (authState.error.code &&
+      ERROR_SCREENS[authState.error.code]) || {
+      title: "Authentication Failed",
+      message: authState.error.message,
+    };
+
     return (
       <div className="flex flex-col items-center justify-center min-h-screen">
         <div className="text-red-500 text-6xl mb-4">⚠️</div>
         <h1 className="text-xl font-semibold text-red-600 mb-2">
-          Authentication Failed
+          {screen.title}
         </h1>
-        <p className="text-gray-600 text-center max-w-md">{authState.error}</p>
-        <p className="text-sm text-gray-500 mt-4">
-          Redirecting to home page...
-        </p>
+        <p className="text-gray-600 text-center max-w-md">{screen.message}</p>
+        <div className="flex gap-4 mt-6">
+          <a
+            href={LOGIN_PATH}
+            className="text-sm font-medium text-zinc-900 underline"
+          >
+            Sign in again
+          </a>
+          <a href={HOME_PATH} className="text-sm text-gray-500 underline">
+            Back to home
+          </a>
+        </div>
       </div>
     );
   }
@@ -190,9 +249,7 @@ export default function OAuth2Callback() {
         <p className="text-gray-600">
           You have been successfully authenticated.
         </p>
-        <p className="text-sm text-gray-500 mt-4">
-          Redirecting to home page...
-        </p>
+        <p className="text-sm text-gray-500 mt-4">Redirecting...</p>
       </div>
     );
   }
@@ -1,4 +1,5 @@
 "use client";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -9,10 +10,81 @@ import {
 } from "@/components/ui/card";
 import { CalendarEventCard } from "@/components/CalendarEventCard";
 import { DateFilter } from "@/components/DateFilter";
+import { CalendarPicker } from "@/components/CalendarPicker";
+import { AvailabilityFinder } from "@/components/AvailabilityFinder";
+import { EventDetailsDrawer } from "@/components/EventDetailsDrawer";
+import { EventEditorDialog } from "@/components/EventEditorDialog";
+import { ImportDialog } from "@/components/ImportDialog";
+import { ViewSwitcher } from "@/components/ViewSwitcher";
+import { TimeGridView } from "@/components/TimeGridView";
+import { MonthView } from "@/components/MonthView";
+import { AgendaView } from "@/components/AgendaView";
+import { TimeZoneSelector } from "@/components/TimeZoneSelector";
+import { SyncStatusBadge } from "@/components/SyncStatusBadge";
 import { useAuth } from "@/app/hooks/useAuth";
-import { useCalendarEvents } from "@/app/hooks/useCalendarEvents";
-import { Loader2 } from "lucide-react";
-import { useState } from "react";
+import { useAvailability } from "@/app/hooks/useAvailability";
+import { useCalendarView } from "@/app/hooks/useCalendarView";
+import { useDateSelection } from "@/app/hooks/useDateSelection";
+import { useDebouncedValue } from "@/app/hooks/useDebouncedValue";
+import { useTimeZonePreferences } from "@/app/hooks/useTimeZonePreferences";
+import {
+  CalendarEvent,
+  getEventsExportUrl,
+  useCalendarEvents,
+} from "@/app/hooks/useCalendarEvents";
+import {
+  CalendarListEntry,
+  isReadOnlyProvider,
+  useCalendars,
+} from "@/app/hooks/useCalendars";
+import {
+  EventInput,
+  ImportReport,
+  useEventMutations,
+} from "@/app/hooks/useEventMutations";
+import { useSyncStatus } from "@/app/hooks/useSyncStatus";
+import { CalendarView, getViewRange, shiftAnchor } from "@/lib/eventLayout";
+import { DATE_PARAM_FORMAT } from "@/lib/dateRanges";
+import { RecurrenceScope, groupEventsBySeries } from "@/lib/recurrence";
+import { RsvpResponse } from "@/lib/rsvp";
+import {
+  MAX_SEARCH_LENGTH,
+  SearchQuery,
+  isEmptySearch,
+  parseSearchQuery,
+} from "@/lib/search";
+import {
+  Download,
+  Loader2,
+  Plus,
+  Search,
+  Settings,
+  Upload,
+  Users,
+  X,
+} from "lucide-react";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { eachDayOfInterval, format, startOfDay } from "date-fns";
+
+// Constants
+// Views that show a fixed span of days and need every event in it loaded
+const RANGE_VIEWS: CalendarView[] = ["day", "week", "month"];
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const DELETE_CONFIRMATIONS: Record<RecurrenceScope, string> = {
+  this: "Delete this event?",
+  following: "Delete this and all following events in the series?",
+  all: "Delete every event in the series?",
+};
 
 // Loading component
 function LoadingSpinner() {
@@ -39,7 +111,7 @@ function ErrorMessage({ message }: { message: string }) {
 }
 
 // Empty state component
-function EmptyState() {
+function EmptyState({ isSearching }: { isSearching: boolean }) {
   return (
     <Card className="border-dashed border-gray-300 bg-gray-50">
       <CardContent className="p-8 text-center">
@@ -47,72 +119,422 @@ function EmptyState() {
           No events found
         </h3>
         <p className="text-gray-600">
-          Your Google Calendar appears to be empty or events are not accessible.
+          {isSearching
+            ? "No events match your search."
+            : "Your Google Calendar appears to be empty or events are not accessible."}
         </p>
       </CardContent>
     </Card>
   );
 }
 
-// Events list component
+// Infinite scroll sentinel component
+function LoadMoreTrigger({
+  onLoadMore,
+  isLoadingMore,
+}: {
+  onLoadMore: () => void;
+  isLoadingMore: boolean;
+}) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    // Load the next page as soon as the end of the list scrolls into view
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isLoadingMore) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, isLoadingMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {isLoadingMore ? (
+        <Loader2 className="h-5 w-5 animate-spin text-zinc-600" />
+      ) : (
+        <Button variant="ghost" size="sm" onClick={onLoadMore}>
+          Load more events
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Calendars shown when the user has not picked any yet
+function getDefaultCalendarIds(calendars: CalendarListEntry[]): string[] {
+  const selected = calendars.filter((calendar) => calendar.selected);
+  const defaults = selected.length
+    ? selected
+    : calendars.filter((calendar) => calendar.primary);
+  return defaults.map((calendar) => calendar.id);
+}
+
+// Events list component; with groupSeries each recurring series shows once,
+// at its first loaded occurrence
 function EventsList({
   events,
+  calendarsById,
+  timeZone,
+  secondaryTimeZone,
+  groupSeries,
+  search,
+  onEditEvent,
+  onOpenEvent,
+  onRespond,
+}: {
+  events: CalendarEvent[];
+  calendarsById: Map<string, CalendarListEntry>;
+  timeZone: string;
+  secondaryTimeZone: string | null;
+  groupSeries: boolean;
+  search: SearchQuery | null;
+  onEditEvent: (event: CalendarEvent) => void;
+  onOpenEvent: (event: CalendarEvent) => void;
+  onRespond: (
+    event: CalendarEvent,
+    response: RsvpResponse,
+    comment?: string
+  ) => void;
+}) {
+  const groups = groupSeries
+    ? groupEventsBySeries(events)
+    : events.map((event) => ({ event, occurrences: 1 }));
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ event, occurrences }) => {
+        const calendar = calendarsById.get(event.calendarId ?? "");
+        return (
+          <CalendarEventCard
+            key={`${event.calendarId}:${event.id}`}
+            event={event}
+            calendar={calendar}
+            timeZone={timeZone}
+            secondaryTimeZone={secondaryTimeZone}
+            occurrences={occurrences}
+            search={search}
+            onEdit={
+              isReadOnlyProvider(calendar)
+                ? undefined
+                : () => onEditEvent(event)
+            }
+            onOpen={() => onOpenEvent(event)}
+            onRespond={(response, comment) =>
+              onRespond(event, response, comment)
+            }
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+// Renders the loaded events in the selected view
+function EventsView({
+  view,
+  anchorDate,
+  events,
+  calendarsById,
+  timeZone,
+  secondaryTimeZone,
   isLoading,
   error,
+  hasMore,
+  isLoadingMore,
+  groupSeries,
+  search,
+  onLoadMore,
+  onEditEvent,
+  onOpenEvent,
+  onRespond,
+  onOpenDay,
 }: {
-  events: any[];
+  view: CalendarView;
+  anchorDate: Date;
+  events: CalendarEvent[];
+  calendarsById: Map<string, CalendarListEntry>;
+  timeZone: string;
+  secondaryTimeZone: string | null;
   isLoading: boolean;
   error: any;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  groupSeries: boolean;
+  search: SearchQuery | null;
+  onLoadMore: () => void;
+  onEditEvent: (event: CalendarEvent) => void;
+  onOpenEvent: (event: CalendarEvent) => void;
+  onRespond: (
+    event: CalendarEvent,
+    response: RsvpResponse,
+    comment?: string
+  ) => void;
+  onOpenDay: (day: Date) => void;
 }) {
   if (isLoading) return <LoadingSpinner />;
   if (error) return <ErrorMessage message={error.message} />;
-  if (events.length === 0) return <EmptyState />;
+
+  if (view === "day" || view === "week") {
+    return (
+      <TimeGridView
+        days={eachDayOfInterval(getViewRange(view, anchorDate))}
+        events={events}
+        calendarsById={calendarsById}
+        onEventClick={onOpenEvent}
+      />
+    );
+  }
+
+  if (view === "month") {
+    return (
+      <MonthView
+        month={anchorDate}
+        events={events}
+        calendarsById={calendarsById}
+        onEventClick={onOpenEvent}
+        onDayClick={onOpenDay}
+      />
+    );
+  }
+
+  if (events.length === 0) return <EmptyState isSearching={!!search} />;
 
   return (
-    <div className="space-y-4">
-      {events.map((event) => (
-        <CalendarEventCard key={event.id} event={event} />
-      ))}
-    </div>
+    <>
+      {view === "agenda" ? (
+        <AgendaView
+          events={events}
+          calendarsById={calendarsById}
+          onEventClick={onOpenEvent}
+        />
+      ) : (
+        <EventsList
+          events={events}
+          calendarsById={calendarsById}
+          timeZone={timeZone}
+          secondaryTimeZone={secondaryTimeZone}
+          groupSeries={groupSeries}
+          search={search}
+          onEditEvent={onEditEvent}
+          onOpenEvent={onOpenEvent}
+          onRespond={onRespond}
+        />
+      )}
+      {hasMore && (
+        <LoadMoreTrigger
+          onLoadMore={onLoadMore}
+          isLoadingMore={isLoadingMore}
+        />
+      )}
+    </>
   );
 }
 
 // Main component
-export default function Home() {
+function Home() {
   const {
-    token,
+    user,
     isAuthenticated,
     isLoading: authLoading,
     login,
     logout,
-    refreshAccessToken,
-    isTokenExpired,
+    invalidateSession,
   } = useAuth();
 
-  const [dateFilter, setDateFilter] = useState<{
-    startDate?: Date;
-    endDate?: Date;
-  }>({});
+  const { selection: dateFilter, setSelection: setDateFilter } =
+    useDateSelection();
+  const {
+    timeZone,
+    secondaryTimeZone,
+    localTimeZone,
+    displayTimeZone,
+    setTimeZone,
+    setSecondaryTimeZone,
+  } = useTimeZonePreferences();
+  const { view, anchorDate, setView, setAnchorDate, openDate } =
+    useCalendarView();
+  const isRangeView = RANGE_VIEWS.includes(view);
 
-  // Convert Date objects to ISO strings for the API
-  const apiDateFilter = {
-    startDate: dateFilter.startDate?.toISOString().split("T")[0],
-    endDate: dateFilter.endDate?.toISOString().split("T")[0],
+  const { data: calendars, isLoading: calendarsLoading } =
+    useCalendars(isAuthenticated);
+  const { data: syncStatus } = useSyncStatus(isAuthenticated);
+  const [pickedCalendarIds, setPickedCalendarIds] = useState<string[] | null>(
+    null
+  );
+  const selectedCalendarIds = useMemo(
+    () => pickedCalendarIds ?? getDefaultCalendarIds(calendars || []),
+    [pickedCalendarIds, calendars]
+  );
+  const [needsResponseOnly, setNeedsResponseOnly] = useState(false);
+  const [searchText, setSearchText] = useState("");
+  const debouncedSearch = useDebouncedValue(
+    searchText.trim(),
+    SEARCH_DEBOUNCE_MS
+  );
+  const search = useMemo(() => {
+    const query = parseSearchQuery(debouncedSearch);
+    return isEmptySearch(query) ? null : query;
+  }, [debouncedSearch]);
+  const calendarsById = useMemo(
+    () => new Map((calendars || []).map((calendar) => [calendar.id, calendar])),
+    [calendars]
+  );
+
+  // Day, week and month views load their own span; the others follow the
+  // sidebar's date filter. Days are sent as local calendar dates along with
+  // the local time zone, so the server matches the days shown here.
+  const viewRange = isRangeView ? getViewRange(view, anchorDate) : null;
+  const startDate = viewRange?.start ?? dateFilter.startDate;
+  const endDate = viewRange?.end ?? dateFilter.endDate;
+  const apiFilter = {
+    startDate: startDate && format(startDate, DATE_PARAM_FORMAT),
+    endDate: endDate && format(endDate, DATE_PARAM_FORMAT),
+    timeZone: localTimeZone,
+    calendarIds: selectedCalendarIds,
+    needsResponse: needsResponseOnly,
+    q: search ? debouncedSearch : undefined,
   };
 
   const {
-    data: events,
+    data,
     isLoading,
     error,
-  } = useCalendarEvents(
-    token,
-    apiDateFilter,
-    refreshAccessToken,
-    isTokenExpired
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useCalendarEvents(isAuthenticated, apiFilter, invalidateSession);
+
+  const events = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Grid views show the whole span at once, so load every page
+  useEffect(() => {
+    if (isRangeView && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [isRangeView, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const {
+    createEvent,
+    updateEvent,
+    deleteEvent,
+    respondToEvent,
+    previewImport,
+    importEvents,
+  } = useEventMutations();
+  const [editor, setEditor] = useState<{
+    isOpen: boolean;
+    event: CalendarEvent | null;
+  }>({ isOpen: false, event: null });
+
+  const openEditor = (event: CalendarEvent | null = null) => {
+    setEditor({ isOpen: true, event });
+  };
+
+  const closeEditor = useCallback(() => {
+    setEditor({ isOpen: false, event: null });
+  }, []);
+
+  const [detailsEvent, setDetailsEvent] = useState<CalendarEvent | null>(null);
+  const closeDetails = useCallback(() => setDetailsEvent(null), []);
+  // Follow the loaded copy so the drawer reflects edits and synced changes
+  const shownDetailsEvent = detailsEvent
+    ? (events.find(
+        (event) =>
+          event.id === detailsEvent.id &&
+          event.calendarId === detailsEvent.calendarId
+      ) ?? detailsEvent)
+    : null;
+  const detailsCalendar = calendarsById.get(detailsEvent?.calendarId ?? "");
+  const editFromDetails = (event: CalendarEvent) => {
+    setDetailsEvent(null);
+    openEditor(event);
+  };
+
+  const [groupSeries, setGroupSeries] = useState(false);
+  const [isFinderOpen, setIsFinderOpen] = useState(false);
+  const availability = useAvailability();
+
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const closeImport = useCallback(() => setIsImportOpen(false), []);
+
+  // The import dialog previews on every change, so these must stay stable
+  const { mutateAsync: previewImportAsync } = previewImport;
+  const { mutateAsync: importEventsAsync } = importEvents;
+  const handlePreviewImport = useCallback(
+    (calendarId: string, ics: string) =>
+      previewImportAsync({ calendarId, ics }),
+    [previewImportAsync]
+  );
+  const handleImport = useCallback(
+    (
+      calendarId: string,
+      ics: string,
+      onProgress?: (report: ImportReport) => void
+    ) => importEventsAsync({ calendarId, ics, onProgress }),
+    [importEventsAsync]
   );
 
-  const handleDateChange = (startDate?: Date, endDate?: Date) => {
-    setDateFilter({ startDate, endDate });
+  // Mutations update the cached list optimistically, so close right away
+  const handleSaveEvent = (
+    calendarId: string,
+    input: EventInput,
+    scope: RecurrenceScope
+  ) => {
+    if (editor.event) {
+      updateEvent.mutate({
+        id: editor.event.id,
+        calendarId: editor.event.calendarId || calendarId,
+        event: input,
+        scope,
+      });
+    } else {
+      createEvent.mutate({ calendarId, event: input });
+    }
+    closeEditor();
+  };
+
+  const handleDeleteEvent = (scope: RecurrenceScope) => {
+    if (!editor.event) return;
+    if (!window.confirm(DELETE_CONFIRMATIONS[scope])) return;
+
+    deleteEvent.mutate({
+      id: editor.event.id,
+      calendarId: editor.event.calendarId || selectedCalendarIds[0],
+      scope,
+    });
+    closeEditor();
+  };
+
+  const handleRespond = (
+    event: CalendarEvent,
+    response: RsvpResponse,
+    comment?: string
+  ) => {
+    respondToEvent.mutate({
+      id: event.id,
+      calendarId: event.calendarId || selectedCalendarIds[0],
+      response,
+      comment,
+    });
+  };
+
+  const handleLoadMore = () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  };
+
+  const handleOpenDay = (day: Date) => {
+    openDate("day", day);
   };
 
   // Show loading state while checking authentication
@@ -138,6 +560,18 @@ export default function Home() {
             </div>
 
             <div className="flex items-center gap-3">
+              {isAuthenticated && <SyncStatusBadge status={syncStatus} />}
+              {user?.email && (
+                <span className="text-sm text-gray-600">{user.email}</span>
+              )}
+              {isAuthenticated && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/settings">
+                    <Settings className="h-4 w-4" />
+                    Settings
+                  </Link>
+                </Button>
+              )}
               <Button
                 onClick={isAuthenticated ? logout : login}
                 variant={isAuthenticated ? "outline" : "default"}
@@ -152,37 +586,196 @@ export default function Home() {
         {/* Main Content */}
         {isAuthenticated ? (
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-            {/* Date Filter Sidebar */}
-            <div className="lg:col-span-1">
-              <DateFilter onDateChange={handleDateChange} />
+            {/* Date Filter and Calendar Picker Sidebar */}
+            <div className="lg:col-span-1 space-y-6">
+              <DateFilter
+                selection={dateFilter}
+                onSelectionChange={setDateFilter}
+              />
+              <CalendarPicker
+                calendars={calendars || []}
+                selectedIds={selectedCalendarIds}
+                onSelectionChange={setPickedCalendarIds}
+                isLoading={calendarsLoading}
+              />
+              <TimeZoneSelector
+                localTimeZone={localTimeZone}
+                timeZone={timeZone}
+                secondaryTimeZone={secondaryTimeZone}
+                onTimeZoneChange={setTimeZone}
+                onSecondaryTimeZoneChange={setSecondaryTimeZone}
+              />
             </div>
 
             {/* Events List */}
-            <div className="lg:col-span-3">
+            <div className="lg:col-span-3 space-y-6">
+              {isFinderOpen && (
+                <AvailabilityFinder
+                  selection={dateFilter}
+                  localTimeZone={localTimeZone}
+                  displayTimeZone={displayTimeZone}
+                  userEmail={user?.email}
+                  result={availability.data}
+                  isSearching={availability.isPending}
+                  error={availability.error?.message}
+                  onSearch={(query) => availability.mutate(query)}
+                  onClose={() => setIsFinderOpen(false)}
+                />
+              )}
               <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    Your Google Calendar Events
-                    {dateFilter.startDate && (
-                      <span className="text-sm font-normal text-gray-500">
-                        (Filtered)
-                      </span>
-                    )}
-                  </CardTitle>
-                  <CardDescription>
-                    Events are automatically refreshed every 30 seconds
-                    {dateFilter.startDate && " • Showing filtered results"}
-                  </CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                      Your Google Calendar Events
+                      {(dateFilter.startDate ||
+                        needsResponseOnly ||
+                        search) && (
+                        <span className="text-sm font-normal text-gray-500">
+                          (Filtered)
+                        </span>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      Changes are pushed from Google and synced incrementally
+                      {dateFilter.startDate && " • Showing filtered results"}
+                    </CardDescription>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={getEventsExportUrl(apiFilter)} download>
+                        <Download className="h-4 w-4" />
+                        Export
+                      </a>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsFinderOpen(true)}
+                    >
+                      <Users className="h-4 w-4" />
+                      Find a time
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsImportOpen(true)}
+                    >
+                      <Upload className="h-4 w-4" />
+                      Import
+                    </Button>
+                    <Button size="sm" onClick={() => openEditor()}>
+                      <Plus className="h-4 w-4" />
+                      New event
+                    </Button>
+                  </div>
                 </CardHeader>
-                <CardContent>
-                  <EventsList
-                    events={events || []}
+                <CardContent className="space-y-4">
+                  <ViewSwitcher
+                    view={view}
+                    anchorDate={anchorDate}
+                    onViewChange={setView}
+                    onNavigate={(direction) =>
+                      setAnchorDate(shiftAnchor(view, anchorDate, direction))
+                    }
+                    onToday={() => setAnchorDate(startOfDay(new Date()))}
+                  />
+                  <div className="relative">
+                    <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                    <input
+                      type="search"
+                      value={searchText}
+                      maxLength={MAX_SEARCH_LENGTH}
+                      onChange={(e) => setSearchText(e.target.value)}
+                      placeholder='Search events, or try location:berlin attendee:ana calendar:"Team"'
+                      aria-label="Search events"
+                      className="w-full rounded-md border border-gray-300 py-2 pl-9 pr-9 text-sm focus:border-zinc-500 focus:outline-none"
+                    />
+                    {searchText && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSearchText("")}
+                        className="absolute right-1 top-1/2 h-7 w-7 -translate-y-1/2 p-0"
+                        aria-label="Clear search"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={needsResponseOnly}
+                        onChange={(e) => setNeedsResponseOnly(e.target.checked)}
+                      />
+                      Needs response
+                    </label>
+                    {view === "list" && (
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={groupSeries}
+                          onChange={(e) => setGroupSeries(e.target.checked)}
+                        />
+                        Group repeating events
+                      </label>
+                    )}
+                  </div>
+                  <EventsView
+                    view={view}
+                    anchorDate={anchorDate}
+                    events={events}
+                    calendarsById={calendarsById}
+                    timeZone={displayTimeZone}
+                    secondaryTimeZone={secondaryTimeZone}
                     isLoading={isLoading}
                     error={error}
+                    hasMore={!!hasNextPage}
+                    isLoadingMore={isFetchingNextPage}
+                    groupSeries={groupSeries}
+                    search={search}
+                    onLoadMore={handleLoadMore}
+                    onEditEvent={openEditor}
+                    onOpenEvent={setDetailsEvent}
+                    onRespond={handleRespond}
+                    onOpenDay={handleOpenDay}
                   />
                 </CardContent>
               </Card>
             </div>
+
+            <ImportDialog
+              isOpen={isImportOpen}
+              calendars={calendars || []}
+              defaultCalendarId={selectedCalendarIds[0]}
+              onClose={closeImport}
+              onPreview={handlePreviewImport}
+              onImport={handleImport}
+            />
+
+            <EventDetailsDrawer
+              event={shownDetailsEvent}
+              calendar={detailsCalendar}
+              timeZone={displayTimeZone}
+              onClose={closeDetails}
+              onEdit={
+                isReadOnlyProvider(detailsCalendar)
+                  ? undefined
+                  : editFromDetails
+              }
+              onRespond={handleRespond}
+            />
+
+            <EventEditorDialog
+              isOpen={editor.isOpen}
+              event={editor.event}
+              calendars={calendars || []}
+              defaultCalendarId={selectedCalendarIds[0]}
+              onClose={closeEditor}
+              onSave={handleSaveEvent}
+              onDelete={handleDeleteEvent}
+            />
           </div>
         ) : (
           /* Welcome Card for unauthenticated users */
@@ -204,3 +797,18 @@ export default function Home() {
     </div>
   );
 }
+
+// useSearchParams (for the view in the URL) needs a Suspense boundary
+export default function Page() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-zinc-600" />
+        </div>
+      }
+    >
+      <Home />
+    </Suspense>
+  );
+}
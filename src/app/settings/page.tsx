@@ -0,0 +1,167 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { CaldavConnectionCard } from "@/components/CaldavConnectionCard";
+import { FeedSettingsCard } from "@/components/FeedSettingsCard";
+import { OutlookConnectionCard } from "@/components/OutlookConnectionCard";
+import { SyncPairsCard } from "@/components/SyncPairsCard";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useCaldavConnection } from "@/app/hooks/useCaldavConnection";
+import { useCalendars } from "@/app/hooks/useCalendars";
+import { useFeedSettings } from "@/app/hooks/useFeedSettings";
+import { useMicrosoftConnection } from "@/app/hooks/useMicrosoftConnection";
+import { useSyncPairs } from "@/app/hooks/useSyncPairs";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+// Main component
+export default function SettingsPage() {
+  const { user, isAuthenticated, isLoading: authLoading, login } = useAuth();
+  const { data: calendars } = useCalendars(isAuthenticated);
+  const {
+    feed,
+    isLoading: feedLoading,
+    error: feedError,
+    rotateFeed,
+    updateFeed,
+    revokeFeed,
+  } = useFeedSettings(isAuthenticated);
+  const {
+    connection: outlook,
+    error: outlookError,
+    connect: connectOutlook,
+    disconnect: disconnectOutlook,
+  } = useMicrosoftConnection(isAuthenticated);
+  const {
+    connection: caldav,
+    error: caldavError,
+    connect: connectCaldav,
+    disconnect: disconnectCaldav,
+  } = useCaldavConnection(isAuthenticated);
+  const {
+    pairs,
+    conflicts,
+    error: syncError,
+    createPair,
+    updatePair,
+    runPair,
+    removePair,
+    clearConflicts,
+  } = useSyncPairs(isAuthenticated);
+  // "connected" or "failed" after returning from Microsoft's consent screen
+  const [outlookOutcome, setOutlookOutcome] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOutlookOutcome(
+      new URLSearchParams(window.location.search).get("outlook")
+    );
+  }, []);
+
+  const mutationError =
+    rotateFeed.error ?? updateFeed.error ?? revokeFeed.error ?? feedError;
+  const isSaving =
+    rotateFeed.isPending || updateFeed.isPending || revokeFeed.isPending;
+
+  if (authLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+            {user?.email && (
+              <p className="text-gray-600">Signed in as {user.email}</p>
+            )}
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to calendar
+            </Link>
+          </Button>
+        </div>
+
+        {!isAuthenticated ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-4 py-12">
+              <p className="text-gray-600">
+                Sign in to manage your calendar feed and connections.
+              </p>
+              <Button onClick={login}>Sign in with Google</Button>
+            </CardContent>
+          </Card>
+        ) : feedLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-zinc-600" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <OutlookConnectionCard
+              connection={outlook}
+              outcome={outlookOutcome}
+              isSaving={disconnectOutlook.isPending}
+              error={(disconnectOutlook.error ?? outlookError)?.message}
+              onConnect={connectOutlook}
+              onDisconnect={() => disconnectOutlook.mutate()}
+            />
+            <CaldavConnectionCard
+              connection={caldav}
+              isSaving={connectCaldav.isPending || disconnectCaldav.isPending}
+              error={
+                (connectCaldav.error ?? disconnectCaldav.error ?? caldavError)
+                  ?.message
+              }
+              onConnect={(input) => connectCaldav.mutate(input)}
+              onDisconnect={() => disconnectCaldav.mutate()}
+            />
+            <SyncPairsCard
+              pairs={pairs}
+              conflicts={conflicts}
+              calendars={calendars || []}
+              isSaving={
+                createPair.isPending ||
+                updatePair.isPending ||
+                removePair.isPending ||
+                clearConflicts.isPending
+              }
+              runningPairId={runPair.isPending ? runPair.variables : null}
+              error={
+                (
+                  createPair.error ??
+                  updatePair.error ??
+                  runPair.error ??
+                  removePair.error ??
+                  syncError
+                )?.message
+              }
+              onCreate={(input) => createPair.mutate(input)}
+              onUpdate={(id, input) => updatePair.mutate({ id, ...input })}
+              onRun={(id) => runPair.mutate(id)}
+              onRemove={(id) => removePair.mutate(id)}
+              onClearConflicts={() => clearConflicts.mutate()}
+            />
+            <FeedSettingsCard
+              feed={feed}
+              calendars={calendars || []}
+              isSaving={isSaving}
+              error={mutationError?.message}
+              onCreate={(settings) => rotateFeed.mutate(settings)}
+              onSave={(settings) => updateFeed.mutate(settings)}
+              onRotate={() => rotateFeed.mutate({})}
+              onRevoke={() => revokeFeed.mutate()}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
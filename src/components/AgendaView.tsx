@@ -0,0 +1,86 @@
+"use client";
+
+import { CalendarEvent } from "@/app/hooks/useCalendarEvents";
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+import { NeedsResponseBadge } from "@/components/RsvpControls";
+import { getEventColor, groupEventsByDay } from "@/lib/eventLayout";
+import { needsResponse } from "@/lib/rsvp";
+import { format, isToday, parseISO } from "date-fns";
+import { Repeat } from "lucide-react";
+
+interface AgendaViewProps {
+  events: CalendarEvent[];
+  calendarsById: Map<string, CalendarListEntry>;
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+function formatEventTime(event: CalendarEvent): string {
+  if (!event.start?.dateTime) return "All day";
+
+  const start = format(parseISO(event.start.dateTime), "h:mm a");
+  return event.end?.dateTime
+    ? `${start} – ${format(parseISO(event.end.dateTime), "h:mm a")}`
+    : start;
+}
+
+// Events grouped under a heading per day; multi-day events repeat on each
+export function AgendaView({
+  events,
+  calendarsById,
+  onEventClick,
+}: AgendaViewProps) {
+  return (
+    <div className="space-y-6">
+      {groupEventsByDay(events).map(({ day, events: dayEvents }) => (
+        <section key={day.toISOString()}>
+          <h3
+            className={`mb-2 border-b border-gray-200 pb-1 text-sm font-semibold ${
+              isToday(day) ? "text-zinc-900" : "text-gray-700"
+            }`}
+          >
+            {format(day, "EEEE, MMMM d")}
+            {isToday(day) && (
+              <span className="ml-2 font-normal text-gray-500">Today</span>
+            )}
+          </h3>
+          <ul className="space-y-1">
+            {dayEvents.map((event) => (
+              <li key={`${event.calendarId}:${event.id}`}>
+                <button
+                  type="button"
+                  onClick={() => onEventClick(event)}
+                  className="flex w-full items-center gap-3 rounded-md px-2 py-1.5 text-left hover:bg-gray-50"
+                >
+                  <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{
+                      backgroundColor: getEventColor(event, calendarsById),
+                    }}
+                  />
+                  <span className="w-36 shrink-0 text-sm text-gray-500">
+                    {formatEventTime(event)}
+                  </span>
+                  <span className="truncate text-sm text-gray-900">
+                    {event.summary || "Untitled Event"}
+                  </span>
+                  {event.recurringEventId && (
+                    <Repeat
+                      className="h-3 w-3 shrink-0 text-gray-400"
+                      aria-label="Repeating event"
+                    />
+                  )}
+                  {needsResponse(event) && <NeedsResponseBadge />}
+                  {event.location && (
+                    <span className="hidden truncate text-xs text-gray-500 md:inline">
+                      {event.location}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AttendeeInput,
+  AvailabilityQuery,
+  AvailabilityResult,
+  CandidateSlot,
+} from "@/app/hooks/useAvailability";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DATE_PARAM_FORMAT, DateSelection } from "@/lib/dateRanges";
+import {
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  listTimeZones,
+} from "@/lib/timeZones";
+import { format } from "date-fns";
+import { Loader2, Plus, Users, X } from "lucide-react";
+
+// Constants
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+const DEFAULT_DURATION = 30;
+const DEFAULT_WORKING_HOURS = { start: "09:00", end: "17:00" };
+
+interface AvailabilityFinderProps {
+  // The sidebar's date filter; its range is the search window
+  selection: DateSelection;
+  localTimeZone: string;
+  // Zone slot times are listed in
+  displayTimeZone: string;
+  // Signed-in user, listed first so their own calendar is checked too
+  userEmail?: string;
+  result?: AvailabilityResult;
+  isSearching?: boolean;
+  error?: string | null;
+  onSearch: (query: AvailabilityQuery) => void;
+  onClose: () => void;
+}
+
+// Helper functions
+function describeWindow({ startDate, endDate }: DateSelection): string {
+  if (!startDate) return "the next 7 days";
+  const start = format(startDate, "MMM d");
+  const end = endDate ? format(endDate, "MMM d") : start;
+  return start === end ? start : `${start} – ${end}`;
+}
+
+function formatSlotTime(value: string, timeZone: string): string {
+  return formatInTimeZone(new Date(value), timeZone, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatSlot(slot: CandidateSlot, timeZone: string): string {
+  const day = formatInTimeZone(new Date(slot.start), timeZone, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  return `${day}, ${formatSlotTime(slot.start, timeZone)} – ${formatSlotTime(
+    slot.end,
+    timeZone
+  )} ${getTimeZoneAbbreviation(timeZone, new Date(slot.start))}`;
+}
+
+export function AvailabilityFinder({
+  selection,
+  localTimeZone,
+  displayTimeZone,
+  userEmail,
+  result,
+  isSearching,
+  error,
+  onSearch,
+  onClose,
+}: AvailabilityFinderProps) {
+  const timeZones = useMemo(() => listTimeZones(), []);
+  const [attendees, setAttendees] = useState<AttendeeInput[]>(() => [
+    { email: userEmail ?? "", timeZone: localTimeZone },
+  ]);
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION);
+  const [workingHours, setWorkingHours] = useState(DEFAULT_WORKING_HOURS);
+  const [includeWeekends, setIncludeWeekends] = useState(false);
+
+  const attendeeZones = useMemo(
+    () =>
+      new Map(
+        (result?.attendees ?? []).map((attendee) => [
+          attendee.email,
+          attendee.timeZone,
+        ])
+      ),
+    [result]
+  );
+
+  const updateAttendee = (index: number, changes: Partial<AttendeeInput>) => {
+    setAttendees((current) =>
+      current.map((attendee, i) =>
+        i === index ? { ...attendee, ...changes } : attendee
+      )
+    );
+  };
+
+  const handleSearch = () => {
+    onSearch({
+      attendees: attendees
+        .map((attendee) => ({ ...attendee, email: attendee.email.trim() }))
+        .filter((attendee) => attendee.email),
+      durationMinutes,
+      workingHours,
+      includeWeekends,
+      startDate:
+        selection.startDate && format(selection.startDate, DATE_PARAM_FORMAT),
+      endDate:
+        selection.endDate && format(selection.endDate, DATE_PARAM_FORMAT),
+      timeZone: localTimeZone,
+    });
+  };
+
+  const inputClassName =
+    "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Users className="h-5 w-5" />
+          Find a time
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-6 w-6 p-0"
+          aria-label="Close"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {attendees.map((attendee, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="email"
+                aria-label={`Attendee ${index + 1} email`}
+                placeholder="name@example.com"
+                className={inputClassName}
+                value={attendee.email}
+                onChange={(e) =>
+                  updateAttendee(index, { email: e.target.value })
+                }
+              />
+              <select
+                aria-label={`Attendee ${index + 1} time zone`}
+                className={inputClassName}
+                value={attendee.timeZone}
+                onChange={(e) =>
+                  updateAttendee(index, { timeZone: e.target.value })
+                }
+              >
+                {timeZones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label="Remove attendee"
+                disabled={attendees.length === 1}
+                onClick={() =>
+                  setAttendees((current) =>
+                    current.filter((_, i) => i !== index)
+                  )
+                }
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setAttendees((current) => [
+                ...current,
+                { email: "", timeZone: localTimeZone },
+              ])
+            }
+          >
+            <Plus className="h-4 w-4" />
+            Add attendee
+          </Button>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className="space-y-1 text-sm text-gray-700">
+            <span>Duration</span>
+            <select
+              className={inputClassName}
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+            >
+              {DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm text-gray-700">
+            <span>Working hours from</span>
+            <input
+              type="time"
+              className={inputClassName}
+              value={workingHours.start}
+              onChange={(e) =>
+                setWorkingHours((hours) => ({
+                  ...hours,
+                  start: e.target.value,
+                }))
+              }
+            />
+          </label>
+          <label className="space-y-1 text-sm text-gray-700">
+            <span>to</span>
+            <input
+              type="time"
+              className={inputClassName}
+              value={workingHours.end}
+              onChange={(e) =>
+                setWorkingHours((hours) => ({ ...hours, end: e.target.value }))
+              }
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeWeekends}
+              onChange={(e) => setIncludeWeekends(e.target.checked)}
+            />
+            Include weekends
+          </label>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500">
+              Searching {describeWindow(selection)}
+            </span>
+            <Button size="sm" onClick={handleSearch} disabled={isSearching}>
+              {isSearching && <Loader2 className="h-4 w-4 animate-spin" />}
+              Find times
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {result && (
+          <div className="space-y-3">
+            {result.attendees
+              .filter((attendee) => attendee.error)
+              .map((attendee) => (
+                <p key={attendee.email} className="text-xs text-amber-700">
+                  {attendee.email}: {attendee.error}
+                </p>
+              ))}
+
+            {result.slots.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No times work for anyone in this range. Try a wider date range
+                or longer working hours.
+              </p>
+            ) : (
+              <ol className="space-y-2">
+                {result.slots.map((slot) => (
+                  <li
+                    key={slot.start}
+                    className="rounded-md border border-gray-200 p-3 text-sm"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900">
+                        {formatSlot(slot, displayTimeZone)}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {slot.available.length} of{" "}
+                        {slot.available.length +
+                          slot.busy.length +
+                          slot.outsideHours.length}{" "}
+                        available
+                      </span>
+                    </div>
+                    <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                      {slot.available.map((email) => {
+                        const timeZone = attendeeZones.get(email)!;
+                        return (
+                          <li key={email}>
+                            {email}: {formatSlotTime(slot.start, timeZone)}{" "}
+                            {getTimeZoneAbbreviation(
+                              timeZone,
+                              new Date(slot.start)
+                            )}
+                          </li>
+                        );
+                      })}
+                      {slot.busy.map((email) => (
+                        <li key={email} className="text-red-600">
+                          {email}: busy
+                        </li>
+                      ))}
+                      {slot.outsideHours.map((email) => (
+                        <li key={email} className="text-amber-700">
+                          {email}: outside working hours
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import {
+  CaldavConnection,
+  CaldavConnectionInput,
+} from "@/app/hooks/useCaldavConnection";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Server } from "lucide-react";
+
+interface CaldavConnectionCardProps {
+  connection: CaldavConnection | null;
+  isSaving?: boolean;
+  error?: string | null;
+  onConnect: (input: CaldavConnectionInput) => void;
+  onDisconnect: () => void;
+}
+
+export function CaldavConnectionCard({
+  connection,
+  isSaving,
+  error,
+  onConnect,
+  onDisconnect,
+}: CaldavConnectionCardProps) {
+  const [serverUrl, setServerUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onConnect({ serverUrl, username, password });
+    setPassword("");
+  };
+
+  const handleDisconnect = () => {
+    if (
+      window.confirm(
+        "Disconnect the CalDAV server? Its calendars will no longer appear here."
+      )
+    ) {
+      onDisconnect();
+    }
+  };
+
+  const inputClassName =
+    "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Server className="h-5 w-5" />
+          CalDAV calendars
+        </CardTitle>
+        <CardDescription>
+          Show calendars from Nextcloud, Radicale or another CalDAV server next
+          to your Google calendars. They are read-only here. Use an app password
+          where your server offers one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {connection?.connected && connection.account ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-700">
+              Connected as {connection.account.username} on{" "}
+              {connection.account.serverUrl}
+            </p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDisconnect}
+              disabled={isSaving}
+              className="text-red-600"
+            >
+              Disconnect
+            </Button>
+          </div>
+        ) : (
+          <form className="space-y-3" onSubmit={handleSubmit}>
+            <label className="block space-y-1 text-sm text-gray-700">
+              <span>Server URL</span>
+              <input
+                type="url"
+                required
+                placeholder="https://cloud.example.com/remote.php/dav"
+                className={inputClassName}
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+              />
+            </label>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="space-y-1 text-sm text-gray-700">
+                <span>Username</span>
+                <input
+                  required
+                  autoComplete="username"
+                  className={inputClassName}
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+              </label>
+              <label className="space-y-1 text-sm text-gray-700">
+                <span>Password</span>
+                <input
+                  type="password"
+                  required
+                  autoComplete="current-password"
+                  className={inputClassName}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </label>
+            </div>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Connect
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
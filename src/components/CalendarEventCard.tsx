@@ -1,7 +1,19 @@
 import { CalendarEvent } from "@/app/hooks/useCalendarEvents";
 import { Card, CardContent } from "@/components/ui/card";
-import { Calendar, Clock, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar, Clock, Globe, MapPin, Pencil, Repeat } from "lucide-react";
 import { format, parseISO, isValid } from "date-fns";
+import {
+  formatInTimeZone,
+  getBrowserTimeZone,
+  getTimeZoneAbbreviation,
+} from "@/lib/timeZones";
+import { describeRecurrence } from "@/lib/recurrence";
+import { htmlToText } from "@/lib/sanitizeHtml";
+import { RsvpResponse, getSelfAttendee, needsResponse } from "@/lib/rsvp";
+import { NeedsResponseBadge, RsvpControls } from "@/components/RsvpControls";
+import { HighlightedText } from "@/components/HighlightedText";
+import { SearchQuery } from "@/lib/search";
 
 // Google Calendar API Types
 interface GoogleCalendarEvent {
@@ -43,14 +55,47 @@ interface GoogleCalendarEvent {
 
 interface CalendarEventCardProps {
   event: CalendarEvent | GoogleCalendarEvent;
+  calendar?: {
+    summary: string;
+    backgroundColor?: string;
+  };
+  onEdit?: () => void;
+  // Opens the event's details; makes the title clickable
+  onOpen?: () => void;
+  // Answers the invitation; shown when the user is a guest
+  onRespond?: (response: RsvpResponse, comment?: string) => void;
+  // Active search, whose matches are highlighted
+  search?: SearchQuery | null;
+  // Zone times are shown in; defaults to the browser's
+  timeZone?: string;
+  // Zone shown on a second line, for teams spread across zones
+  secondaryTimeZone?: string | null;
+  // Occurrences of the series this card stands for, when they are grouped
+  occurrences?: number;
+}
+
+function formatTime(date: Date, timeZone?: string): string {
+  return formatInTimeZone(date, timeZone ?? getBrowserTimeZone(), {
+    hour: "numeric",
+    minute: "2-digit",
+  });
 }
 
-function formatDateTime(dateTime?: string, date?: string): string {
+function formatDateTime(
+  dateTime?: string,
+  date?: string,
+  timeZone?: string
+): string {
   if (dateTime) {
     try {
       const parsedDate = parseISO(dateTime);
       if (isValid(parsedDate)) {
-        return format(parsedDate, "MMM d, yyyy 'at' h:mm a");
+        const day = formatInTimeZone(
+          parsedDate,
+          timeZone ?? getBrowserTimeZone(),
+          { month: "short", day: "numeric", year: "numeric" }
+        );
+        return `${day} at ${formatTime(parsedDate, timeZone)}`;
       }
     } catch (error) {
       console.warn("Invalid dateTime format:", dateTime);
@@ -71,40 +116,161 @@ function formatDateTime(dateTime?: string, date?: string): string {
   return "No date specified";
 }
 
+// Start and end times in another zone, e.g. "Tue 6:00 PM – 7:00 PM CEST"
+function formatSecondaryTimes(
+  timeZone: string,
+  startDateTime: string,
+  endDateTime?: string
+): string | null {
+  const start = parseISO(startDateTime);
+  if (!isValid(start)) return null;
+
+  const weekday = formatInTimeZone(start, timeZone, { weekday: "short" });
+  const end = endDateTime ? parseISO(endDateTime) : null;
+  const range =
+    end && isValid(end)
+      ? `${formatTime(start, timeZone)} – ${formatTime(end, timeZone)}`
+      : formatTime(start, timeZone);
+
+  return `${weekday} ${range} ${getTimeZoneAbbreviation(timeZone, start)}`;
+}
+
 function isGoogleCalendarEvent(
   event: CalendarEvent | GoogleCalendarEvent
 ): event is GoogleCalendarEvent {
   return "kind" in event && event.kind === "calendar#event";
 }
 
-export function CalendarEventCard({ event }: CalendarEventCardProps) {
+export function CalendarEventCard({
+  event,
+  calendar,
+  onEdit,
+  onOpen,
+  onRespond,
+  search,
+  timeZone,
+  secondaryTimeZone,
+  occurrences,
+}: CalendarEventCardProps) {
   // Handle both CalendarEvent and GoogleCalendarEvent types
   const isGoogleEvent = isGoogleCalendarEvent(event);
 
   const startTime = formatDateTime(
     isGoogleEvent ? event.start?.dateTime : event.start?.dateTime,
-    isGoogleEvent ? event.start?.date : event.start?.date
+    isGoogleEvent ? event.start?.date : event.start?.date,
+    timeZone
   );
 
   const endTime = event.end
     ? formatDateTime(
         isGoogleEvent ? event.end.dateTime : event.end.dateTime,
-        isGoogleEvent ? event.end.date : event.end.date
+        isGoogleEvent ? event.end.date : event.end.date,
+        timeZone
       )
     : null;
 
+  // Timed events get the zone name and, when set, the times in a second zone
+  const startDateTime = event.start?.dateTime;
+  const zoneLabel = startDateTime
+    ? getTimeZoneAbbreviation(
+        timeZone ?? getBrowserTimeZone(),
+        parseISO(startDateTime)
+      )
+    : null;
+  const secondaryTimes =
+    startDateTime && secondaryTimeZone && secondaryTimeZone !== timeZone
+      ? formatSecondaryTimes(
+          secondaryTimeZone,
+          startDateTime,
+          event.end?.dateTime
+        )
+      : null;
+
+  const recurrence = isGoogleEvent
+    ? null
+    : describeRecurrence(
+        event.recurrence,
+        event.start,
+        timeZone ?? getBrowserTimeZone()
+      );
+
   const summary = isGoogleEvent ? event.summary : event.summary;
   const location = isGoogleEvent ? event.location : event.location;
-  const description = isGoogleEvent ? event.description : event.description;
+  // Only the user's own copy of an invitation can be answered
+  const self = isGoogleEvent ? undefined : getSelfAttendee(event);
+  const isAwaitingResponse = !isGoogleEvent && needsResponse(event);
+
+  // Descriptions may be HTML; the card only previews their text
+  const description = event.description ? htmlToText(event.description) : "";
+
+  const terms = search?.terms;
+  const locationTerms = search
+    ? [
+        ...search.terms,
+        ...search.filters
+          .filter(({ field }) => field === "location")
+          .map(({ value }) => value),
+      ]
+    : undefined;
 
   return (
-    <Card>
+    <Card
+      className={calendar?.backgroundColor ? "border-l-4" : undefined}
+      style={
+        calendar?.backgroundColor
+          ? { borderLeftColor: calendar.backgroundColor }
+          : undefined
+      }
+    >
       <CardContent className="p-4">
         <div className="space-y-3">
           {/* Event Title */}
-          <h3 className="font-semibold text-lg text-gray-900 line-clamp-2">
-            {summary || "Untitled Event"}
-          </h3>
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="font-semibold text-lg text-gray-900 line-clamp-2">
+              {onOpen ? (
+                <button
+                  type="button"
+                  onClick={onOpen}
+                  className="text-left hover:underline"
+                >
+                  <HighlightedText
+                    text={summary || "Untitled Event"}
+                    terms={terms}
+                  />
+                </button>
+              ) : (
+                <HighlightedText
+                  text={summary || "Untitled Event"}
+                  terms={terms}
+                />
+              )}
+            </h3>
+            <div className="flex shrink-0 items-center gap-2">
+              {isAwaitingResponse && <NeedsResponseBadge />}
+              {onEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onEdit}
+                  className="h-7 w-7 shrink-0 p-0"
+                  aria-label="Edit event"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Source Calendar */}
+          {calendar && (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: calendar.backgroundColor }}
+              />
+              <span className="line-clamp-1">{calendar.summary}</span>
+            </div>
+          )}
 
           {/* Event Details */}
           <div className="space-y-2">
@@ -114,24 +280,55 @@ export function CalendarEventCard({ event }: CalendarEventCardProps) {
               <span>
                 {startTime}
                 {endTime && endTime !== startTime && ` - ${endTime}`}
+                {zoneLabel && ` ${zoneLabel}`}
               </span>
             </div>
+            {secondaryTimes && (
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <Globe className="h-4 w-4" />
+                <span>{secondaryTimes}</span>
+              </div>
+            )}
+
+            {/* Recurrence */}
+            {(recurrence || (occurrences ?? 0) > 1) && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Repeat className="h-4 w-4" />
+                <span>
+                  {recurrence ?? "Repeating event"}
+                  {occurrences && occurrences > 1
+                    ? ` · ${occurrences} times in this range`
+                    : ""}
+                </span>
+              </div>
+            )}
 
             {/* Location */}
             {location && (
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <MapPin className="h-4 w-4" />
-                <span className="line-clamp-1">{location}</span>
+                <span className="line-clamp-1">
+                  <HighlightedText text={location} terms={locationTerms} />
+                </span>
               </div>
             )}
 
             {/* Description */}
             {description && (
               <p className="text-sm text-gray-600 line-clamp-3">
-                {description}
+                <HighlightedText text={description} terms={terms} />
               </p>
             )}
           </div>
+
+          {/* Invitation Response */}
+          {self && !self.organizer && onRespond && (
+            <RsvpControls
+              status={self.responseStatus}
+              comment={self.comment}
+              onRespond={onRespond}
+            />
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,95 @@
+"use client";
+
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check, Layers, Loader2 } from "lucide-react";
+
+// Constants
+const DEFAULT_CALENDAR_COLOR = "#9ca3af";
+const PROVIDER_LABELS: Record<CalendarListEntry["provider"], string> = {
+  google: "Google",
+  microsoft: "Outlook",
+  caldav: "CalDAV",
+};
+
+interface CalendarPickerProps {
+  calendars: CalendarListEntry[];
+  selectedIds: string[];
+  onSelectionChange: (calendarIds: string[]) => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+export function CalendarPicker({
+  calendars,
+  selectedIds,
+  onSelectionChange,
+  isLoading,
+  className,
+}: CalendarPickerProps) {
+  const toggleCalendar = (calendarId: string) => {
+    if (selectedIds.includes(calendarId)) {
+      // Keep at least one calendar selected
+      if (selectedIds.length === 1) return;
+      onSelectionChange(selectedIds.filter((id) => id !== calendarId));
+    } else {
+      onSelectionChange([...selectedIds, calendarId]);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Layers className="h-5 w-5" />
+            Calendars
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {isLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading calendars...
+            </div>
+          )}
+
+          {calendars.map((calendar) => {
+            const isSelected = selectedIds.includes(calendar.id);
+            const color = calendar.backgroundColor || DEFAULT_CALENDAR_COLOR;
+
+            return (
+              <button
+                key={calendar.id}
+                type="button"
+                role="checkbox"
+                aria-checked={isSelected}
+                onClick={() => toggleCalendar(calendar.id)}
+                className="flex w-full items-center gap-3 rounded-md px-2 py-1.5 text-left text-sm hover:bg-gray-50"
+              >
+                <span
+                  className="flex h-4 w-4 shrink-0 items-center justify-center rounded border"
+                  style={{
+                    borderColor: color,
+                    backgroundColor: isSelected ? color : "transparent",
+                    color: calendar.foregroundColor || "#fff",
+                  }}
+                >
+                  {isSelected && <Check className="h-3 w-3" />}
+                </span>
+                <span className="line-clamp-1 text-gray-700">
+                  {calendar.summary}
+                </span>
+                {calendar.provider !== "google" && (
+                  <span className="ml-auto shrink-0 text-xs text-gray-400">
+                    {PROVIDER_LABELS[calendar.provider]}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,52 +1,126 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
+import { DateRange } from "react-day-picker";
 import { Calendar } from "@/components/ui/calendar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DATE_PRESETS,
+  DATE_PRESET_LABELS,
+  DateSelection,
+  getPresetRange,
+} from "@/lib/dateRanges";
 import { Calendar as CalendarIcon, X } from "lucide-react";
-import { format } from "date-fns";
+import { endOfDay, format, isSameDay, startOfDay } from "date-fns";
+
+// Constants
+const OPTIONS = [...DATE_PRESETS, "custom"] as const;
+const OPTION_LABELS: Record<(typeof OPTIONS)[number], string> = {
+  ...DATE_PRESET_LABELS,
+  custom: "Custom",
+};
 
 interface DateFilterProps {
-  onDateChange: (startDate?: Date, endDate?: Date) => void;
+  selection: DateSelection;
+  onSelectionChange: (selection: DateSelection) => void;
   className?: string;
 }
 
-export function DateFilter({ onDateChange, className }: DateFilterProps) {
+function formatRange(startDate: Date, endDate?: Date): string {
+  if (!endDate || isSameDay(startDate, endDate)) {
+    return format(startDate, "MMMM d, yyyy");
+  }
+  return `${format(startDate, "MMM d, yyyy")} – ${format(
+    endDate,
+    "MMM d, yyyy"
+  )}`;
+}
+
+export function DateFilter({
+  selection,
+  onSelectionChange,
+  className,
+}: DateFilterProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(
-    new Date()
-  );
+  // Range shown in the picker, and the first end of a range being picked
+  const [draft, setDraft] = useState<DateRange | undefined>();
+  const [pendingStart, setPendingStart] = useState<Date | null>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const optionRefs = useRef<(HTMLButtonElement | null)[]>([]);
 
+  // Close the picker on Escape and hand focus back to its trigger
   useEffect(() => {
-    const today = new Date();
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
+    if (!isOpen) return;
 
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setIsOpen(false);
+        triggerRef.current?.focus();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen]);
 
-    onDateChange(startOfDay, endOfDay);
-  }, []);
+  const openPicker = () => {
+    setDraft(
+      selection.startDate
+        ? { from: selection.startDate, to: selection.endDate }
+        : undefined
+    );
+    setPendingStart(null);
+    setIsOpen(true);
+  };
 
-  const handleDateSelect = (date: Date | undefined) => {
-    if (date) {
-      setSelectedDate(date);
-      // Set the date range to the selected date (same day)
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
+  const selectOption = (option: (typeof OPTIONS)[number]) => {
+    if (option === "custom") {
+      openPicker();
+      return;
+    }
+    setIsOpen(false);
+    onSelectionChange({ preset: option, ...getPresetRange(option) });
+  };
 
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
+  // Arrow keys move between the preset buttons, like a radio group
+  const handleOptionKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const step =
+      e.key === "ArrowRight" || e.key === "ArrowDown"
+        ? 1
+        : e.key === "ArrowLeft" || e.key === "ArrowUp"
+          ? -1
+          : 0;
+    if (!step) return;
 
-      onDateChange(startOfDay, endOfDay);
-      setIsOpen(false);
+    e.preventDefault();
+    const next = (index + step + OPTIONS.length) % OPTIONS.length;
+    optionRefs.current[next]?.focus();
+  };
+
+  // The first click picks one end and the second the other, in either order;
+  // clicking the same day twice selects just that day
+  const handleDayPick = (_range: DateRange | undefined, day: Date) => {
+    if (!pendingStart) {
+      setPendingStart(day);
+      setDraft({ from: day, to: undefined });
+      return;
     }
+
+    const [start, end] =
+      day < pendingStart ? [day, pendingStart] : [pendingStart, day];
+    setPendingStart(null);
+    onSelectionChange({
+      preset: "custom",
+      startDate: startOfDay(start),
+      endDate: endOfDay(end),
+    });
+    setIsOpen(false);
+    triggerRef.current?.focus();
   };
 
   const handleClearFilter = () => {
-    setSelectedDate(undefined);
-    onDateChange(undefined, undefined);
+    setIsOpen(false);
+    onSelectionChange({ preset: "all" });
   };
 
   return (
@@ -59,13 +133,49 @@ export function DateFilter({ onDateChange, className }: DateFilterProps) {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          {/* Selected Date Display */}
-          {selectedDate && (
+          {/* Presets */}
+          <div
+            role="radiogroup"
+            aria-label="Date range"
+            className="flex flex-wrap gap-1.5"
+          >
+            {OPTIONS.map((option, index) => {
+              const isSelected = selection.preset === option;
+              return (
+                <button
+                  key={option}
+                  ref={(element) => {
+                    optionRefs.current[index] = element;
+                  }}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  tabIndex={
+                    isSelected || (selection.preset === "all" && index === 0)
+                      ? 0
+                      : -1
+                  }
+                  onClick={() => selectOption(option)}
+                  onKeyDown={(e) => handleOptionKeyDown(e, index)}
+                  className={`rounded-full border px-3 py-1 text-xs ${
+                    isSelected
+                      ? "border-zinc-900 bg-zinc-900 text-white"
+                      : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {OPTION_LABELS[option]}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Selected Range Display */}
+          {selection.startDate && (
             <div className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
               <span className="text-sm text-gray-600">
                 Showing events for:{" "}
                 <span className="font-medium text-gray-900">
-                  {format(selectedDate, "MMMM d, yyyy")}
+                  {formatRange(selection.startDate, selection.endDate)}
                 </span>
               </span>
               <Button
@@ -73,6 +183,7 @@ export function DateFilter({ onDateChange, className }: DateFilterProps) {
                 size="sm"
                 onClick={handleClearFilter}
                 className="h-6 w-6 p-0"
+                aria-label="Clear date filter"
               >
                 <X className="h-4 w-4" />
               </Button>
@@ -82,24 +193,33 @@ export function DateFilter({ onDateChange, className }: DateFilterProps) {
           {/* Calendar */}
           <div className="relative">
             <Button
+              ref={triggerRef}
               variant="outline"
-              onClick={() => setIsOpen(!isOpen)}
+              onClick={() => (isOpen ? setIsOpen(false) : openPicker())}
+              aria-expanded={isOpen}
+              aria-haspopup="dialog"
               className="w-full justify-start text-left font-normal"
             >
               <CalendarIcon className="mr-2 h-4 w-4" />
-              {selectedDate ? (
-                format(selectedDate, "PPP")
+              {selection.startDate ? (
+                formatRange(selection.startDate, selection.endDate)
               ) : (
-                <span>Pick a date</span>
+                <span>Pick a date range</span>
               )}
             </Button>
 
             {isOpen && (
-              <div className="absolute top-full left-0 mt-1 z-50 bg-white border rounded-md shadow-lg">
+              <div
+                role="dialog"
+                aria-label="Choose a date range"
+                className="absolute top-full left-0 mt-1 z-50 bg-white border rounded-md shadow-lg"
+              >
                 <Calendar
-                  mode="single"
-                  selected={selectedDate}
-                  onSelect={handleDateSelect}
+                  mode="range"
+                  autoFocus
+                  selected={draft}
+                  onSelect={handleDayPick}
+                  defaultMonth={draft?.from}
                   className="rounded-md border"
                 />
               </div>
@@ -108,7 +228,8 @@ export function DateFilter({ onDateChange, className }: DateFilterProps) {
 
           {/* Instructions */}
           <p className="text-xs text-gray-500">
-            Select a date to view events for that specific day. Click the X
+            Pick a preset or click a start and an end date. Use the arrow keys
+            to move between days and Escape to close the calendar. Click the X
             button to clear the filter and view all events.
           </p>
         </CardContent>
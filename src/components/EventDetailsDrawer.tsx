@@ -0,0 +1,445 @@
+"use client";
+
+import { useEffect } from "react";
+import {
+  CalendarEvent,
+  EventAttendee,
+  ResponseStatus,
+} from "@/app/hooks/useCalendarEvents";
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+import { Button } from "@/components/ui/button";
+import { NeedsResponseBadge, RsvpControls } from "@/components/RsvpControls";
+import { describeRecurrence } from "@/lib/recurrence";
+import { RsvpResponse, getSelfAttendee, needsResponse } from "@/lib/rsvp";
+import { formatInTimeZone, getTimeZoneAbbreviation } from "@/lib/timeZones";
+import {
+  Bell,
+  Check,
+  Circle,
+  CircleHelp,
+  Clock,
+  ExternalLink,
+  MapPin,
+  Paperclip,
+  Pencil,
+  Repeat,
+  Users,
+  Video,
+  X,
+} from "lucide-react";
+import { addDays, format, isSameDay, parseISO } from "date-fns";
+
+// Constants
+const RESPONSE_LABELS: Record<ResponseStatus, string> = {
+  accepted: "Going",
+  tentative: "Maybe",
+  declined: "Not going",
+  needsAction: "Awaiting response",
+};
+
+const RESPONSE_ORDER: ResponseStatus[] = [
+  "accepted",
+  "tentative",
+  "needsAction",
+  "declined",
+];
+
+interface EventDetailsDrawerProps {
+  event: CalendarEvent | null;
+  calendar?: CalendarListEntry;
+  timeZone: string;
+  onClose: () => void;
+  onEdit?: (event: CalendarEvent) => void;
+  onRespond?: (
+    event: CalendarEvent,
+    response: RsvpResponse,
+    comment?: string
+  ) => void;
+}
+
+// Helper functions
+function formatEventWhen(event: CalendarEvent, timeZone: string): string {
+  const { start, end } = event;
+
+  if (start?.date) {
+    // All-day end dates are exclusive
+    const first = parseISO(start.date);
+    const last = end?.date ? addDays(parseISO(end.date), -1) : first;
+    return isSameDay(first, last)
+      ? format(first, "EEEE, MMMM d, yyyy")
+      : `${format(first, "EEE, MMM d")} – ${format(last, "EEE, MMM d, yyyy")}`;
+  }
+  if (!start?.dateTime) return "No date specified";
+
+  const startDate = new Date(start.dateTime);
+  const endDate = end?.dateTime ? new Date(end.dateTime) : null;
+  const day = (date: Date) =>
+    formatInTimeZone(date, timeZone, {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+    });
+  const time = (date: Date) =>
+    formatInTimeZone(date, timeZone, { hour: "numeric", minute: "2-digit" });
+
+  let text = `${day(startDate)} · ${time(startDate)}`;
+  if (endDate) {
+    text +=
+      day(endDate) === day(startDate)
+        ? ` – ${time(endDate)}`
+        : ` – ${day(endDate)} · ${time(endDate)}`;
+  }
+  return `${text} ${getTimeZoneAbbreviation(timeZone, startDate)}`;
+}
+
+function formatReminder(minutes: number): string {
+  if (minutes === 0) return "At start time";
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} ${days === 1 ? "day" : "days"} before`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? "hour" : "hours"} before`;
+  }
+  return `${minutes} minutes before`;
+}
+
+function ResponseIcon({ status }: { status: ResponseStatus }) {
+  switch (status) {
+    case "accepted":
+      return <Check className="h-3.5 w-3.5 text-green-600" />;
+    case "declined":
+      return <X className="h-3.5 w-3.5 text-red-600" />;
+    case "tentative":
+      return <CircleHelp className="h-3.5 w-3.5 text-amber-600" />;
+    default:
+      return <Circle className="h-3.5 w-3.5 text-gray-400" />;
+  }
+}
+
+function AttendeeRow({ attendee }: { attendee: EventAttendee }) {
+  const name = attendee.displayName || attendee.email || "Unknown guest";
+  const notes = [
+    attendee.organizer && "Organizer",
+    attendee.optional && "Optional",
+    attendee.self && "You",
+  ].filter(Boolean);
+
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <span className="mt-0.5" title={RESPONSE_LABELS[attendee.responseStatus]}>
+        <ResponseIcon status={attendee.responseStatus} />
+      </span>
+      <div className="min-w-0">
+        <p className="truncate text-gray-900">
+          {name}
+          {notes.length > 0 && (
+            <span className="ml-1 text-xs text-gray-500">
+              ({notes.join(", ")})
+            </span>
+          )}
+        </p>
+        {attendee.displayName && attendee.email && (
+          <p className="truncate text-xs text-gray-500">{attendee.email}</p>
+        )}
+        {attendee.comment && (
+          <p className="text-xs italic text-gray-600">“{attendee.comment}”</p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+// Side panel with everything known about one event
+export function EventDetailsDrawer({
+  event,
+  calendar,
+  timeZone,
+  onClose,
+  onEdit,
+  onRespond,
+}: EventDetailsDrawerProps) {
+  // Close on Escape
+  useEffect(() => {
+    if (!event) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [event, onClose]);
+
+  if (!event) return null;
+
+  const recurrence = describeRecurrence(
+    event.recurrence,
+    event.start,
+    timeZone
+  );
+  const attendees = [...(event.attendees ?? [])]
+    .filter((attendee) => !attendee.resource)
+    .sort(
+      (a, b) =>
+        Number(!!b.organizer) - Number(!!a.organizer) ||
+        RESPONSE_ORDER.indexOf(a.responseStatus) -
+          RESPONSE_ORDER.indexOf(b.responseStatus)
+    );
+  const rooms = (event.attendees ?? []).filter((attendee) => attendee.resource);
+  const responseCounts = RESPONSE_ORDER.map((status) => ({
+    status,
+    count: attendees.filter((attendee) => attendee.responseStatus === status)
+      .length,
+  })).filter(({ count }) => count > 0);
+  const organizer = event.organizer;
+  const showOrganizer =
+    organizer &&
+    !attendees.some((attendee) => attendee.organizer) &&
+    (organizer.displayName || organizer.email);
+  const self = getSelfAttendee(event);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/40"
+      onClick={onClose}
+    >
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="event-details-title"
+        className="flex h-full w-full max-w-md flex-col overflow-y-auto bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div
+          className="flex items-start justify-between gap-2 border-b border-gray-200 p-4"
+          style={
+            calendar?.backgroundColor
+              ? { borderTop: `4px solid ${calendar.backgroundColor}` }
+              : undefined
+          }
+        >
+          <div className="min-w-0 space-y-1">
+            <h2
+              id="event-details-title"
+              className="text-lg font-semibold text-gray-900"
+            >
+              {event.summary || "Untitled Event"}
+            </h2>
+            {calendar && (
+              <p className="text-xs text-gray-500">{calendar.summary}</p>
+            )}
+            {needsResponse(event) && <NeedsResponseBadge />}
+          </div>
+          <div className="flex shrink-0 gap-1">
+            {onEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onEdit(event)}
+                className="h-7 w-7 p-0"
+                aria-label="Edit event"
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClose}
+              className="h-7 w-7 p-0"
+              aria-label="Close"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-5 p-4 text-sm text-gray-700">
+          {self && !self.organizer && onRespond && (
+            <RsvpControls
+              key={`${event.calendarId}:${event.id}`}
+              status={self.responseStatus}
+              comment={self.comment}
+              onRespond={(response, comment) =>
+                onRespond(event, response, comment)
+              }
+            />
+          )}
+
+          <section className="space-y-2">
+            <div className="flex items-start gap-2">
+              <Clock className="mt-0.5 h-4 w-4 shrink-0 text-gray-500" />
+              <span>{formatEventWhen(event, timeZone)}</span>
+            </div>
+            {recurrence && (
+              <div className="flex items-start gap-2">
+                <Repeat className="mt-0.5 h-4 w-4 shrink-0 text-gray-500" />
+                <span>{recurrence}</span>
+              </div>
+            )}
+            {event.location && (
+              <div className="flex items-start gap-2">
+                <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-gray-500" />
+                <span>{event.location}</span>
+              </div>
+            )}
+            {rooms.map((room) => (
+              <div key={room.email} className="flex items-start gap-2">
+                <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-gray-500" />
+                <span>{room.displayName || room.email}</span>
+              </div>
+            ))}
+          </section>
+
+          {event.conference && (
+            <section className="space-y-2">
+              {event.conference.joinUrl && (
+                <Button size="sm" asChild>
+                  <a
+                    href={event.conference.joinUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Video className="h-4 w-4" />
+                    Join {event.conference.name || "video call"}
+                  </a>
+                </Button>
+              )}
+              {event.conference.entryPoints
+                .filter((entryPoint) => entryPoint.type !== "video")
+                .map((entryPoint) => (
+                  <p key={entryPoint.uri} className="text-xs text-gray-600">
+                    {entryPoint.type === "phone" ? "Dial in: " : ""}
+                    <a
+                      href={entryPoint.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline"
+                    >
+                      {entryPoint.label || entryPoint.uri}
+                    </a>
+                  </p>
+                ))}
+            </section>
+          )}
+
+          {(attendees.length > 0 || showOrganizer) && (
+            <section className="space-y-2">
+              <h3 className="flex items-center gap-2 font-medium text-gray-900">
+                <Users className="h-4 w-4 text-gray-500" />
+                {attendees.length > 0
+                  ? `${attendees.length} ${
+                      attendees.length === 1 ? "guest" : "guests"
+                    }`
+                  : "Organizer"}
+              </h3>
+              {responseCounts.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {responseCounts
+                    .map(
+                      ({ status, count }) =>
+                        `${count} ${RESPONSE_LABELS[status].toLowerCase()}`
+                    )
+                    .join(" · ")}
+                </p>
+              )}
+              <ul className="space-y-2">
+                {showOrganizer && (
+                  <li className="text-sm text-gray-900">
+                    {organizer.displayName || organizer.email}
+                    <span className="ml-1 text-xs text-gray-500">
+                      (Organizer)
+                    </span>
+                  </li>
+                )}
+                {attendees.map((attendee) => (
+                  <AttendeeRow
+                    key={attendee.email ?? attendee.displayName}
+                    attendee={attendee}
+                  />
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {event.descriptionHtml && (
+            <section
+              className="whitespace-pre-line break-words [&_a]:text-blue-700 [&_a]:underline [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5"
+              // Sanitized by the API: only basic formatting and safe links
+              dangerouslySetInnerHTML={{ __html: event.descriptionHtml }}
+            />
+          )}
+
+          {event.attachments && event.attachments.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="flex items-center gap-2 font-medium text-gray-900">
+                <Paperclip className="h-4 w-4 text-gray-500" />
+                Attachments
+              </h3>
+              <ul className="space-y-1">
+                {event.attachments.map((attachment) => (
+                  <li key={attachment.fileUrl}>
+                    <a
+                      href={attachment.fileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 text-blue-700 underline"
+                    >
+                      {attachment.iconLink && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={attachment.iconLink}
+                          alt=""
+                          className="h-4 w-4"
+                        />
+                      )}
+                      <span className="truncate">{attachment.title}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {event.reminders && (
+            <section className="space-y-1">
+              <h3 className="flex items-center gap-2 font-medium text-gray-900">
+                <Bell className="h-4 w-4 text-gray-500" />
+                Reminders
+              </h3>
+              {event.reminders.useDefault ? (
+                <p className="text-gray-600">Calendar default reminders</p>
+              ) : event.reminders.overrides.length > 0 ? (
+                <ul className="text-gray-600">
+                  {event.reminders.overrides.map((reminder) => (
+                    <li key={`${reminder.method}:${reminder.minutes}`}>
+                      {formatReminder(reminder.minutes)}
+                      {reminder.method === "email" && " by email"}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-gray-600">No reminders</p>
+              )}
+            </section>
+          )}
+
+          {event.htmlLink && (
+            <a
+              href={event.htmlLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-gray-500 underline"
+            >
+              <ExternalLink className="h-3 w-3" />
+              {calendar?.provider === "microsoft"
+                ? "Open in Outlook"
+                : "Open in Google Calendar"}
+            </a>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarEvent } from "@/app/hooks/useCalendarEvents";
+import {
+  CalendarListEntry,
+  getWritableCalendars,
+} from "@/app/hooks/useCalendars";
+import { EventInput } from "@/app/hooks/useEventMutations";
+import {
+  RECURRENCE_SCOPES,
+  RecurrenceScope,
+  describeRecurrence,
+} from "@/lib/recurrence";
+import { getBrowserTimeZone } from "@/lib/timeZones";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Repeat, Trash2, X } from "lucide-react";
+import { addDays, addHours, format, parseISO, startOfHour } from "date-fns";
+
+// Constants
+const DATE_FORMAT = "yyyy-MM-dd";
+const TIME_FORMAT = "HH:mm";
+
+const SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: "This event",
+  following: "This and following events",
+  all: "All events",
+};
+
+// Types
+interface EventFormState {
+  summary: string;
+  calendarId: string;
+  allDay: boolean;
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+  location: string;
+  description: string;
+}
+
+interface EventEditorDialogProps {
+  isOpen: boolean;
+  event?: CalendarEvent | null;
+  calendars: CalendarListEntry[];
+  defaultCalendarId?: string;
+  isSaving?: boolean;
+  onClose: () => void;
+  // scope is "this" unless the event belongs to a recurring series
+  onSave: (
+    calendarId: string,
+    event: EventInput,
+    scope: RecurrenceScope
+  ) => void;
+  onDelete?: (scope: RecurrenceScope) => void;
+}
+
+// Helper functions
+function createFormState(
+  event: CalendarEvent | null | undefined,
+  defaultCalendarId: string
+): EventFormState {
+  if (event?.start?.date) {
+    // Google stores all-day end dates as exclusive
+    const endDate = event.end?.date
+      ? addDays(parseISO(event.end.date), -1)
+      : parseISO(event.start.date);
+
+    return {
+      summary: event.summary || "",
+      calendarId: event.calendarId || defaultCalendarId,
+      allDay: true,
+      startDate: event.start.date,
+      startTime: "09:00",
+      endDate: format(endDate, DATE_FORMAT),
+      endTime: "10:00",
+      location: event.location || "",
+      description: event.description || "",
+    };
+  }
+
+  const start = event?.start?.dateTime
+    ? parseISO(event.start.dateTime)
+    : addHours(startOfHour(new Date()), 1);
+  const end = event?.end?.dateTime
+    ? parseISO(event.end.dateTime)
+    : addHours(start, 1);
+
+  return {
+    summary: event?.summary || "",
+    calendarId: event?.calendarId || defaultCalendarId,
+    allDay: false,
+    startDate: format(start, DATE_FORMAT),
+    startTime: format(start, TIME_FORMAT),
+    endDate: format(end, DATE_FORMAT),
+    endTime: format(end, TIME_FORMAT),
+    location: event?.location || "",
+    description: event?.description || "",
+  };
+}
+
+function toEventInput(form: EventFormState): EventInput {
+  const base = {
+    summary: form.summary.trim(),
+    location: form.location.trim(),
+    description: form.description.trim(),
+  };
+
+  if (form.allDay) {
+    return {
+      ...base,
+      start: { date: form.startDate },
+      end: {
+        date: format(addDays(parseISO(form.endDate), 1), DATE_FORMAT),
+      },
+    };
+  }
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return {
+    ...base,
+    start: {
+      dateTime: new Date(`${form.startDate}T${form.startTime}`).toISOString(),
+      timeZone,
+    },
+    end: {
+      dateTime: new Date(`${form.endDate}T${form.endTime}`).toISOString(),
+      timeZone,
+    },
+  };
+}
+
+function validateForm(form: EventFormState): string | null {
+  if (!form.summary.trim()) return "Please enter a title";
+
+  const start = form.allDay
+    ? form.startDate
+    : `${form.startDate}T${form.startTime}`;
+  const end = form.allDay ? form.endDate : `${form.endDate}T${form.endTime}`;
+  if (end < start) return "The event must end after it starts";
+
+  return null;
+}
+
+export function EventEditorDialog({
+  isOpen,
+  event,
+  calendars,
+  defaultCalendarId = "primary",
+  isSaving,
+  onClose,
+  onSave,
+  onDelete,
+}: EventEditorDialogProps) {
+  const [form, setForm] = useState<EventFormState>(() =>
+    createFormState(event, defaultCalendarId)
+  );
+  const [scope, setScope] = useState<RecurrenceScope>("this");
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Reset the form whenever the dialog opens for a different event
+  useEffect(() => {
+    if (isOpen) {
+      setForm(createFormState(event, defaultCalendarId));
+      setScope("this");
+      setValidationError(null);
+    }
+  }, [isOpen, event, defaultCalendarId]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const isEditing = !!event;
+  const isRecurring = !!event?.recurringEventId;
+  const recurrenceSummary = describeRecurrence(
+    event?.recurrence,
+    event?.start,
+    getBrowserTimeZone()
+  );
+  const writableCalendars = getWritableCalendars(calendars);
+
+  const updateField = <K extends keyof EventFormState>(
+    field: K,
+    value: EventFormState[K]
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const error = validateForm(form);
+    setValidationError(error);
+    if (error) return;
+
+    onSave(form.calendarId, toEventInput(form), scope);
+  };
+
+  const inputClassName =
+    "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <Card
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="event-editor-title"
+        className="w-full max-w-lg bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle id="event-editor-title" className="text-lg">
+            {isEditing ? "Edit event" : "New event"}
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-6 w-6 p-0"
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              autoFocus
+              className={inputClassName}
+              placeholder="Add title"
+              value={form.summary}
+              onChange={(e) => updateField("summary", e.target.value)}
+            />
+
+            {!isEditing && writableCalendars.length > 1 && (
+              <select
+                className={inputClassName}
+                value={form.calendarId}
+                onChange={(e) => updateField("calendarId", e.target.value)}
+              >
+                {writableCalendars.map((calendar) => (
+                  <option key={calendar.id} value={calendar.id}>
+                    {calendar.summary}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.allDay}
+                onChange={(e) => updateField("allDay", e.target.checked)}
+              />
+              All day
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="date"
+                aria-label="Start date"
+                className={inputClassName}
+                value={form.startDate}
+                onChange={(e) => updateField("startDate", e.target.value)}
+              />
+              {!form.allDay && (
+                <input
+                  type="time"
+                  aria-label="Start time"
+                  className={inputClassName}
+                  value={form.startTime}
+                  onChange={(e) => updateField("startTime", e.target.value)}
+                />
+              )}
+              <input
+                type="date"
+                aria-label="End date"
+                className={inputClassName}
+                value={form.endDate}
+                onChange={(e) => updateField("endDate", e.target.value)}
+              />
+              {!form.allDay && (
+                <input
+                  type="time"
+                  aria-label="End time"
+                  className={inputClassName}
+                  value={form.endTime}
+                  onChange={(e) => updateField("endTime", e.target.value)}
+                />
+              )}
+            </div>
+
+            <input
+              className={inputClassName}
+              placeholder="Add location"
+              value={form.location}
+              onChange={(e) => updateField("location", e.target.value)}
+            />
+
+            <textarea
+              className={inputClassName}
+              placeholder="Add description"
+              rows={3}
+              value={form.description}
+              onChange={(e) => updateField("description", e.target.value)}
+            />
+
+            {isRecurring && (
+              <fieldset className="space-y-2 rounded-md border border-gray-200 p-3">
+                <legend className="flex items-center gap-1 px-1 text-sm text-gray-700">
+                  <Repeat className="h-3.5 w-3.5" />
+                  {recurrenceSummary ?? "Repeating event"}
+                </legend>
+                {RECURRENCE_SCOPES.map((option) => (
+                  <label
+                    key={option}
+                    className="flex items-center gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="radio"
+                      name="recurrence-scope"
+                      checked={scope === option}
+                      onChange={() => setScope(option)}
+                    />
+                    {SCOPE_LABELS[option]}
+                  </label>
+                ))}
+              </fieldset>
+            )}
+
+            {validationError && (
+              <p className="text-sm text-red-600">{validationError}</p>
+            )}
+
+            <div className="flex items-center justify-between">
+              {isEditing && onDelete ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDelete(scope)}
+                  disabled={isSaving}
+                  className="text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              ) : (
+                <span />
+              )}
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={onClose}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" size="sm" disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
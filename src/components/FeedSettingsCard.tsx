@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+import { FeedSettings, FeedSettingsInput } from "@/app/hooks/useFeedSettings";
+import { CalendarPicker } from "@/components/CalendarPicker";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getBrowserTimeZone } from "@/lib/timeZones";
+import { Check, Copy, Loader2, Rss } from "lucide-react";
+
+// Constants
+const DEFAULT_PAST_DAYS = 30;
+const DEFAULT_FUTURE_DAYS = 180;
+
+interface FeedSettingsCardProps {
+  feed: FeedSettings | null;
+  calendars: CalendarListEntry[];
+  isSaving?: boolean;
+  error?: string | null;
+  onCreate: (settings: FeedSettingsInput) => void;
+  onSave: (settings: FeedSettingsInput) => void;
+  onRotate: () => void;
+  onRevoke: () => void;
+}
+
+// Helper functions
+function getPrimaryCalendarIds(calendars: CalendarListEntry[]): string[] {
+  return calendars
+    .filter((calendar) => calendar.primary)
+    .map((calendar) => calendar.id);
+}
+
+// Apple Calendar and Outlook open webcal:// links as subscriptions
+function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:/, "webcal:");
+}
+
+export function FeedSettingsCard({
+  feed,
+  calendars,
+  isSaving,
+  error,
+  onCreate,
+  onSave,
+  onRotate,
+  onRevoke,
+}: FeedSettingsCardProps) {
+  const [calendarIds, setCalendarIds] = useState<string[] | null>(null);
+  const [pastDays, setPastDays] = useState(DEFAULT_PAST_DAYS);
+  const [futureDays, setFutureDays] = useState(DEFAULT_FUTURE_DAYS);
+  const [isCopied, setIsCopied] = useState(false);
+
+  // Start from the saved settings whenever they change
+  useEffect(() => {
+    setCalendarIds(feed?.calendarIds ?? null);
+    setPastDays(feed?.pastDays ?? DEFAULT_PAST_DAYS);
+    setFutureDays(feed?.futureDays ?? DEFAULT_FUTURE_DAYS);
+  }, [feed]);
+
+  const settings: FeedSettingsInput = {
+    calendarIds,
+    pastDays,
+    futureDays,
+    // Count the window's days where the user is
+    timeZone: getBrowserTimeZone(),
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const handleRotate = () => {
+    if (
+      window.confirm(
+        "Create a new feed URL? Calendar apps subscribed to the current URL will stop updating."
+      )
+    ) {
+      onRotate();
+    }
+  };
+
+  const handleRevoke = () => {
+    if (
+      window.confirm(
+        "Turn off the feed? Calendar apps subscribed to it will stop updating."
+      )
+    ) {
+      onRevoke();
+    }
+  };
+
+  const inputClassName =
+    "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Rss className="h-5 w-5" />
+          Calendar feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe to your synced events from Outlook, Apple Calendar or any
+          app that accepts an iCalendar URL. Anyone with the URL can read the
+          feed, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {feed && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                readOnly
+                aria-label="Feed URL"
+                className={inputClassName}
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {isCopied ? (
+                  <Check className="h-4 w-4" />
+                ) : (
+                  <Copy className="h-4 w-4" />
+                )}
+                {isCopied ? "Copied" : "Copy"}
+              </Button>
+            </div>
+            <a
+              href={toWebcalUrl(feed.url)}
+              className="text-sm text-zinc-700 underline"
+            >
+              Open in your calendar app
+            </a>
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="space-y-1 text-sm text-gray-700">
+            <span>Days in the past</span>
+            <input
+              type="number"
+              min={0}
+              className={inputClassName}
+              value={pastDays}
+              onChange={(e) => setPastDays(Number(e.target.value))}
+            />
+          </label>
+          <label className="space-y-1 text-sm text-gray-700">
+            <span>Days ahead</span>
+            <input
+              type="number"
+              min={0}
+              className={inputClassName}
+              value={futureDays}
+              onChange={(e) => setFutureDays(Number(e.target.value))}
+            />
+          </label>
+        </div>
+
+        <CalendarPicker
+          calendars={calendars}
+          selectedIds={calendarIds ?? getPrimaryCalendarIds(calendars)}
+          onSelectionChange={setCalendarIds}
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {feed ? (
+            <>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRotate}
+                  disabled={isSaving}
+                >
+                  New URL
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRevoke}
+                  disabled={isSaving}
+                  className="text-red-600"
+                >
+                  Turn off feed
+                </Button>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => onSave(settings)}
+                disabled={isSaving}
+              >
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() => onCreate(settings)}
+              disabled={isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create feed URL
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
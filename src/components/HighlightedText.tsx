@@ -0,0 +1,31 @@
+import { Fragment } from "react";
+import { findSearchMatches } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+  // Lowercased search terms to mark
+  terms?: string[];
+}
+
+// Text with every occurrence of the search terms marked
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const matches = terms?.length ? findSearchMatches(text, terms) : [];
+  if (matches.length === 0) return <>{text}</>;
+
+  const parts = [];
+  let offset = 0;
+  for (const { start, end } of matches) {
+    parts.push(
+      <Fragment key={start}>
+        {text.slice(offset, start)}
+        <mark className="rounded-sm bg-yellow-200 text-inherit">
+          {text.slice(start, end)}
+        </mark>
+      </Fragment>
+    );
+    offset = end;
+  }
+  parts.push(text.slice(offset));
+
+  return <>{parts}</>;
+}
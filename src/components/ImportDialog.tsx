@@ -0,0 +1,298 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  CalendarListEntry,
+  getWritableCalendars,
+} from "@/app/hooks/useCalendars";
+import {
+  ImportReport,
+  ImportResult,
+  ImportStatus,
+} from "@/app/hooks/useEventMutations";
+import { CalendarEventCard } from "@/components/CalendarEventCard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Repeat, X } from "lucide-react";
+
+// Constants
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  new: "New",
+  duplicate: "Already in calendar",
+  imported: "Imported",
+  failed: "Failed",
+};
+
+const STATUS_CLASSES: Record<ImportStatus, string> = {
+  new: "bg-blue-50 text-blue-700",
+  duplicate: "bg-gray-100 text-gray-600",
+  imported: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-700",
+};
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  calendars: CalendarListEntry[];
+  defaultCalendarId?: string;
+  onClose: () => void;
+  onPreview: (calendarId: string, ics: string) => Promise<ImportReport>;
+  onImport: (
+    calendarId: string,
+    ics: string,
+    onProgress?: (report: ImportReport) => void
+  ) => Promise<ImportReport>;
+}
+
+// Helper functions
+function countByStatus(results: ImportResult[], status: ImportStatus): number {
+  return results.filter((result) => result.status === status).length;
+}
+
+function describeReport(report: ImportReport, isDone: boolean): string {
+  const { results } = report;
+  const duplicates = countByStatus(results, "duplicate");
+
+  if (isDone) {
+    const failed = countByStatus(results, "failed");
+    return [
+      `${countByStatus(results, "imported")} imported`,
+      duplicates && `${duplicates} already in the calendar`,
+      failed && `${failed} failed`,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  return [
+    `${countByStatus(results, "new")} new`,
+    duplicates && `${duplicates} already in the calendar and will be skipped`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function ImportDialog({
+  isOpen,
+  calendars,
+  defaultCalendarId = "primary",
+  onClose,
+  onPreview,
+  onImport,
+}: ImportDialogProps) {
+  const [file, setFile] = useState<{ name: string; ics: string } | null>(null);
+  const [calendarId, setCalendarId] = useState(defaultCalendarId);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isDone, setIsDone] = useState(false);
+  const [pending, setPending] = useState<"preview" | "import" | null>(null);
+  // Events handled so far while a large import runs in batches
+  const [progress, setProgress] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setCalendarId(defaultCalendarId);
+      setReport(null);
+      setIsDone(false);
+      setProgress(null);
+      setError(null);
+    }
+  }, [isOpen, defaultCalendarId]);
+
+  // Preview again whenever the file or the target calendar changes, since
+  // duplicates depend on both
+  useEffect(() => {
+    if (!file || isDone) return;
+
+    let isCurrent = true;
+    setPending("preview");
+    setError(null);
+    onPreview(calendarId, file.ics)
+      .then((preview) => isCurrent && setReport(preview))
+      .catch((previewError: Error) => {
+        if (!isCurrent) return;
+        setReport(null);
+        setError(previewError.message);
+      })
+      .finally(() => isCurrent && setPending(null));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [file, calendarId, isDone, onPreview]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const writableCalendars = getWritableCalendars(calendars);
+  const newCount = report ? countByStatus(report.results, "new") : 0;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile({ name: selected.name, ics: await selected.text() });
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setPending("import");
+    setProgress(null);
+    setError(null);
+    try {
+      setReport(await onImport(calendarId, file.ics, setProgress));
+      setIsDone(true);
+    } catch (importError) {
+      setError((importError as Error).message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const inputClassName =
+    "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <Card
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="flex max-h-[90vh] w-full max-w-2xl flex-col bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle id="import-dialog-title" className="text-lg">
+            Import events
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-6 w-6 p-0"
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="flex min-h-0 flex-col gap-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              aria-label="iCalendar file"
+              className={inputClassName}
+              disabled={isDone}
+              onChange={handleFileChange}
+            />
+            <select
+              aria-label="Import into calendar"
+              className={inputClassName}
+              value={calendarId}
+              disabled={isDone}
+              onChange={(e) => setCalendarId(e.target.value)}
+            >
+              {writableCalendars.map((calendar) => (
+                <option key={calendar.id} value={calendar.id}>
+                  {calendar.summary}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {pending && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {pending === "preview"
+                ? "Reading file..."
+                : progress && report
+                  ? `Importing events... ${progress.results.length} of ${report.results.length}`
+                  : "Importing events..."}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {report && (
+            <>
+              <p className="text-sm text-gray-700">
+                {file?.name}: {describeReport(report, isDone)}
+              </p>
+
+              {report.errors.length > 0 && (
+                <ul className="list-inside list-disc text-xs text-amber-700">
+                  {report.errors.map((message) => (
+                    <li key={message}>Skipped: {message}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+                {report.results.map(({ event, status, message }) => (
+                  <div key={event.iCalUID} className="space-y-1">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span
+                        className={`rounded-full px-2 py-0.5 ${STATUS_CLASSES[status]}`}
+                      >
+                        {STATUS_LABELS[status]}
+                      </span>
+                      {event.recurrence && (
+                        <span className="flex items-center gap-1 text-gray-500">
+                          <Repeat className="h-3 w-3" />
+                          Repeats
+                        </span>
+                      )}
+                      {message && (
+                        <span className="truncate text-red-600">{message}</span>
+                      )}
+                    </div>
+                    <CalendarEventCard
+                      event={{ ...event, id: event.iCalUID }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {isDone ? (
+              <Button size="sm" onClick={onClose}>
+                Done
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" size="sm" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleImport}
+                  disabled={!!pending || newCount === 0}
+                >
+                  Import{" "}
+                  {newCount > 0 &&
+                    `${newCount} ${newCount === 1 ? "event" : "events"}`}
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DayProps } from "react-day-picker";
+import { CalendarEvent } from "@/app/hooks/useCalendarEvents";
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+import { Calendar } from "@/components/ui/calendar";
+import { getEventColor, getEventsForDay } from "@/lib/eventLayout";
+import { format, isToday } from "date-fns";
+
+// Constants
+const MAX_VISIBLE_EVENTS = 3;
+
+interface MonthViewProps {
+  month: Date;
+  events: CalendarEvent[];
+  calendarsById: Map<string, CalendarListEntry>;
+  onEventClick: (event: CalendarEvent) => void;
+  onDayClick: (day: Date) => void;
+}
+
+type MonthViewContextValue = Omit<MonthViewProps, "month">;
+
+// Day cells are rendered by react-day-picker, so they read the month's events
+// and handlers from context rather than closing over MonthView's props
+const MonthViewContext = createContext<MonthViewContextValue>({
+  events: [],
+  calendarsById: new Map(),
+  onEventClick: () => {},
+  onDayClick: () => {},
+});
+
+function MonthDay({ day, modifiers, ...cellProps }: DayProps) {
+  const { events, calendarsById, onEventClick, onDayClick } =
+    useContext(MonthViewContext);
+  const dayEvents = getEventsForDay(events, day.date);
+  const hiddenCount = dayEvents.length - MAX_VISIBLE_EVENTS;
+
+  return (
+    <td {...cellProps}>
+      <button
+        type="button"
+        onClick={() => onDayClick(day.date)}
+        className={`mb-0.5 flex h-6 w-6 items-center justify-center rounded-full text-xs ${
+          isToday(day.date)
+            ? "bg-zinc-900 text-white"
+            : modifiers.outside
+              ? "text-gray-400"
+              : "text-gray-900"
+        }`}
+        aria-label={format(day.date, "PPPP")}
+      >
+        {format(day.date, "d")}
+      </button>
+      <div className="space-y-0.5">
+        {dayEvents.slice(0, MAX_VISIBLE_EVENTS).map((event) => (
+          <button
+            key={`${event.calendarId}:${event.id}`}
+            type="button"
+            onClick={() => onEventClick(event)}
+            className="block w-full truncate rounded px-1 text-left text-[11px] text-white"
+            style={{ backgroundColor: getEventColor(event, calendarsById) }}
+          >
+            {event.start?.dateTime &&
+              `${format(new Date(event.start.dateTime), "h:mma")} `}
+            {event.summary || "Untitled Event"}
+          </button>
+        ))}
+        {hiddenCount > 0 && (
+          <button
+            type="button"
+            onClick={() => onDayClick(day.date)}
+            className="px-1 text-[11px] text-gray-500 hover:text-gray-900"
+          >
+            +{hiddenCount} more
+          </button>
+        )}
+      </div>
+    </td>
+  );
+}
+
+// Month grid built on the shared Calendar (react-day-picker) primitive, with
+// each day cell swapped for one that lists that day's events
+export function MonthView({
+  month,
+  events,
+  calendarsById,
+  onEventClick,
+  onDayClick,
+}: MonthViewProps) {
+  return (
+    <MonthViewContext.Provider
+      value={{ events, calendarsById, onEventClick, onDayClick }}
+    >
+      <Calendar
+        month={month}
+        hideNavigation
+        showOutsideDays
+        className="w-full rounded-md border border-gray-200 p-0"
+        classNames={{
+          root: "w-full",
+          months: "w-full",
+          month: "w-full",
+          month_caption: "hidden",
+          weekdays: "flex border-b border-gray-200",
+          weekday: "flex-1 py-2 text-center text-xs font-normal text-gray-500",
+          week: "flex w-full",
+          day: "min-w-0 flex-1 h-28 overflow-hidden border-b border-l border-gray-100 p-1 align-top first:border-l-0",
+        }}
+        components={{ Day: MonthDay }}
+      />
+    </MonthViewContext.Provider>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { MicrosoftConnection } from "@/app/hooks/useMicrosoftConnection";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Link2 } from "lucide-react";
+
+interface OutlookConnectionCardProps {
+  connection: MicrosoftConnection | null;
+  // Outcome of the last consent round trip, from the callback's redirect
+  outcome?: string | null;
+  isSaving?: boolean;
+  error?: string | null;
+  onConnect: () => void;
+  onDisconnect: () => void;
+}
+
+export function OutlookConnectionCard({
+  connection,
+  outcome,
+  isSaving,
+  error,
+  onConnect,
+  onDisconnect,
+}: OutlookConnectionCardProps) {
+  const handleDisconnect = () => {
+    if (
+      window.confirm(
+        "Disconnect Outlook? Its calendars will no longer appear here."
+      )
+    ) {
+      onDisconnect();
+    }
+  };
+
+  const account = connection?.account;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Link2 className="h-5 w-5" />
+          Outlook calendars
+        </CardTitle>
+        <CardDescription>
+          Show the calendars of a Microsoft 365 or Outlook.com account next to
+          your Google calendars. They are read-only here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {outcome === "failed" && (
+          <p className="text-sm text-red-600">
+            Outlook could not be connected. Please try again.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {!connection?.configured ? (
+          <p className="text-sm text-gray-600">
+            Outlook is not set up on this server.
+          </p>
+        ) : connection.connected ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-700">
+              Connected as {account?.email || account?.name || "Outlook user"}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={onConnect}>
+                Reconnect
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDisconnect}
+                disabled={isSaving}
+                className="text-red-600"
+              >
+                Disconnect
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button size="sm" onClick={onConnect}>
+            Connect Outlook
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
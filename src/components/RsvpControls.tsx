@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ResponseStatus } from "@/app/hooks/useCalendarEvents";
+import {
+  MAX_RSVP_COMMENT_LENGTH,
+  RSVP_RESPONSES,
+  RsvpResponse,
+} from "@/lib/rsvp";
+
+// Constants
+const RESPONSE_LABELS: Record<RsvpResponse, string> = {
+  accepted: "Yes",
+  tentative: "Maybe",
+  declined: "No",
+};
+
+interface RsvpControlsProps {
+  // The user's current answer; "needsAction" until they respond
+  status: ResponseStatus;
+  comment?: string;
+  isPending?: boolean;
+  onRespond: (response: RsvpResponse, comment?: string) => void;
+}
+
+// Yes / Maybe / No buttons for an invitation, with an optional note to the
+// organizer
+export function RsvpControls({
+  status,
+  comment,
+  isPending = false,
+  onRespond,
+}: RsvpControlsProps) {
+  const [isAddingNote, setIsAddingNote] = useState(false);
+  const [note, setNote] = useState(comment ?? "");
+
+  const handleRespond = (response: RsvpResponse) => {
+    // Only send the note when it was edited, so answering keeps the old one
+    onRespond(response, isAddingNote ? note : undefined);
+    setIsAddingNote(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-600">Going?</span>
+        {RSVP_RESPONSES.map((response) => (
+          <Button
+            key={response}
+            size="sm"
+            variant={status === response ? "default" : "outline"}
+            disabled={isPending}
+            aria-pressed={status === response}
+            onClick={() => handleRespond(response)}
+          >
+            {RESPONSE_LABELS[response]}
+          </Button>
+        ))}
+        {!isAddingNote && (
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={isPending}
+            onClick={() => {
+              setNote(comment ?? "");
+              setIsAddingNote(true);
+            }}
+          >
+            {comment ? "Edit note" : "Add note"}
+          </Button>
+        )}
+      </div>
+      {isAddingNote && (
+        <input
+          type="text"
+          value={note}
+          maxLength={MAX_RSVP_COMMENT_LENGTH}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note to the organizer, sent with your answer"
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none"
+          autoFocus
+        />
+      )}
+    </div>
+  );
+}
+
+// Marks an invitation the user hasn't answered yet
+export function NeedsResponseBadge() {
+  return (
+    <span className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+      Needs response
+    </span>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { format } from "date-fns";
+import {
+  CalendarListEntry,
+  getWritableCalendars,
+} from "@/app/hooks/useCalendars";
+import {
+  SyncConflict,
+  SyncDirection,
+  SyncPair,
+  SyncPairInput,
+  SyncPrivacy,
+  SyncRunSummary,
+} from "@/app/hooks/useSyncPairs";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowLeftRight, ArrowRight, Loader2, RefreshCw } from "lucide-react";
+
+// Constants
+const PRIVACY_LABELS: Record<SyncPrivacy, string> = {
+  busy: "Only show as busy",
+  details: "Copy event details",
+};
+
+interface SyncPairsCardProps {
+  pairs: SyncPair[];
+  conflicts: SyncConflict[];
+  calendars: CalendarListEntry[];
+  isSaving?: boolean;
+  // Pair currently being synced, if any
+  runningPairId?: string | null;
+  error?: string | null;
+  onCreate: (input: SyncPairInput) => void;
+  onUpdate: (id: string, input: Partial<SyncPairInput>) => void;
+  onRun: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearConflicts: () => void;
+}
+
+// Helper functions
+function describeRun(run: SyncRunSummary): string {
+  const time = format(run.finishedAt, "MMM d, h:mm a");
+  if (run.error) return `Last sync failed ${time}: ${run.error}`;
+
+  const counts = [
+    `${run.created} added`,
+    `${run.updated} updated`,
+    `${run.deleted} removed`,
+    ...(run.conflicts ? [`${run.conflicts} conflicts`] : []),
+    ...(run.failed ? [`${run.failed} failed`] : []),
+  ];
+  return `Last synced ${time}: ${counts.join(", ")}`;
+}
+
+function formatUpdated(value?: string): string {
+  return value ? format(new Date(value), "MMM d, h:mm a") : "unknown";
+}
+
+export function SyncPairsCard({
+  pairs,
+  conflicts,
+  calendars,
+  isSaving,
+  runningPairId,
+  error,
+  onCreate,
+  onUpdate,
+  onRun,
+  onRemove,
+  onClearConflicts,
+}: SyncPairsCardProps) {
+  const [sourceCalendarId, setSourceCalendarId] = useState("");
+  const [targetCalendarId, setTargetCalendarId] = useState("");
+  const [privacy, setPrivacy] = useState<SyncPrivacy>("busy");
+  const [direction, setDirection] = useState<SyncDirection>("one-way");
+
+  // Copies are written through Google, so only its calendars can be targets
+  const targets = getWritableCalendars(calendars).filter(
+    (calendar) => calendar.provider === "google"
+  );
+  const source = calendars.find(({ id }) => id === sourceCalendarId);
+  const canSyncBack = source?.provider === "google" && privacy === "details";
+
+  const getName = (calendarId: string) =>
+    calendars.find(({ id }) => id === calendarId)?.summary ?? calendarId;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onCreate({
+      sourceCalendarId,
+      targetCalendarId,
+      privacy,
+      direction: canSyncBack ? direction : "one-way",
+    });
+  };
+
+  const handleRemove = (pair: SyncPair) => {
+    if (
+      window.confirm(
+        `Stop syncing? The events copied into ${getName(
+          pair.targetCalendarId
+        )} will be deleted.`
+      )
+    ) {
+      onRemove(pair.id);
+    }
+  };
+
+  const inputClassName =
+    "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <RefreshCw className="h-5 w-5" />
+          Calendar sync
+        </CardTitle>
+        <CardDescription>
+          Mirror events from one calendar into another, for example personal
+          events as busy blocks on your work calendar. Two-way sync also copies
+          changes back; when both sides changed, the latest edit wins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {pairs.length > 0 && (
+          <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+            {pairs.map((pair) => (
+              <li key={pair.id} className="space-y-2 p-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm font-medium text-gray-900">
+                  {getName(pair.sourceCalendarId)}
+                  {pair.direction === "two-way" ? (
+                    <ArrowLeftRight className="h-4 w-4 text-gray-500" />
+                  ) : (
+                    <ArrowRight className="h-4 w-4 text-gray-500" />
+                  )}
+                  {getName(pair.targetCalendarId)}
+                </div>
+                {pair.lastRun && (
+                  <p
+                    className={`text-xs ${
+                      pair.lastRun.error ? "text-red-600" : "text-gray-500"
+                    }`}
+                  >
+                    {describeRun(pair.lastRun)}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    aria-label="Privacy"
+                    className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    value={pair.privacy}
+                    disabled={isSaving || pair.direction === "two-way"}
+                    onChange={(e) =>
+                      onUpdate(pair.id, {
+                        privacy: e.target.value as SyncPrivacy,
+                      })
+                    }
+                  >
+                    {Object.entries(PRIVACY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRun(pair.id)}
+                    disabled={isSaving || !!runningPairId}
+                  >
+                    {runningPairId === pair.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4" />
+                    )}
+                    Sync now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(pair)}
+                    disabled={isSaving}
+                    className="text-red-600"
+                  >
+                    Stop syncing
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form className="space-y-3" onSubmit={handleSubmit}>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>Copy events from</span>
+              <select
+                required
+                className={inputClassName}
+                value={sourceCalendarId}
+                onChange={(e) => setSourceCalendarId(e.target.value)}
+              >
+                <option value="">Choose a calendar</option>
+                {calendars.map((calendar) => (
+                  <option key={calendar.id} value={calendar.id}>
+                    {calendar.summary}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>Into</span>
+              <select
+                required
+                className={inputClassName}
+                value={targetCalendarId}
+                onChange={(e) => setTargetCalendarId(e.target.value)}
+              >
+                <option value="">Choose a calendar</option>
+                {targets
+                  .filter(({ id }) => id !== sourceCalendarId)
+                  .map((calendar) => (
+                    <option key={calendar.id} value={calendar.id}>
+                      {calendar.summary}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1 text-sm text-gray-700">
+              <span>Privacy</span>
+              <select
+                className={inputClassName}
+                value={privacy}
+                onChange={(e) => setPrivacy(e.target.value as SyncPrivacy)}
+              >
+                {Object.entries(PRIVACY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 pt-6 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={canSyncBack && direction === "two-way"}
+                disabled={!canSyncBack}
+                onChange={(e) =>
+                  setDirection(e.target.checked ? "two-way" : "one-way")
+                }
+              />
+              Copy changes back (two-way)
+            </label>
+          </div>
+          <Button type="submit" size="sm" disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Start syncing
+          </Button>
+        </form>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900">
+                Resolved conflicts
+              </h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClearConflicts}
+                disabled={isSaving}
+              >
+                Clear
+              </Button>
+            </div>
+            <ul className="space-y-1 text-xs text-gray-600">
+              {conflicts.map((conflict) => {
+                const pair = pairs.find(({ id }) => id === conflict.pairId);
+                const winner =
+                  pair &&
+                  getName(
+                    conflict.winner === "source"
+                      ? pair.sourceCalendarId
+                      : pair.targetCalendarId
+                  );
+                return (
+                  <li key={conflict.id}>
+                    <span className="font-medium text-gray-900">
+                      {conflict.eventSummary || "Untitled Event"}
+                    </span>{" "}
+                    changed on both sides; kept the version from{" "}
+                    {winner ?? `the ${conflict.winner} calendar`} (source{" "}
+                    {formatUpdated(conflict.sourceUpdated)}, target{" "}
+                    {formatUpdated(conflict.targetUpdated)}). Resolved{" "}
+                    {format(conflict.resolvedAt, "MMM d, h:mm a")}.
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
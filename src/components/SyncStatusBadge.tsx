@@ -0,0 +1,52 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { SyncStatus } from "@/app/hooks/useSyncStatus";
+import { AlertCircle, CheckCircle2, CloudOff } from "lucide-react";
+
+interface SyncStatusBadgeProps {
+  status?: SyncStatus;
+}
+
+// Shows whether the background sync has kept this user's calendars current
+export function SyncStatusBadge({ status }: SyncStatusBadgeProps) {
+  if (!status) return null;
+
+  const { user, worker } = status;
+  const badgeClassName =
+    "inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs";
+
+  if (!user) {
+    return (
+      <span
+        className={`${badgeClassName} bg-gray-100 text-gray-600`}
+        title="Calendars only sync while this page is open"
+      >
+        <CloudOff className="h-3 w-3" />
+        {worker ? "Background sync pending" : "Background sync off"}
+      </span>
+    );
+  }
+
+  if (user.error) {
+    return (
+      <span
+        className={`${badgeClassName} bg-red-50 text-red-700`}
+        title={user.error}
+      >
+        <AlertCircle className="h-3 w-3" />
+        Sync failed {formatDistanceToNow(user.finishedAt, { addSuffix: true })}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`${badgeClassName} bg-green-50 text-green-700`}
+      title={`${user.calendars} calendars and ${user.pairs} sync pairs`}
+    >
+      <CheckCircle2 className="h-3 w-3" />
+      Synced {formatDistanceToNow(user.finishedAt, { addSuffix: true })}
+    </span>
+  );
+}
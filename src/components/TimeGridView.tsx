@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { CalendarEvent } from "@/app/hooks/useCalendarEvents";
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+import {
+  getEventColor,
+  getEventTimes,
+  getEventsForDay,
+  layoutDayEvents,
+} from "@/lib/eventLayout";
+import { format, isToday, setHours, startOfDay } from "date-fns";
+
+// Constants
+const HOUR_HEIGHT = 48; // px
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const SCROLL_TO_HOUR = 8;
+
+interface TimeGridViewProps {
+  days: Date[];
+  events: CalendarEvent[];
+  calendarsById: Map<string, CalendarListEntry>;
+  onEventClick: (event: CalendarEvent) => void;
+}
+
+// Day and week view: one column per day on an hourly grid, with all-day
+// events in a strip above it
+export function TimeGridView({
+  days,
+  events,
+  calendarsById,
+  onEventClick,
+}: TimeGridViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Start scrolled to the working day rather than midnight
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: SCROLL_TO_HOUR * HOUR_HEIGHT });
+  }, []);
+
+  const allDayEvents = days.map((day) =>
+    getEventsForDay(events, day).filter((event) => getEventTimes(event)?.allDay)
+  );
+  const hasAllDayEvents = allDayEvents.some((dayEvents) => dayEvents.length);
+
+  const gridColumns = {
+    gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))`,
+  };
+
+  return (
+    <div className="overflow-hidden rounded-md border border-gray-200">
+      {/* Day headers */}
+      <div className="grid border-b border-gray-200" style={gridColumns}>
+        <div />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className="border-l border-gray-200 py-2 text-center"
+          >
+            <div className="text-xs uppercase text-gray-500">
+              {format(day, "EEE")}
+            </div>
+            <div
+              className={`mx-auto flex h-7 w-7 items-center justify-center rounded-full text-sm ${
+                isToday(day) ? "bg-zinc-900 text-white" : "text-gray-900"
+              }`}
+            >
+              {format(day, "d")}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* All-day strip */}
+      {hasAllDayEvents && (
+        <div className="grid border-b border-gray-200" style={gridColumns}>
+          <div className="px-1 py-1 text-right text-[10px] text-gray-500">
+            all-day
+          </div>
+          {allDayEvents.map((dayEvents, index) => (
+            <div
+              key={days[index].toISOString()}
+              className="space-y-0.5 border-l border-gray-200 p-0.5"
+            >
+              {dayEvents.map((event) => (
+                <button
+                  key={`${event.calendarId}:${event.id}`}
+                  type="button"
+                  onClick={() => onEventClick(event)}
+                  className="block w-full truncate rounded px-1 text-left text-xs text-white"
+                  style={{
+                    backgroundColor: getEventColor(event, calendarsById),
+                  }}
+                >
+                  {event.summary || "Untitled Event"}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Hour grid */}
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        <div
+          className="relative grid"
+          style={{ ...gridColumns, height: HOUR_HEIGHT * 24 }}
+        >
+          <div>
+            {HOURS.map((hour) => (
+              <div
+                key={hour}
+                className="pr-1 text-right text-[10px] text-gray-500"
+                style={{ height: HOUR_HEIGHT }}
+              >
+                {hour > 0 &&
+                  format(setHours(startOfDay(new Date()), hour), "h a")}
+              </div>
+            ))}
+          </div>
+
+          {days.map((day) => (
+            <div
+              key={day.toISOString()}
+              className="relative border-l border-gray-200"
+            >
+              {HOURS.map((hour) => (
+                <div
+                  key={hour}
+                  className="border-b border-gray-100"
+                  style={{ height: HOUR_HEIGHT }}
+                />
+              ))}
+
+              {layoutDayEvents(events, day).map(
+                ({ event, top, height, left, width }) => (
+                  <button
+                    key={`${event.calendarId}:${event.id}`}
+                    type="button"
+                    onClick={() => onEventClick(event)}
+                    className="absolute overflow-hidden rounded border border-white px-1 text-left text-xs text-white"
+                    style={{
+                      top: `${top}%`,
+                      height: `${height}%`,
+                      left: `${left}%`,
+                      width: `${width}%`,
+                      backgroundColor: getEventColor(event, calendarsById),
+                    }}
+                  >
+                    <div className="truncate font-medium">
+                      {event.summary || "Untitled Event"}
+                    </div>
+                    {event.start?.dateTime && (
+                      <div className="truncate opacity-90">
+                        {format(new Date(event.start.dateTime), "h:mm a")}
+                      </div>
+                    )}
+                  </button>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getTimeZoneAbbreviation, listTimeZones } from "@/lib/timeZones";
+import { Globe } from "lucide-react";
+
+interface TimeZoneSelectorProps {
+  localTimeZone: string;
+  timeZone: string | null;
+  secondaryTimeZone: string | null;
+  onTimeZoneChange: (timeZone: string | null) => void;
+  onSecondaryTimeZoneChange: (timeZone: string | null) => void;
+  className?: string;
+}
+
+const selectClassName =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-zinc-500 focus:outline-none";
+
+export function TimeZoneSelector({
+  localTimeZone,
+  timeZone,
+  secondaryTimeZone,
+  onTimeZoneChange,
+  onSecondaryTimeZoneChange,
+  className,
+}: TimeZoneSelectorProps) {
+  const timeZones = useMemo(() => listTimeZones(), []);
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Globe className="h-5 w-5" />
+            Time Zones
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <label className="block space-y-1 text-sm text-gray-700">
+            <span>Show times in</span>
+            <select
+              className={selectClassName}
+              value={timeZone ?? ""}
+              onChange={(e) => onTimeZoneChange(e.target.value || null)}
+            >
+              <option value="">
+                Local time ({localTimeZone},{" "}
+                {getTimeZoneAbbreviation(localTimeZone)})
+              </option>
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block space-y-1 text-sm text-gray-700">
+            <span>Also show</span>
+            <select
+              className={selectClassName}
+              value={secondaryTimeZone ?? ""}
+              onChange={(e) =>
+                onSecondaryTimeZoneChange(e.target.value || null)
+              }
+            >
+              <option value="">None</option>
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <p className="text-xs text-gray-500">
+            Date filters always follow your local time zone.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
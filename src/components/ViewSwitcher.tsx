@@ -0,0 +1,103 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { CalendarView } from "@/lib/eventLayout";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { format } from "date-fns";
+
+// Constants
+const VIEW_LABELS: Record<CalendarView, string> = {
+  list: "List",
+  agenda: "Agenda",
+  day: "Day",
+  week: "Week",
+  month: "Month",
+};
+
+// Views whose content is a fixed span of days around the anchor date
+const RANGE_VIEWS: CalendarView[] = ["day", "week", "month"];
+
+interface ViewSwitcherProps {
+  view: CalendarView;
+  anchorDate: Date;
+  onViewChange: (view: CalendarView) => void;
+  onNavigate: (direction: 1 | -1) => void;
+  onToday: () => void;
+}
+
+function formatTitle(view: CalendarView, anchorDate: Date): string {
+  switch (view) {
+    case "day":
+      return format(anchorDate, "EEEE, MMMM d, yyyy");
+    case "week":
+      return `Week of ${format(anchorDate, "MMM d, yyyy")}`;
+    default:
+      return format(anchorDate, "MMMM yyyy");
+  }
+}
+
+export function ViewSwitcher({
+  view,
+  anchorDate,
+  onViewChange,
+  onNavigate,
+  onToday,
+}: ViewSwitcherProps) {
+  const showNavigation = RANGE_VIEWS.includes(view);
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div
+        role="tablist"
+        aria-label="Calendar view"
+        className="inline-flex rounded-md border border-gray-200 bg-gray-50 p-0.5"
+      >
+        {(Object.keys(VIEW_LABELS) as CalendarView[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="tab"
+            aria-selected={view === option}
+            onClick={() => onViewChange(option)}
+            className={`rounded px-3 py-1 text-sm ${
+              view === option
+                ? "bg-white font-medium text-gray-900 shadow-sm"
+                : "text-gray-600 hover:text-gray-900"
+            }`}
+          >
+            {VIEW_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {showNavigation && (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={onToday}>
+            Today
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onNavigate(-1)}
+            className="h-8 w-8 p-0"
+            aria-label="Previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onNavigate(1)}
+            className="h-8 w-8 p-0"
+            aria-label="Next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium text-gray-900">
+            {formatTitle(view, anchorDate)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { ApiErrorCode, ErrorResponse } from "@/app/api/utils";
+
+// Constants
+const MAX_RETRIES = 3;
+const MAX_RETRY_DELAY = 30 * 1000;
+
+// Codes worth retrying: the request itself was fine, Google was not
+const RETRYABLE_CODES: ApiErrorCode[] = [
+  "rate_limited",
+  "upstream_unavailable",
+  "internal_error",
+];
+
+// Types
+export interface ApiError extends Error {
+  status: number;
+  code?: ApiErrorCode;
+  // Milliseconds the server asked us to wait, from its Retry-After header
+  retryAfter?: number;
+}
+
+// Helper functions
+export async function toApiError(
+  response: Response,
+  fallback: string
+): Promise<ApiError> {
+  const body: Partial<ErrorResponse> = await response.json().catch(() => ({}));
+
+  const retryAfter = Number(response.headers.get("Retry-After"));
+
+  return Object.assign(new Error(body.message || body.error || fallback), {
+    status: response.status,
+    code: body.code,
+    retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined,
+  });
+}
+
+export function isApiError(
+  error: unknown,
+  code?: ApiErrorCode
+): error is ApiError {
+  return (
+    error instanceof Error &&
+    typeof (error as ApiError).status === "number" &&
+    (!code || (error as ApiError).code === code)
+  );
+}
+
+// React Query retry policy: retry transient failures, never client errors.
+// A failed fetch (no response at all) counts as transient.
+export function shouldRetry(failureCount: number, error: unknown): boolean {
+  if (failureCount >= MAX_RETRIES) return false;
+  if (!isApiError(error)) return true;
+  if (!error.code) return error.status >= 500;
+  return RETRYABLE_CODES.includes(error.code);
+}
+
+// React Query retry delay: honor Retry-After, otherwise back off exponentially
+export function getRetryDelay(failureCount: number, error: unknown): number {
+  if (isApiError(error) && error.retryAfter) return error.retryAfter;
+  return Math.min(1000 * 2 ** failureCount, MAX_RETRY_DELAY);
+}
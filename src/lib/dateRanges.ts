@@ -0,0 +1,111 @@
+import {
+  addDays,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+// Constants
+export const DATE_PRESETS = [
+  "today",
+  "this-week",
+  "next-7-days",
+  "this-month",
+] as const;
+export const DEFAULT_DATE_PRESET: DatePreset = "today";
+export const DATE_PARAM_FORMAT = "yyyy-MM-dd";
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  today: "Today",
+  "this-week": "This week",
+  "next-7-days": "Next 7 days",
+  "this-month": "This month",
+};
+
+// Types
+export type DatePreset = (typeof DATE_PRESETS)[number];
+
+// A preset is re-evaluated against the current date; "custom" carries its own
+// dates and "all" means no date filter at all
+export interface DateSelection {
+  preset: DatePreset | "custom" | "all";
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Helper functions
+export function isDatePreset(value: string | null): value is DatePreset {
+  return DATE_PRESETS.includes(value as DatePreset);
+}
+
+export function getPresetRange(
+  preset: DatePreset,
+  now: Date = new Date()
+): { startDate: Date; endDate: Date } {
+  switch (preset) {
+    case "this-week":
+      return { startDate: startOfWeek(now), endDate: endOfWeek(now) };
+    case "next-7-days":
+      return { startDate: startOfDay(now), endDate: endOfDay(addDays(now, 6)) };
+    case "this-month":
+      return { startDate: startOfMonth(now), endDate: endOfMonth(now) };
+    default:
+      return { startDate: startOfDay(now), endDate: endOfDay(now) };
+  }
+}
+
+function parseDateParam(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const parsed = parseISO(value);
+  return isValid(parsed) ? parsed : undefined;
+}
+
+// Read the selection from `?range=this-week` or `?from=...&to=...`
+export function parseDateSelection(
+  params: Pick<URLSearchParams, "get">
+): DateSelection {
+  const from = parseDateParam(params.get("from"));
+  const to = parseDateParam(params.get("to"));
+
+  if (from) {
+    return {
+      preset: "custom",
+      startDate: startOfDay(from),
+      endDate: endOfDay(to && to >= from ? to : from),
+    };
+  }
+
+  const range = params.get("range");
+  if (range === "all") return { preset: "all" };
+
+  const preset = isDatePreset(range) ? range : DEFAULT_DATE_PRESET;
+  return { preset, ...getPresetRange(preset) };
+}
+
+// Query parameters describing a selection; null removes a parameter
+export function toDateParams(
+  selection: DateSelection
+): Record<string, string | null> {
+  if (selection.preset === "custom" && selection.startDate) {
+    return {
+      range: null,
+      from: format(selection.startDate, DATE_PARAM_FORMAT),
+      to: format(selection.endDate ?? selection.startDate, DATE_PARAM_FORMAT),
+    };
+  }
+
+  return {
+    range:
+      selection.preset === DEFAULT_DATE_PRESET || selection.preset === "custom"
+        ? null
+        : selection.preset,
+    from: null,
+    to: null,
+  };
+}
@@ -0,0 +1,247 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  areIntervalsOverlapping,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  isSameDay,
+  max,
+  min,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { CalendarEvent } from "@/app/hooks/useCalendarEvents";
+import { CalendarListEntry } from "@/app/hooks/useCalendars";
+
+// Constants
+export const CALENDAR_VIEWS = [
+  "list",
+  "agenda",
+  "day",
+  "week",
+  "month",
+] as const;
+const MINUTES_PER_DAY = 24 * 60;
+const MIN_EVENT_MINUTES = 15; // Keep very short events clickable
+const DEFAULT_EVENT_COLOR = "#52525b";
+
+// Types
+export type CalendarView = (typeof CALENDAR_VIEWS)[number];
+
+export interface EventTimes {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+// Position of a timed event within one day column, in percentages
+export interface PositionedEvent {
+  event: CalendarEvent;
+  top: number;
+  height: number;
+  left: number;
+  width: number;
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// Helper functions
+export function isCalendarView(value: string | null): value is CalendarView {
+  return CALENDAR_VIEWS.includes(value as CalendarView);
+}
+
+export function getEventColor(
+  event: CalendarEvent,
+  calendarsById: Map<string, CalendarListEntry>
+): string {
+  return (
+    calendarsById.get(event.calendarId ?? "")?.backgroundColor ||
+    DEFAULT_EVENT_COLOR
+  );
+}
+
+// Resolve an event's start and end. All-day events use local midnights and
+// Google's exclusive end date.
+export function getEventTimes(event: CalendarEvent): EventTimes | null {
+  if (event.start?.date) {
+    const start = startOfDay(parseISO(event.start.date));
+    const end = event.end?.date
+      ? startOfDay(parseISO(event.end.date))
+      : addDays(start, 1);
+    return { start, end, allDay: true };
+  }
+
+  if (event.start?.dateTime) {
+    const start = parseISO(event.start.dateTime);
+    const end = event.end?.dateTime ? parseISO(event.end.dateTime) : start;
+    return { start, end, allDay: false };
+  }
+
+  return null;
+}
+
+// Whether any part of the event falls on the given day
+export function occursOnDay(times: EventTimes, day: Date): boolean {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  if (times.end.getTime() === times.start.getTime()) {
+    return isSameDay(times.start, day);
+  }
+  return areIntervalsOverlapping(
+    { start: times.start, end: times.end },
+    { start: dayStart, end: dayEnd }
+  );
+}
+
+export function getEventsForDay(
+  events: CalendarEvent[],
+  day: Date
+): CalendarEvent[] {
+  return events.filter((event) => {
+    const times = getEventTimes(event);
+    return !!times && occursOnDay(times, day);
+  });
+}
+
+// Group events under each day they touch, skipping empty days
+export function groupEventsByDay(
+  events: CalendarEvent[]
+): { day: Date; events: CalendarEvent[] }[] {
+  const groups = new Map<number, { day: Date; events: CalendarEvent[] }>();
+
+  events.forEach((event) => {
+    const times = getEventTimes(event);
+    if (!times) return;
+
+    // Exclusive all-day ends would otherwise add the following day
+    const lastDay = times.allDay ? addDays(times.end, -1) : times.end;
+    const days = eachDayOfInterval({
+      start: times.start,
+      end: max([times.start, lastDay]),
+    });
+
+    days.forEach((day) => {
+      const key = startOfDay(day).getTime();
+      const group = groups.get(key) ?? { day: startOfDay(day), events: [] };
+      group.events.push(event);
+      groups.set(key, group);
+    });
+  });
+
+  return [...groups.values()].sort((a, b) => a.day.getTime() - b.day.getTime());
+}
+
+// Lay out one day's timed events: overlapping events are split into columns
+// and share the width of their cluster
+export function layoutDayEvents(
+  events: CalendarEvent[],
+  day: Date
+): PositionedEvent[] {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+
+  const items = events
+    .map((event) => ({ event, times: getEventTimes(event) }))
+    .filter(
+      (item): item is { event: CalendarEvent; times: EventTimes } =>
+        !!item.times && !item.times.allDay && occursOnDay(item.times, day)
+    )
+    .map(({ event, times }) => {
+      const start = max([times.start, dayStart]);
+      const end = min([times.end, dayEnd]);
+      const startMinutes = differenceInMinutes(start, dayStart);
+      const endMinutes = Math.max(
+        differenceInMinutes(end, dayStart),
+        startMinutes + MIN_EVENT_MINUTES
+      );
+      return { event, startMinutes, endMinutes, column: 0 };
+    })
+    .sort(
+      (a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes
+    );
+
+  const positioned: PositionedEvent[] = [];
+  let cluster: typeof items = [];
+  let clusterEnd = -1;
+
+  const flushCluster = () => {
+    const columns = Math.max(...cluster.map((item) => item.column)) + 1;
+    cluster.forEach((item) => {
+      positioned.push({
+        event: item.event,
+        top: (item.startMinutes / MINUTES_PER_DAY) * 100,
+        height: ((item.endMinutes - item.startMinutes) / MINUTES_PER_DAY) * 100,
+        left: (item.column / columns) * 100,
+        width: 100 / columns,
+      });
+    });
+    cluster = [];
+  };
+
+  items.forEach((item) => {
+    if (cluster.length && item.startMinutes >= clusterEnd) flushCluster();
+
+    // Reuse the first column whose last event has already ended
+    const columnEnds: number[] = [];
+    cluster.forEach((placed) => {
+      columnEnds[placed.column] = Math.max(
+        columnEnds[placed.column] ?? 0,
+        placed.endMinutes
+      );
+    });
+    const freeColumn = columnEnds.findIndex((end) => end <= item.startMinutes);
+    item.column = freeColumn === -1 ? columnEnds.length : freeColumn;
+
+    cluster.push(item);
+    clusterEnd =
+      cluster.length === 1
+        ? item.endMinutes
+        : Math.max(clusterEnd, item.endMinutes);
+  });
+  if (cluster.length) flushCluster();
+
+  return positioned;
+}
+
+// The span of days a view shows around its anchor date
+export function getViewRange(view: CalendarView, anchor: Date): DateRange {
+  switch (view) {
+    case "day":
+      return { start: startOfDay(anchor), end: endOfDay(anchor) };
+    case "week":
+      return { start: startOfWeek(anchor), end: endOfWeek(anchor) };
+    case "month":
+      // Include the leading and trailing days shown in the month grid
+      return {
+        start: startOfWeek(startOfMonth(anchor)),
+        end: endOfWeek(endOfMonth(anchor)),
+      };
+    default:
+      return { start: startOfDay(anchor), end: endOfDay(anchor) };
+  }
+}
+
+// Move the anchor date by one view-sized step
+export function shiftAnchor(
+  view: CalendarView,
+  anchor: Date,
+  direction: 1 | -1
+): Date {
+  switch (view) {
+    case "week":
+      return addWeeks(anchor, direction);
+    case "month":
+      return addMonths(anchor, direction);
+    default:
+      return addDays(anchor, direction);
+  }
+}
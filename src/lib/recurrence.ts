@@ -0,0 +1,263 @@
+import { formatInTimeZone } from "./timeZones";
+
+// Recurrence rule (RFC 5545 RRULE) helpers shared by the API routes and the
+// client: summaries for display, and the rule edits behind series changes
+
+// Constants
+// Which occurrences of a recurring series a change applies to
+export const RECURRENCE_SCOPES = ["this", "following", "all"] as const;
+
+const WEEKDAYS: Record<string, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+const WORKWEEK = ["MO", "TU", "WE", "TH", "FR"];
+const ORDINALS: Record<string, string> = {
+  "1": "first",
+  "2": "second",
+  "3": "third",
+  "4": "fourth",
+  "5": "fifth",
+  "-1": "last",
+};
+const UNITS: Record<string, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+const BYDAY_PATTERN = /^([+-]?\d)?([A-Z]{2})$/;
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/;
+
+// Types
+export type RecurrenceScope = (typeof RECURRENCE_SCOPES)[number];
+
+export type RecurrenceRule = Record<string, string>;
+
+interface SeriesMember {
+  id: string;
+  calendarId?: string;
+  recurringEventId?: string;
+}
+
+interface EventTime {
+  dateTime?: string | null;
+  date?: string | null;
+}
+
+// Helper functions
+export function isRecurrenceScope(value: unknown): value is RecurrenceScope {
+  return RECURRENCE_SCOPES.includes(value as RecurrenceScope);
+}
+
+// The RRULE parts of a Google recurrence list, e.g. { FREQ: "WEEKLY" }
+export function parseRecurrenceRule(
+  recurrence?: string[] | null
+): RecurrenceRule | null {
+  const line = recurrence?.find((entry) => entry.startsWith("RRULE:"));
+  if (!line) return null;
+
+  const rule: RecurrenceRule = {};
+  for (const part of line.slice("RRULE:".length).split(";")) {
+    const [key, value] = part.split("=");
+    if (key && value) rule[key.toUpperCase()] = value;
+  }
+  return rule.FREQ ? rule : null;
+}
+
+function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return `RRULE:${Object.entries(rule)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(";")}`;
+}
+
+// Replace parts of the RRULE; null removes a part. Other lines (EXDATE,
+// RDATE) are kept as they are.
+export function updateRecurrenceRule(
+  recurrence: string[],
+  changes: Record<string, string | null>
+): string[] {
+  return recurrence.map((line) => {
+    const rule = line.startsWith("RRULE:") ? parseRecurrenceRule([line]) : null;
+    if (!rule) return line;
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete rule[key];
+      } else {
+        rule[key] = value;
+      }
+    }
+    return formatRecurrenceRule(rule);
+  });
+}
+
+// UNTIL value that ends a series just before the given occurrence: the day
+// before for all-day series, one second before in UTC otherwise
+export function getUntilBefore(occurrence: EventTime): string | null {
+  if (occurrence.dateTime) {
+    const until = Date.parse(occurrence.dateTime) - 1000;
+    if (Number.isNaN(until)) return null;
+    return new Date(until)
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+  if (occurrence.date) {
+    const day = new Date(`${occurrence.date}T00:00:00Z`);
+    if (Number.isNaN(day.getTime())) return null;
+    day.setUTCDate(day.getUTCDate() - 1);
+    return day.toISOString().slice(0, 10).replace(/-/g, "");
+  }
+  return null;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function describeByDay(value: string): string {
+  return joinList(
+    value.split(",").map((entry) => {
+      const match = BYDAY_PATTERN.exec(entry);
+      if (!match) return entry;
+      const [, ordinal, day] = match;
+      const name = WEEKDAYS[day] ?? day;
+      return ordinal
+        ? `the ${ORDINALS[String(Number(ordinal))] ?? ordinal} ${name}`
+        : name;
+    })
+  );
+}
+
+function parseUntil(value: string): Date | null {
+  const match = UNTIL_PATTERN.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second)
+    )
+  );
+}
+
+// Human-readable summary of a series, e.g. "Every weekday at 9:30 AM" or
+// "Every 2 weeks on Monday and Thursday, 10 times". Returns null when the
+// event does not repeat.
+export function describeRecurrence(
+  recurrence: string[] | null | undefined,
+  start: EventTime | undefined,
+  timeZone: string
+): string | null {
+  const rule = parseRecurrenceRule(recurrence);
+  if (!rule) return null;
+
+  const unit = UNITS[rule.FREQ];
+  if (!unit) return "Repeats on a custom schedule";
+
+  const interval = Number(rule.INTERVAL) || 1;
+  let startDate: Date | null = null;
+  if (start?.dateTime) {
+    startDate = new Date(start.dateTime);
+  } else if (start?.date) {
+    startDate = new Date(`${start.date}T00:00:00Z`);
+  }
+  // All-day dates are floating, so read them in UTC where they were parsed
+  const dateZone = start?.dateTime ? timeZone : "UTC";
+
+  let text: string;
+  if (
+    rule.FREQ === "WEEKLY" &&
+    interval === 1 &&
+    rule.BYDAY &&
+    rule.BYDAY.split(",").sort().join() === [...WORKWEEK].sort().join()
+  ) {
+    text = "Every weekday";
+  } else {
+    text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+    if (rule.FREQ === "WEEKLY") {
+      const days = rule.BYDAY
+        ? describeByDay(rule.BYDAY)
+        : startDate &&
+          formatInTimeZone(startDate, dateZone, { weekday: "long" });
+      if (days) text += ` on ${days}`;
+    } else if (rule.FREQ === "MONTHLY") {
+      if (rule.BYDAY) {
+        text += ` on ${describeByDay(rule.BYDAY)}`;
+      } else {
+        const day =
+          rule.BYMONTHDAY ??
+          (startDate &&
+            formatInTimeZone(startDate, dateZone, { day: "numeric" }));
+        if (day) text += ` on day ${day}`;
+      }
+    } else if (rule.FREQ === "YEARLY" && startDate) {
+      text += ` on ${formatInTimeZone(startDate, dateZone, {
+        month: "long",
+        day: "numeric",
+      })}`;
+    }
+  }
+
+  if (start?.dateTime && startDate) {
+    text += ` at ${formatInTimeZone(startDate, timeZone, {
+      hour: "numeric",
+      minute: "2-digit",
+    })}`;
+  }
+
+  if (rule.COUNT) {
+    text += `, ${rule.COUNT} ${rule.COUNT === "1" ? "time" : "times"}`;
+  } else if (rule.UNTIL) {
+    const until = parseUntil(rule.UNTIL);
+    if (until) {
+      text += `, until ${formatInTimeZone(
+        until,
+        rule.UNTIL.includes("T") ? timeZone : "UTC",
+        { month: "short", day: "numeric", year: "numeric" }
+      )}`;
+    }
+  }
+
+  return text;
+}
+
+// Collapse occurrences of the same series into the first one listed, keeping
+// how many were folded into it. Events keep their relative order.
+export function groupEventsBySeries<T extends SeriesMember>(
+  events: T[]
+): { event: T; occurrences: number }[] {
+  const groups: { event: T; occurrences: number }[] = [];
+  const bySeries = new Map<string, { event: T; occurrences: number }>();
+
+  for (const event of events) {
+    if (!event.recurringEventId) {
+      groups.push({ event, occurrences: 1 });
+      continue;
+    }
+
+    const key = `${event.calendarId}:${event.recurringEventId}`;
+    const group = bySeries.get(key);
+    if (group) {
+      group.occurrences++;
+    } else {
+      const created = { event, occurrences: 1 };
+      bySeries.set(key, created);
+      groups.push(created);
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,43 @@
+// Invitation responses, shared by the RSVP route, the needs-response filter
+// and the client. Works on Google's event schema and the API's event shape.
+
+// Constants
+// Responses a guest can send; "needsAction" is only ever Google's default
+export const RSVP_RESPONSES = ["accepted", "tentative", "declined"] as const;
+export const MAX_RSVP_COMMENT_LENGTH = 500;
+
+// Types
+export type RsvpResponse = (typeof RSVP_RESPONSES)[number];
+
+interface Guest {
+  self?: boolean | null;
+  organizer?: boolean | null;
+  responseStatus?: string | null;
+}
+
+interface InvitedEvent<T extends Guest> {
+  attendees?: T[] | null;
+}
+
+// Helper functions
+export function isRsvpResponse(value: unknown): value is RsvpResponse {
+  return RSVP_RESPONSES.includes(value as RsvpResponse);
+}
+
+// The signed-in user's entry in the guest list, if they are invited
+export function getSelfAttendee<T extends Guest>(
+  event: InvitedEvent<T>
+): T | undefined {
+  return event.attendees?.find((attendee) => attendee.self);
+}
+
+// Whether the signed-in user was invited and hasn't answered yet. Organizers
+// are listed as guests of their own events but never need to respond.
+export function needsResponse(event: InvitedEvent<Guest>): boolean {
+  const self = getSelfAttendee(event);
+  return (
+    !!self &&
+    !self.organizer &&
+    (self.responseStatus ?? "needsAction") === "needsAction"
+  );
+}
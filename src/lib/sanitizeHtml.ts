@@ -0,0 +1,159 @@
+// Event descriptions written in Google Calendar are HTML. These helpers keep
+// the harmless formatting and drop everything else, without needing a DOM,
+// so they work the same on the server and in the browser.
+
+// Constants
+const ALLOWED_TAGS = new Set([
+  "a",
+  "b",
+  "strong",
+  "i",
+  "em",
+  "u",
+  "s",
+  "br",
+  "p",
+  "div",
+  "span",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "code",
+  "pre",
+]);
+const VOID_TAGS = new Set(["br"]);
+// Tags whose content is dropped along with the tag
+const DROPPED_CONTENT_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "template",
+  "noscript",
+  "textarea",
+  "title",
+  "head",
+  "svg",
+  "math",
+]);
+const BLOCK_END_TAGS = new Set(["p", "div", "li", "blockquote", "pre"]);
+const SAFE_URL_PATTERN = /^(https?:|mailto:|tel:)/i;
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>|<|[^<]+/g;
+const HREF_PATTERN = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// Helper functions
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === "#") {
+        const code =
+          name[1].toLowerCase() === "x"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : entity;
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Link targets are decoded first, so "java&#115;cript:" can't slip through
+function getSafeHref(attributes: string): string | null {
+  const match = HREF_PATTERN.exec(attributes);
+  if (!match) return null;
+
+  const href = decodeEntities(match[1] ?? match[2] ?? match[3] ?? "").trim();
+  return SAFE_URL_PATTERN.test(href) ? href : null;
+}
+
+// Keep a small set of formatting tags and http(s), mailto and tel links.
+// All other tags are removed (with their content for scripts and the like),
+// and every attribute except a link's href is dropped.
+export function sanitizeHtml(html: string): string {
+  let output = "";
+  let droppedTag: string | null = null;
+
+  for (const [token, closing, rawName, attributes] of html.matchAll(
+    TOKEN_PATTERN
+  )) {
+    const name = rawName?.toLowerCase();
+
+    if (droppedTag) {
+      if (closing && name === droppedTag) droppedTag = null;
+      continue;
+    }
+    if (token.startsWith("<!--")) continue;
+    if (!name) {
+      // Text between tags, or a lone "<"
+      output += escapeHtml(decodeEntities(token));
+      continue;
+    }
+    if (!closing && DROPPED_CONTENT_TAGS.has(name)) {
+      if (!/\/\s*$/.test(attributes)) droppedTag = name;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(name)) continue;
+
+    if (closing) {
+      if (!VOID_TAGS.has(name)) output += `</${name}>`;
+    } else if (name === "a") {
+      const href = getSafeHref(attributes);
+      output += href
+        ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">`
+        : "<a>";
+    } else {
+      output += `<${name}>`;
+    }
+  }
+
+  return output;
+}
+
+// Plain text for previews: line breaks for breaks and block ends, no tags
+export function htmlToText(html: string): string {
+  let output = "";
+  let droppedTag: string | null = null;
+
+  for (const [token, closing, rawName, attributes] of html.matchAll(
+    TOKEN_PATTERN
+  )) {
+    const name = rawName?.toLowerCase();
+
+    if (droppedTag) {
+      if (closing && name === droppedTag) droppedTag = null;
+      continue;
+    }
+    if (token.startsWith("<!--")) continue;
+    if (!name) {
+      output += decodeEntities(token);
+    } else if (!closing && DROPPED_CONTENT_TAGS.has(name)) {
+      if (!/\/\s*$/.test(attributes)) droppedTag = name;
+    } else if (name === "br" || (closing && BLOCK_END_TAGS.has(name))) {
+      output += "\n";
+    }
+  }
+
+  return output.replace(/\n{3,}/g, "\n\n").trim();
+}
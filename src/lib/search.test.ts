@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { findSearchMatches } from "./search";
+
+const highlight = (text: string, terms: string[]) =>
+  findSearchMatches(text, terms).map(({ start, end }) =>
+    text.slice(start, end)
+  );
+
+describe("findSearchMatches", () => {
+  it("finds every occurrence regardless of case", () => {
+    expect(highlight("Standup, then STANDUP notes", ["standup"])).toEqual([
+      "Standup",
+      "STANDUP",
+    ]);
+  });
+
+  it("merges overlapping matches", () => {
+    expect(findSearchMatches("roadmap review", ["roadmap", "map rev"])).toEqual(
+      [{ start: 0, end: 11 }]
+    );
+  });
+
+  it("keeps offsets aligned after characters that grow when lowercased", () => {
+    // "İ" lowercases to two code units
+    expect(highlight("İİ Istanbul meeting", ["meeting"])).toEqual(["meeting"]);
+    expect(highlight("İzmir office", ["i̇zmir"])).toEqual(["İzmir"]);
+  });
+
+  it("handles characters outside the basic multilingual plane", () => {
+    expect(highlight("🎉 Launch party", ["launch"])).toEqual(["Launch"]);
+  });
+});
@@ -0,0 +1,187 @@
+import { htmlToText } from "./sanitizeHtml";
+
+// Keyword search over events, shared by the events route and the client.
+// A query is a list of words or "quoted phrases", each of which must appear
+// somewhere in the event, plus field filters such as location:berlin,
+// attendee:ana@example.com or calendar:"Team events".
+
+// Constants
+export const SEARCH_FIELDS = ["location", "attendee", "calendar"] as const;
+export const MAX_SEARCH_LENGTH = 200;
+
+const TOKEN_PATTERN = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// Types
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export interface SearchFilter {
+  field: SearchField;
+  value: string;
+}
+
+export interface SearchQuery {
+  // Lowercased words and phrases that must all match
+  terms: string[];
+  filters: SearchFilter[];
+}
+
+interface SearchPerson {
+  email?: string | null;
+  displayName?: string | null;
+}
+
+interface SearchableEvent {
+  summary?: string | null;
+  description?: string | null;
+  location?: string | null;
+  organizer?: SearchPerson | null;
+  attendees?: SearchPerson[] | null;
+}
+
+// Lowercased text of an event's searchable fields
+export interface SearchDocument {
+  text: string;
+  location: string;
+  attendees: string;
+}
+
+// Helper functions
+function isSearchField(value: string): value is SearchField {
+  return SEARCH_FIELDS.includes(value as SearchField);
+}
+
+function describePeople(people: (SearchPerson | null | undefined)[]): string {
+  return people
+    .flatMap((person) => [person?.displayName, person?.email])
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+}
+
+// Split a query into terms and field filters. Prefixes that aren't a known
+// field, like "re:" in a title, are searched for as they are.
+export function parseSearchQuery(q: string): SearchQuery {
+  const query: SearchQuery = { terms: [], filters: [] };
+
+  for (const [token, prefix, phrase, word] of q.matchAll(TOKEN_PATTERN)) {
+    const value = (phrase ?? word ?? "").trim().toLowerCase();
+    const field = prefix?.toLowerCase();
+
+    if (field && isSearchField(field)) {
+      if (value) query.filters.push({ field, value });
+    } else if (field) {
+      query.terms.push(token.replace(/"/g, "").toLowerCase());
+    } else if (value) {
+      query.terms.push(value);
+    }
+  }
+
+  return query;
+}
+
+export function isEmptySearch(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.filters.length === 0;
+}
+
+export function buildSearchDocument(event: SearchableEvent): SearchDocument {
+  const location = (event.location || "").toLowerCase();
+  const attendees = describePeople([
+    event.organizer,
+    ...(event.attendees || []),
+  ]);
+  const text = [
+    event.summary,
+    event.description && htmlToText(event.description),
+    event.location,
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+
+  return { text: `${text}\n${attendees}`, location, attendees };
+}
+
+// Whether every term appears somewhere in the event
+export function matchesSearchTerms(
+  document: SearchDocument,
+  terms: string[]
+): boolean {
+  return terms.every((term) => document.text.includes(term));
+}
+
+// Whether the event passes the location and attendee filters; calendar
+// filters need the calendar's name and are checked by the caller
+export function matchesSearchFilters(
+  document: SearchDocument,
+  filters: SearchFilter[]
+): boolean {
+  return filters.every(({ field, value }) => {
+    if (field === "location") return document.location.includes(value);
+    if (field === "attendee") return document.attendees.includes(value);
+    return true;
+  });
+}
+
+// Lowercase text one character at a time, recording where each lowercased
+// unit came from. Some characters change length when lowercased ("İ" becomes
+// two units), so offsets into the lowercased text cannot be used on the
+// original directly.
+function lowercaseWithOffsets(text: string): {
+  lower: string;
+  starts: number[];
+  ends: number[];
+} {
+  let lower = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  for (let index = 0; index < text.length; ) {
+    const char = String.fromCodePoint(text.codePointAt(index)!);
+    const lowered = char.toLowerCase();
+    for (let unit = 0; unit < lowered.length; unit++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    lower += lowered;
+    index += char.length;
+  }
+
+  return { lower, starts, ends };
+}
+
+// Ranges of text covered by any of the terms, merged and in order, for
+// highlighting matches
+export function findSearchMatches(
+  text: string,
+  terms: string[]
+): { start: number; end: number }[] {
+  const { lower, starts, ends } = lowercaseWithOffsets(text);
+  const ranges: { start: number; end: number }[] = [];
+
+  for (const term of terms) {
+    if (!term) continue;
+    for (
+      let index = lower.indexOf(term);
+      index !== -1;
+      index = lower.indexOf(term, index + term.length)
+    ) {
+      // Map back onto the original text, widening to whole characters
+      ranges.push({
+        start: starts[index],
+        end: ends[index + term.length - 1],
+      });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
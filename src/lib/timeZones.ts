@@ -0,0 +1,136 @@
+// Time zone helpers built on Intl, shared by the API routes and the client
+
+// Constants
+export const DEFAULT_TIME_ZONE = "UTC";
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Formatters are costly to create, so keep one per zone
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Helper functions
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+export function isCalendarDay(value: string): boolean {
+  return DAY_PATTERN.test(value);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function listTimeZones(): string[] {
+  return typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [DEFAULT_TIME_ZONE];
+}
+
+function getOffsetFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant
+export function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getOffsetFormatter(timeZone).formatToParts(
+    instant
+  )) {
+    parts[type] = Number(value);
+  }
+
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// Instant at which a calendar day ("2025-07-14") starts in the zone, optionally
+// shifted by whole days. Returns NaN for malformed days.
+export function getZonedDayStart(
+  day: string,
+  timeZone: string,
+  dayOffset = 0
+): number {
+  const match = DAY_PATTERN.exec(day);
+  if (!match) return NaN;
+
+  const [, year, month, date] = match.map(Number);
+  return getZonedInstant(Date.UTC(year, month - 1, date + dayOffset), timeZone);
+}
+
+// Calendar day ("2025-07-14") the zone is on at an instant, optionally
+// shifted by whole days
+export function getZonedDay(
+  instant: number,
+  timeZone: string,
+  dayOffset = 0
+): string {
+  const wallClock = new Date(instant + getTimeZoneOffset(instant, timeZone));
+  return new Date(
+    Date.UTC(
+      wallClock.getUTCFullYear(),
+      wallClock.getUTCMonth(),
+      wallClock.getUTCDate() + dayOffset
+    )
+  )
+    .toISOString()
+    .slice(0, 10);
+}
+
+// Instant at which the zone's clock shows the given wall-clock time, passed
+// as if it were UTC (e.g. Date.UTC(2025, 6, 14, 9) for 9am on July 14)
+export function getZonedInstant(wallClock: number, timeZone: string): number {
+  // Guess with the offset at the wall-clock time, then correct once in case
+  // a DST change falls between the two
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+}
+
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+): string {
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(
+    date
+  );
+}
+
+// Short label for a zone at a given date, e.g. "PDT" or "GMT+9"
+export function getTimeZoneAbbreviation(
+  timeZone: string,
+  date: Date = new Date()
+): string {
+  const part = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "short",
+  })
+    .formatToParts(date)
+    .find(({ type }) => type === "timeZoneName");
+  return part?.value ?? timeZone;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  getRefreshDelay,
+  isExpiringSoon,
+  MIN_REFRESH_DELAY_MS,
+  REFRESH_AHEAD_MS,
+} from "./tokens";
+
+const NOW = Date.UTC(2025, 0, 1, 12);
+const HOUR = 60 * 60 * 1000;
+
+describe("isExpiringSoon", () => {
+  it("treats an unknown expiry as expired", () => {
+    expect(isExpiringSoon(null, NOW)).toBe(true);
+    expect(isExpiringSoon(undefined, NOW)).toBe(true);
+  });
+
+  it("is true inside the refresh margin", () => {
+    expect(isExpiringSoon(NOW + REFRESH_AHEAD_MS - 1, NOW)).toBe(true);
+    expect(isExpiringSoon(NOW + REFRESH_AHEAD_MS, NOW)).toBe(true);
+  });
+
+  it("is false outside the refresh margin", () => {
+    expect(isExpiringSoon(NOW + REFRESH_AHEAD_MS + 1, NOW)).toBe(false);
+    expect(isExpiringSoon(NOW + HOUR, NOW)).toBe(false);
+  });
+});
+
+describe("getRefreshDelay", () => {
+  const expiry = { expiresAt: NOW + HOUR, serverTime: NOW };
+  const expected = HOUR - REFRESH_AHEAD_MS;
+
+  it("is null when the expiry is unknown", () => {
+    expect(getRefreshDelay({ expiresAt: null, serverTime: NOW })).toBeNull();
+  });
+
+  it("ignores a client clock that is ahead of the server", () => {
+    const clientNow = NOW + 2 * HOUR;
+    expect(getRefreshDelay(expiry, clientNow, clientNow)).toBe(expected);
+  });
+
+  it("ignores a client clock that is behind the server", () => {
+    const clientNow = NOW - 2 * HOUR;
+    expect(getRefreshDelay(expiry, clientNow, clientNow)).toBe(expected);
+  });
+
+  it("subtracts the time elapsed since the expiry was received", () => {
+    const receivedAt = NOW - 2 * HOUR;
+    const elapsed = 10 * 60 * 1000;
+    expect(getRefreshDelay(expiry, receivedAt, receivedAt + elapsed)).toBe(
+      expected - elapsed
+    );
+  });
+
+  it("never schedules sooner than the minimum delay", () => {
+    const expiring = { expiresAt: NOW + REFRESH_AHEAD_MS, serverTime: NOW };
+    expect(getRefreshDelay(expiring, NOW, NOW)).toBe(MIN_REFRESH_DELAY_MS);
+    expect(getRefreshDelay(expiry, NOW, NOW + 2 * HOUR)).toBe(
+      MIN_REFRESH_DELAY_MS
+    );
+  });
+});
@@ -0,0 +1,45 @@
+// Token expiry contract shared by the auth routes and useAuth
+
+// Constants
+export const REFRESH_AHEAD_MS = 5 * 60 * 1000; // Refresh five minutes early
+export const MIN_REFRESH_DELAY_MS = 10 * 1000;
+
+// Types
+// `expiresAt` is an absolute epoch time in milliseconds, as measured by the
+// server's clock. `serverTime` is the server's clock when the response was
+// built, so clients can correct for their own clock skew.
+export interface TokenExpiry {
+  expiresAt: number | null;
+  serverTime: number;
+}
+
+// Helper functions
+export function createTokenExpiry(
+  expiresAt: number | null | undefined
+): TokenExpiry {
+  return { expiresAt: expiresAt ?? null, serverTime: Date.now() };
+}
+
+// Whether a token should be refreshed now. Unknown expiry counts as expired.
+export function isExpiringSoon(
+  expiresAt: number | null | undefined,
+  now: number = Date.now(),
+  margin: number = REFRESH_AHEAD_MS
+): boolean {
+  return !expiresAt || expiresAt - margin <= now;
+}
+
+// Milliseconds until a refresh is due, measured against the server clock so
+// a client whose clock is off still refreshes on time. Null when the expiry
+// is unknown.
+export function getRefreshDelay(
+  expiry: TokenExpiry,
+  receivedAt: number = Date.now(),
+  now: number = Date.now()
+): number | null {
+  if (!expiry.expiresAt) return null;
+
+  const remaining = expiry.expiresAt - expiry.serverTime;
+  const elapsed = now - receivedAt;
+  return Math.max(remaining - REFRESH_AHEAD_MS - elapsed, MIN_REFRESH_DELAY_MS);
+}
@@ -0,0 +1,136 @@
+// Minimal XML reader for WebDAV responses. Elements are matched by local
+// name, since servers pick their own namespace prefixes (d:, D:, cal:, ...);
+// comments, processing instructions and namespace declarations are dropped.
+
+// Constants
+const TOKEN_PATTERN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/gi;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+// Types
+export interface XmlElement {
+  // Local name, without the namespace prefix
+  name: string;
+  // Attributes by local name
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+// Helper functions
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function getLocalName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    if (name === "xmlns" || name.startsWith("xmlns:")) continue;
+    attributes[getLocalName(name)] = decodeEntities(double ?? single ?? "");
+  }
+  return attributes;
+}
+
+// Parse a document into its root element; null when there is none
+export function parseXml(text: string): XmlElement | null {
+  const root: XmlElement = {
+    name: "",
+    attributes: {},
+    children: [],
+    text: "",
+  };
+  const stack = [root];
+
+  for (const [
+    ,
+    cdata,
+    closing,
+    name,
+    attributes,
+    selfClosing,
+    content,
+  ] of text.matchAll(TOKEN_PATTERN)) {
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (content !== undefined) {
+      current.text += decodeEntities(content);
+    } else if (name && closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (name) {
+      const element = {
+        name: getLocalName(name),
+        attributes: parseAttributes(attributes),
+        children: [],
+        text: "",
+      };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root.children[0] ?? null;
+}
+
+// The first descendant with the given local name
+export function findElement(
+  element: XmlElement | null | undefined,
+  name: string
+): XmlElement | null {
+  if (!element) return null;
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Every descendant with the given local name, in document order
+export function findElements(
+  element: XmlElement | null | undefined,
+  name: string
+): XmlElement[] {
+  if (!element) return [];
+  return element.children.flatMap((child) => [
+    ...(child.name === name ? [child] : []),
+    ...findElements(child, name),
+  ]);
+}
+
+// Trimmed text of the first descendant with the given name
+export function getElementText(
+  element: XmlElement | null | undefined,
+  name: string
+): string | undefined {
+  return findElement(element, name)?.text.trim() || undefined;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
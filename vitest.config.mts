@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  // tsconfig keeps JSX for Next to compile; tests need the automatic runtime
+  esbuild: { jsx: "automatic" },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+    env: {
+      SESSION_SECRET: "test-session-secret",
+    },
+  },
+});